@@ -0,0 +1,124 @@
+import React, { useState, useMemo } from 'react';
+import { Template, UpdateResult } from '../types';
+import { previewFieldCsv, CsvImportPreview } from '../services/csvImport';
+
+interface FieldCsvImportProps {
+  /** Template the fields are added to; without one a new template is created */
+  template?: Template;
+  onImport: (preview: CsvImportPreview, name: string) => Promise<UpdateResult>;
+  onCancel: () => void;
+  initialText?: string;
+}
+
+const EXAMPLE = 'Section,Label,Type,Required,Options\nGeneral,Equipment name,text,yes,\nChecks,Condition,select,yes,Good|Fair|Poor';
+
+export const FieldCsvImport: React.FC<FieldCsvImportProps> = ({
+  template,
+  onImport,
+  onCancel,
+  initialText = ''
+}) => {
+  const [text, setText] = useState(initialText);
+  const [name, setName] = useState('');
+  const [isImporting, setIsImporting] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const preview = useMemo(() => text.trim() ? previewFieldCsv(text, template) : null, [text, template]);
+  const canImport = !!preview && preview.errors.length === 0 && preview.rows.length > 0 &&
+    (!!template || name.trim() !== '') && !isImporting;
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      setText(await file.text());
+    }
+  };
+
+  const handleImport = async () => {
+    if (!preview) return;
+    setIsImporting(true);
+    setMessage(null);
+    try {
+      const result = await onImport(preview, name.trim());
+      if (!result.success) {
+        setMessage(`Import failed: ${result.error?.message}`);
+      }
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="template-editor csv-import">
+      <div className="editor-header">
+        <button onClick={onCancel}>← Back</button>
+        <h2>{template ? `Import fields into ${template.name}` : 'New template from CSV'}</h2>
+      </div>
+
+      {message && <div className="message error">{message}</div>}
+
+      <div className="editor-content">
+        {!template && (
+          <div className="field-group">
+            <label htmlFor="csv-template-name">Template Name:</label>
+            <input id="csv-template-name" type="text" value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+        )}
+
+        <div className="field-group">
+          <label htmlFor="csv-file">CSV file:</label>
+          <input id="csv-file" type="file" accept=".csv,text/csv" onChange={handleFile} />
+        </div>
+
+        <div className="field-group">
+          <label htmlFor="csv-text">Or paste rows:</label>
+          <textarea id="csv-text" value={text} placeholder={EXAMPLE} onChange={(e) => setText(e.target.value)} />
+        </div>
+
+        {preview && preview.errors.length > 0 && (
+          <ul className="csv-errors">
+            {preview.errors.map((error, index) => (
+              <li key={index}>
+                Row {error.row}{error.column ? ` (${error.column})` : ''}: {error.message}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {preview && preview.rows.length > 0 && (
+          <table className="csv-preview">
+            <thead>
+              <tr>
+                <th>Row</th>
+                <th>Section</th>
+                <th>Label</th>
+                <th>Type</th>
+                <th>Required</th>
+                <th>Options</th>
+              </tr>
+            </thead>
+            <tbody>
+              {preview.rows.map(row => (
+                <tr key={row.row}>
+                  <td>{row.row}</td>
+                  <td>{row.sectionTitle}{row.newSection && template ? ' (new)' : ''}</td>
+                  <td>{row.field.label}</td>
+                  <td>{row.field.type}</td>
+                  <td>{row.field.required ? 'Yes' : 'No'}</td>
+                  <td>{row.field.options?.join(', ')}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        <div className="editor-actions">
+          <button onClick={handleImport} disabled={!canImport} className="primary">
+            {isImporting ? 'Importing...' : `Import ${preview?.rows.length || 0} field${preview?.rows.length === 1 ? '' : 's'}`}
+          </button>
+          <button onClick={onCancel}>Cancel</button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,240 @@
+import React, { useState, useMemo, useReducer, useEffect } from 'react';
+import {
+  Template,
+  FieldDefinition,
+  InspectionAnswers,
+  InspectionContext,
+  ResponseValue,
+  ResponseSaveResult,
+  FieldValidationError
+} from '../types';
+import { resolveEffectiveTemplate } from '../services/variants';
+import { validateResponse } from '../services/validation';
+
+interface InspectionFormProps {
+  /** The template inspectors fill in, normally its published version */
+  template: Template;
+  /** Facts about the inspection that decide which variants apply */
+  context?: InspectionContext;
+  initialResponses?: InspectionAnswers;
+  /** Called with valid answers; a failed save result is shown on the form */
+  onSubmit: (responses: InspectionAnswers) => void | ResponseSaveResult | Promise<void | ResponseSaveResult>;
+  onCancel?: () => void;
+}
+
+export interface InspectionFormState {
+  responses: InspectionAnswers;
+  errors: Record<string, FieldValidationError[]>;
+  /** Why the last submit was refused once it left the form */
+  submitError?: string;
+  /** Answers that passed validation, until they're submitted or changed */
+  submitted?: InspectionAnswers;
+}
+
+export type InspectionFormAction =
+  | { type: 'change'; fieldId: string; value: ResponseValue }
+  /** Validate against the effective template, i.e. with variants applied */
+  | { type: 'submit'; template: Template }
+  | { type: 'rejected'; result: ResponseSaveResult };
+
+const NO_CONTEXT: InspectionContext = {};
+const NO_RESPONSES: InspectionAnswers = {};
+
+export function initialInspectionFormState(
+  template: Template,
+  initialResponses: InspectionAnswers = NO_RESPONSES
+): InspectionFormState {
+  // Unticked checkboxes are an answer of their own
+  const responses: InspectionAnswers = { ...initialResponses };
+  Object.values(template.field_definitions).forEach(field => {
+    if (field.type === 'checkbox' && responses[field.id] === undefined) {
+      responses[field.id] = false;
+    }
+  });
+  return { responses, errors: {} };
+}
+
+export function inspectionFormReducer(state: InspectionFormState, action: InspectionFormAction): InspectionFormState {
+  switch (action.type) {
+    case 'change': {
+      const { [action.fieldId]: cleared, ...errors } = state.errors;
+      return { responses: { ...state.responses, [action.fieldId]: action.value }, errors };
+    }
+    case 'submit': {
+      // Only fields the effective template shows belong in the response
+      const answers: InspectionAnswers = {};
+      Object.keys(action.template.field_definitions).forEach(fieldId => {
+        if (state.responses[fieldId] !== undefined) {
+          answers[fieldId] = state.responses[fieldId];
+        }
+      });
+
+      const result = validateResponse(action.template, answers);
+      return { responses: state.responses, errors: result.errors, submitted: result.valid ? answers : undefined };
+    }
+    case 'rejected':
+      return {
+        responses: state.responses,
+        errors: action.result.errors || {},
+        submitError: action.result.error?.message || 'Submit failed'
+      };
+  }
+}
+
+export const InspectionForm: React.FC<InspectionFormProps> = ({
+  template,
+  context = NO_CONTEXT,
+  initialResponses = NO_RESPONSES,
+  onSubmit,
+  onCancel
+}) => {
+  const effective = useMemo(() => resolveEffectiveTemplate(template, context).template, [template, context]);
+  const sections = useMemo(
+    () => [...effective.sections].sort((a, b) => a.order - b.order),
+    [effective]
+  );
+
+  const [{ responses, errors, submitError, submitted }, dispatch] = useReducer(
+    inspectionFormReducer,
+    undefined,
+    () => initialInspectionFormState(template, initialResponses)
+  );
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!submitted) return;
+
+    setIsSubmitting(true);
+    Promise.resolve(onSubmit(submitted))
+      .then(result => {
+        if (result && !result.success) dispatch({ type: 'rejected', result });
+      })
+      .catch(error => dispatch({ type: 'rejected', result: { success: false, error } }))
+      .finally(() => setIsSubmitting(false));
+  }, [submitted]);
+
+  const handleChange = (fieldId: string, value: ResponseValue) => {
+    dispatch({ type: 'change', fieldId, value });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    dispatch({ type: 'submit', template: effective });
+  };
+
+  return (
+    <form className="inspection-form" onSubmit={handleSubmit} noValidate>
+      <h2>{effective.name}</h2>
+      {submitError && <div className="message error">{submitError}</div>}
+
+      {sections.map(section => (
+        <fieldset key={section.id} className="inspection-section">
+          <legend>{section.title}</legend>
+          {section.fields
+            .map(fieldId => effective.field_definitions[fieldId])
+            .filter(Boolean)
+            .map(field => (
+              <div key={field.id} className={`inspection-field ${errors[field.id] ? 'invalid' : ''}`}>
+                <label htmlFor={`field-${field.id}`}>
+                  {field.label}
+                  {field.required && <span className="required-marker" aria-label="required"> *</span>}
+                </label>
+                <FieldInput
+                  field={field}
+                  value={responses[field.id]}
+                  disabled={isSubmitting}
+                  onChange={value => handleChange(field.id, value)}
+                />
+                {errors[field.id]?.map(error => (
+                  <p key={error.rule} className="field-error">{error.message}</p>
+                ))}
+              </div>
+            ))}
+        </fieldset>
+      ))}
+
+      <div className="editor-actions">
+        <button type="submit" className="primary" disabled={isSubmitting}>
+          {isSubmitting ? 'Submitting...' : 'Submit Inspection'}
+        </button>
+        {onCancel && (
+          <button type="button" onClick={onCancel} disabled={isSubmitting}>
+            Cancel
+          </button>
+        )}
+      </div>
+    </form>
+  );
+};
+
+interface FieldInputProps {
+  field: FieldDefinition;
+  value: ResponseValue | undefined;
+  disabled: boolean;
+  onChange: (value: ResponseValue) => void;
+}
+
+const FieldInput: React.FC<FieldInputProps> = ({ field, value, disabled, onChange }) => {
+  const id = `field-${field.id}`;
+
+  switch (field.type) {
+    case 'number':
+      return (
+        <input
+          id={id}
+          type="number"
+          value={typeof value === 'number' ? value : ''}
+          onChange={e => onChange(e.target.value === '' ? null : Number(e.target.value))}
+          required={field.required}
+          disabled={disabled}
+        />
+      );
+    case 'checkbox':
+      return (
+        <input
+          id={id}
+          type="checkbox"
+          checked={value === true}
+          onChange={e => onChange(e.target.checked)}
+          disabled={disabled}
+        />
+      );
+    case 'select':
+      return (
+        <select
+          id={id}
+          value={typeof value === 'string' ? value : ''}
+          onChange={e => onChange(e.target.value === '' ? null : e.target.value)}
+          required={field.required}
+          disabled={disabled}
+        >
+          <option value="">Select...</option>
+          {(field.options || []).map(option => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+      );
+    case 'date':
+      return (
+        <input
+          id={id}
+          type="date"
+          value={typeof value === 'string' ? value : ''}
+          onChange={e => onChange(e.target.value === '' ? null : e.target.value)}
+          required={field.required}
+          disabled={disabled}
+        />
+      );
+    case 'text':
+      return (
+        <input
+          id={id}
+          type="text"
+          value={typeof value === 'string' ? value : ''}
+          onChange={e => onChange(e.target.value)}
+          required={field.required}
+          disabled={disabled}
+        />
+      );
+  }
+};
@@ -1,16 +1,103 @@
-import React, { useState } from 'react';
-import { Template, TemplateUpdate, UpdateResult, TemplateSection, FieldDefinition } from '../types';
+import React, { useState, useMemo } from 'react';
+import {
+  Template,
+  TemplateUpdate,
+  UpdateResult,
+  TemplateSection,
+  FieldDefinition,
+  JsonPatchOperation,
+  TemplatePermissions,
+  InheritanceStatus,
+  InheritedValueStatus,
+  BaseUpdateNotice,
+  LibraryItem,
+  LibraryLink,
+  LibraryUpgrade
+} from '../types';
+import { diffTemplate } from '../services/jsonPatch';
+import { classifyTemplateChange, bumpVersion } from '../services/versionBump';
+import { ALL_PERMISSIONS } from '../services/permissions';
+import { describeInheritance } from '../services/templateInheritance';
+import {
+  findLibraryUpgrades,
+  applyLibraryUpgrade,
+  insertLibraryItem,
+  unlinkLibraryItem
+} from '../services/fieldLibrary';
+
+const INHERITANCE_LABELS: Record<InheritedValueStatus, string> = {
+  inherited: 'Inherited',
+  overridden: 'Overridden',
+  added: 'Added'
+};
 
 interface TemplateEditorProps {
   template: Template;
-  onUpdate: (templateId: string, updates: Partial<TemplateUpdate>) => Promise<UpdateResult>;
+  onUpdate: (templateId: string, updates: Partial<TemplateUpdate>, base?: Template) => Promise<UpdateResult>;
+  onPatch?: (templateId: string, operations: JsonPatchOperation[], baseVersion: string) => Promise<UpdateResult>;
+  onPublish?: (templateId: string) => Promise<UpdateResult>;
+  onArchive?: (templateId: string) => Promise<UpdateResult>;
   onBack: () => void;
+  /** Show the template without allowing edits, e.g. its published version */
+  readOnly?: boolean;
+  /** What the current user may do; without edit rights the draft is read-only */
+  permissions?: TemplatePermissions;
+  onImportCsv?: () => void;
+  /** For templates that inherit from a base: what comes from the base */
+  inheritance?: InheritanceStatus | null;
+  /** A newer base version the template can move onto */
+  baseUpdate?: BaseUpdateNotice | null;
+  onRebase?: (templateId: string) => Promise<UpdateResult>;
+  /** Latest versions of the field library's items, to insert and upgrade */
+  library?: LibraryItem[];
 }
 
-export const TemplateEditor: React.FC<TemplateEditorProps> = ({ template, onUpdate, onBack }) => {
+export const TemplateEditor: React.FC<TemplateEditorProps> = ({
+  template,
+  onUpdate,
+  onPatch,
+  onPublish,
+  onArchive,
+  onBack,
+  readOnly = false,
+  permissions = ALL_PERMISSIONS,
+  onImportCsv,
+  inheritance,
+  baseUpdate,
+  onRebase,
+  library = []
+}) => {
+  const [baseTemplate, setBaseTemplate] = useState<Template>(template);
   const [editedTemplate, setEditedTemplate] = useState<Template>({ ...template });
   const [isUpdating, setIsUpdating] = useState(false);
   const [updateMessage, setUpdateMessage] = useState<string | null>(null);
+  const canEdit = permissions.edit && !readOnly;
+  const locked = isUpdating || !canEdit;
+
+  // Preview of how saving will move the version, relative to what we loaded
+  const pendingChange = useMemo(
+    () => classifyTemplateChange(baseTemplate, editedTemplate),
+    [baseTemplate, editedTemplate]
+  );
+
+  // Recomputed from the edits so relabeling or hiding shows up before saving
+  const inheritanceView = useMemo(
+    () => inheritance ? describeInheritance(editedTemplate, inheritance.base) : null,
+    [inheritance, editedTemplate]
+  );
+  const isInherited = (status?: InheritedValueStatus) => status === 'inherited' || status === 'overridden';
+
+  // Heirs get library content through their base
+  const usesLibrary = canEdit && !inheritance && library.length > 0;
+  const [pickedItemId, setPickedItemId] = useState('');
+  const [pickedSectionId, setPickedSectionId] = useState('');
+  const libraryUpgrades = useMemo(
+    () => usesLibrary ? findLibraryUpgrades(editedTemplate, library) : [],
+    [usesLibrary, editedTemplate, library]
+  );
+  const pickedItem = library.find(item => item.item_id === pickedItemId);
+  const libraryName = (link: LibraryLink) =>
+    library.find(item => item.item_id === link.item_id)?.name || link.item_id;
 
   const handleNameChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setEditedTemplate({ ...editedTemplate, name: e.target.value });
@@ -36,8 +123,32 @@ export const TemplateEditor: React.FC<TemplateEditorProps> = ({ template, onUpda
   };
 
   const handleRemoveSection = (index: number) => {
+    const removed = editedTemplate.sections[index];
     const newSections = editedTemplate.sections.filter((_, i) => i !== index);
-    setEditedTemplate({ ...editedTemplate, sections: newSections });
+    // A blueprint's fields only exist as part of its section
+    const newFieldDefinitions = { ...editedTemplate.field_definitions };
+    if (removed.library) {
+      removed.fields.forEach(fieldId => delete newFieldDefinitions[fieldId]);
+    }
+    setEditedTemplate({ ...editedTemplate, sections: newSections, field_definitions: newFieldDefinitions });
+  };
+
+  const handleInsertLibraryItem = () => {
+    if (!pickedItem) return;
+    setEditedTemplate({
+      ...editedTemplate,
+      ...insertLibraryItem(editedTemplate, pickedItem, pickedSectionId || undefined)
+    });
+    setPickedItemId('');
+  };
+
+  const handleLibraryUpgrade = (upgrade: LibraryUpgrade) => {
+    const item = library.find(candidate => candidate.item_id === upgrade.itemId)!;
+    setEditedTemplate(applyLibraryUpgrade(editedTemplate, item));
+  };
+
+  const handleUnlink = (targetId: string) => {
+    setEditedTemplate(unlinkLibraryItem(editedTemplate, targetId));
   };
 
   const handleFieldDefinitionChange = (fieldId: string, field: keyof FieldDefinition, value: any) => {
@@ -51,24 +162,95 @@ export const TemplateEditor: React.FC<TemplateEditorProps> = ({ template, onUpda
     setEditedTemplate({ ...editedTemplate, field_definitions: newFieldDefinitions });
   };
 
-  const handleSave = async () => {
+  const handleHideField = (fieldId: string) => {
+    const { [fieldId]: hidden, ...fieldDefinitions } = editedTemplate.field_definitions;
+    setEditedTemplate({
+      ...editedTemplate,
+      sections: editedTemplate.sections.map(section => ({
+        ...section,
+        fields: section.fields.filter(id => id !== fieldId)
+      })),
+      field_definitions: fieldDefinitions
+    });
+  };
+
+  const handleRestoreField = (fieldId: string) => {
+    const base = inheritance!.base;
+    setEditedTemplate({
+      ...editedTemplate,
+      // Back in its place in the base section, among the fields still shown
+      sections: editedTemplate.sections.map(section => {
+        const baseSection = base.sections.find(s => s.id === section.id);
+        return baseSection?.fields.includes(fieldId)
+          ? { ...section, fields: baseSection.fields.filter(id => id === fieldId || section.fields.includes(id)) }
+          : section;
+      }),
+      field_definitions: { ...editedTemplate.field_definitions, [fieldId]: base.field_definitions[fieldId] }
+    });
+  };
+
+  const handleRebase = async () => {
     setIsUpdating(true);
     setUpdateMessage(null);
 
-    const updates: Partial<TemplateUpdate> = {
-      name: editedTemplate.name,
-      sections: editedTemplate.sections,
-      field_definitions: editedTemplate.field_definitions,
-      version: editedTemplate.version
-    };
+    try {
+      const result = await onRebase!(template.id);
+      if (result.success && result.data) {
+        setUpdateMessage(`Now on base version ${baseUpdate!.toBaseVersion}, saved as version ${result.newVersion}`);
+        setBaseTemplate(result.data);
+        setEditedTemplate({ ...result.data });
+      } else {
+        setUpdateMessage(`Update failed: ${result.error?.message}`);
+      }
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const handleSave = async () => {
+    setIsUpdating(true);
+    setUpdateMessage(null);
 
     try {
-      const result = await onUpdate(template.id, updates);
+      let result: UpdateResult;
+      if (onPatch) {
+        // Only send what this editor actually changed
+        const operations = diffTemplate(baseTemplate, editedTemplate);
+        if (operations.length === 0) {
+          setUpdateMessage('No changes to save');
+          return;
+        }
+        result = await onPatch(template.id, operations, baseTemplate.version);
+      } else {
+        const updates: Partial<TemplateUpdate> = {
+          name: editedTemplate.name,
+          sections: editedTemplate.sections,
+          field_definitions: editedTemplate.field_definitions,
+          version: editedTemplate.version
+        };
+        result = await onUpdate(template.id, updates, baseTemplate);
+      }
+
       if (result.success) {
-        setUpdateMessage('Template updated successfully!');
-        if (result.newVersion) {
+        const saved = result.merged
+          ? 'Template updated successfully (merged with changes from another user)!'
+          : 'Template updated successfully!';
+        setUpdateMessage(result.versionChange
+          ? `${saved} Now at version ${result.newVersion} (${result.versionChange.bump} change).`
+          : saved);
+        if (result.data) {
+          // The saved row, including any merged-in edits, is the new base
+          setBaseTemplate(result.data);
+          setEditedTemplate({ ...result.data });
+        } else if (result.newVersion) {
           setEditedTemplate({ ...editedTemplate, version: result.newVersion });
         }
+      } else if (result.queued) {
+        // Later edits build on this one, which will be replayed first
+        setBaseTemplate(editedTemplate);
+        setUpdateMessage(result.error?.message || 'Saved offline. Changes will sync when the connection returns.');
+      } else if (result.conflicts?.length) {
+        setUpdateMessage(`Update failed: conflicting edits to ${result.conflicts.map(c => c.path).join(', ')}`);
       } else {
         setUpdateMessage(`Update failed: ${result.error?.message}`);
       }
@@ -79,11 +261,32 @@ export const TemplateEditor: React.FC<TemplateEditorProps> = ({ template, onUpda
     }
   };
 
+  const handleLifecycleChange = async (action: (templateId: string) => Promise<UpdateResult>, done: string) => {
+    setIsUpdating(true);
+    setUpdateMessage(null);
+
+    try {
+      const result = await action(template.id);
+      if (result.success) {
+        setUpdateMessage(done);
+        if (result.data) {
+          setBaseTemplate(result.data);
+        }
+      } else {
+        setUpdateMessage(`Update failed: ${result.error?.message}`);
+      }
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  const hasUnsavedEdits = diffTemplate(baseTemplate, editedTemplate).length > 0;
+
   return (
     <div className="template-editor">
       <div className="editor-header">
         <button onClick={onBack}>← Back to Templates</button>
-        <h2>Edit Template</h2>
+        <h2>{readOnly ? 'Published Template' : canEdit ? 'Edit Draft' : 'View Draft'}</h2>
       </div>
 
       {updateMessage && (
@@ -93,6 +296,53 @@ export const TemplateEditor: React.FC<TemplateEditorProps> = ({ template, onUpda
       )}
 
       <div className="editor-content">
+        {inheritance && (
+          <div className="inheritance-summary">
+            Inherits from {inheritance.base.name} (version {inheritance.base.version})
+          </div>
+        )}
+
+        {baseUpdate && !readOnly && (
+          <div className={`base-update ${baseUpdate.change.bump}`}>
+            <strong>
+              The base template has a new version {baseUpdate.toBaseVersion} ({baseUpdate.change.bump} change for this template)
+            </strong>
+            <ul>
+              {baseUpdate.change.reasons.map((reason, index) => (
+                <li key={index} className={reason.bump}>{reason.message}</li>
+              ))}
+              {baseUpdate.issues.map(issue => (
+                <li key={issue.fieldId} className="issue">{issue.message}</li>
+              ))}
+            </ul>
+            {canEdit && onRebase && (
+              <button
+                onClick={handleRebase}
+                disabled={isUpdating || hasUnsavedEdits}
+                title={hasUnsavedEdits ? 'Save your changes before updating' : undefined}
+              >
+                Update to base version {baseUpdate.toBaseVersion}
+              </button>
+            )}
+          </div>
+        )}
+
+        {libraryUpgrades.length > 0 && (
+          <div className="library-upgrades">
+            <strong>Library updates available</strong>
+            <ul>
+              {libraryUpgrades.map(upgrade => (
+                <li key={upgrade.targetId}>
+                  {upgrade.name}: version {upgrade.fromVersion} → {upgrade.toVersion}
+                  <button onClick={() => handleLibraryUpgrade(upgrade)} disabled={locked}>
+                    Upgrade
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         <div className="field-group">
           <label htmlFor="template-name">Template Name:</label>
           <input
@@ -100,7 +350,7 @@ export const TemplateEditor: React.FC<TemplateEditorProps> = ({ template, onUpda
             type="text"
             value={editedTemplate.name}
             onChange={handleNameChange}
-            disabled={isUpdating}
+            disabled={locked}
           />
         </div>
 
@@ -110,72 +360,193 @@ export const TemplateEditor: React.FC<TemplateEditorProps> = ({ template, onUpda
 
         <div className="sections-editor">
           <h3>Sections</h3>
-          {editedTemplate.sections.map((section, index) => (
-            <div key={section.id} className="section-item">
-              <input
-                type="text"
-                value={section.title}
-                onChange={(e) => handleSectionChange(index, 'title', e.target.value)}
-                disabled={isUpdating}
-              />
-              <input
-                type="number"
-                value={section.order}
-                onChange={(e) => handleSectionChange(index, 'order', parseInt(e.target.value))}
-                disabled={isUpdating}
-              />
-              <button onClick={() => handleRemoveSection(index)} disabled={isUpdating}>
-                Remove
-              </button>
-            </div>
-          ))}
-          <button onClick={handleAddSection} disabled={isUpdating}>
+          {editedTemplate.sections.map((section, index) => {
+            const status = inheritanceView?.sections[section.id];
+            const fixed = locked || isInherited(status) || !!section.library;
+            return (
+              <div key={section.id} className="section-item">
+                {status && <InheritanceBadge status={status} />}
+                {section.library && <LibraryBadge name={libraryName(section.library)} link={section.library} />}
+                <input
+                  type="text"
+                  value={section.title}
+                  onChange={(e) => handleSectionChange(index, 'title', e.target.value)}
+                  disabled={fixed}
+                />
+                <input
+                  type="number"
+                  value={section.order}
+                  onChange={(e) => handleSectionChange(index, 'order', parseInt(e.target.value))}
+                  disabled={fixed}
+                />
+                <button onClick={() => handleRemoveSection(index)} disabled={locked || isInherited(status)}>
+                  Remove
+                </button>
+                {section.library && !isInherited(status) && (
+                  <button onClick={() => handleUnlink(section.id)} disabled={locked}>
+                    Unlink
+                  </button>
+                )}
+              </div>
+            );
+          })}
+          <button onClick={handleAddSection} disabled={locked}>
             Add Section
           </button>
+          {usesLibrary && (
+            <div className="library-picker">
+              <select value={pickedItemId} onChange={(e) => setPickedItemId(e.target.value)} disabled={locked}>
+                <option value="">Insert from library…</option>
+                {library.map(item => (
+                  <option key={item.item_id} value={item.item_id}>
+                    {item.name} ({item.kind}, version {item.version})
+                  </option>
+                ))}
+              </select>
+              {pickedItem?.kind === 'field' && (
+                <select value={pickedSectionId} onChange={(e) => setPickedSectionId(e.target.value)} disabled={locked}>
+                  <option value="">Last section</option>
+                  {editedTemplate.sections.filter(section => !section.library).map(section => (
+                    <option key={section.id} value={section.id}>{section.title}</option>
+                  ))}
+                </select>
+              )}
+              <button
+                onClick={handleInsertLibraryItem}
+                disabled={locked || !pickedItem || (pickedItem.kind === 'field' && editedTemplate.sections.length === 0)}
+              >
+                Insert
+              </button>
+            </div>
+          )}
         </div>
 
         <div className="fields-editor">
           <h3>Field Definitions</h3>
-          {Object.entries(editedTemplate.field_definitions).map(([fieldId, field]) => (
-            <div key={fieldId} className="field-item">
-              <h4>{fieldId}</h4>
-              <input
-                type="text"
-                value={field.label}
-                onChange={(e) => handleFieldDefinitionChange(fieldId, 'label', e.target.value)}
-                placeholder="Label"
-                disabled={isUpdating}
-              />
-              <select
-                value={field.type}
-                onChange={(e) => handleFieldDefinitionChange(fieldId, 'type', e.target.value as FieldDefinition['type'])}
-                disabled={isUpdating}
-              >
-                <option value="text">Text</option>
-                <option value="number">Number</option>
-                <option value="checkbox">Checkbox</option>
-                <option value="select">Select</option>
-                <option value="date">Date</option>
-              </select>
-              <label>
+          {Object.entries(editedTemplate.field_definitions).map(([fieldId, field]) => {
+            const status = inheritanceView?.fields[fieldId];
+            // Inherited fields can only be relabeled or hidden, library fields
+            // only changed by unlinking them
+            const fixed = locked || isInherited(status) || !!field.library;
+            return (
+              <div key={fieldId} className="field-item">
+                <h4>
+                  {fieldId}
+                  {status && <InheritanceBadge status={status} />}
+                  {field.library && <LibraryBadge name={libraryName(field.library)} link={field.library} />}
+                </h4>
                 <input
-                  type="checkbox"
-                  checked={field.required}
-                  onChange={(e) => handleFieldDefinitionChange(fieldId, 'required', e.target.checked)}
-                  disabled={isUpdating}
+                  type="text"
+                  value={field.label}
+                  onChange={(e) => handleFieldDefinitionChange(fieldId, 'label', e.target.value)}
+                  placeholder="Label"
+                  disabled={locked || !!field.library}
                 />
-                Required
-              </label>
+                <select
+                  value={field.type}
+                  onChange={(e) => handleFieldDefinitionChange(fieldId, 'type', e.target.value as FieldDefinition['type'])}
+                  disabled={fixed}
+                >
+                  <option value="text">Text</option>
+                  <option value="number">Number</option>
+                  <option value="checkbox">Checkbox</option>
+                  <option value="select">Select</option>
+                  <option value="date">Date</option>
+                </select>
+                <label>
+                  <input
+                    type="checkbox"
+                    checked={field.required}
+                    onChange={(e) => handleFieldDefinitionChange(fieldId, 'required', e.target.checked)}
+                    disabled={fixed}
+                  />
+                  Required
+                </label>
+                {isInherited(status) && (
+                  <button onClick={() => handleHideField(fieldId)} disabled={locked}>
+                    Hide
+                  </button>
+                )}
+                {field.library && !field.library.field_id && !isInherited(status) && (
+                  <button onClick={() => handleUnlink(fieldId)} disabled={locked}>
+                    Unlink
+                  </button>
+                )}
+              </div>
+            );
+          })}
+          {inheritanceView && inheritanceView.hiddenFields.length > 0 && (
+            <div className="hidden-fields">
+              <h4>Hidden from the base</h4>
+              {inheritanceView.hiddenFields.map(fieldId => (
+                <div key={fieldId} className="field-item hidden">
+                  {inheritanceView.base.field_definitions[fieldId].label}
+                  <button onClick={() => handleRestoreField(fieldId)} disabled={locked}>
+                    Restore
+                  </button>
+                </div>
+              ))}
             </div>
-          ))}
+          )}
         </div>
 
-        <div className="editor-actions">
-          <button onClick={handleSave} disabled={isUpdating} className="primary">
-            {isUpdating ? 'Saving...' : 'Save Changes'}
-          </button>
-        </div>
+        {canEdit && pendingChange.reasons.length > 0 && (
+          <div className={`version-preview ${pendingChange.bump}`}>
+            <strong>
+              Saving will create version {bumpVersion(baseTemplate.version, pendingChange.bump)} ({pendingChange.bump} change)
+            </strong>
+            <ul>
+              {pendingChange.reasons.map((reason, index) => (
+                <li key={index} className={reason.bump}>{reason.message}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {!readOnly && (
+          <div className="editor-actions">
+            {canEdit && (
+              <button onClick={handleSave} disabled={isUpdating} className="primary">
+                {isUpdating ? 'Saving...' : 'Save Changes'}
+              </button>
+            )}
+            {canEdit && onImportCsv && (
+              <button
+                onClick={onImportCsv}
+                disabled={isUpdating || hasUnsavedEdits}
+                title={hasUnsavedEdits ? 'Save your changes before importing' : undefined}
+              >
+                Import fields from CSV
+              </button>
+            )}
+            {onPublish && permissions.publish && (
+              <button
+                onClick={() => handleLifecycleChange(onPublish, `Published version ${baseTemplate.version}`)}
+                disabled={isUpdating || hasUnsavedEdits}
+                title={hasUnsavedEdits ? 'Save your changes before publishing' : undefined}
+              >
+                Publish
+              </button>
+            )}
+            {onArchive && permissions.archive && baseTemplate.state !== 'archived' && (
+              <button
+                onClick={() => handleLifecycleChange(onArchive, 'Template archived')}
+                disabled={isUpdating}
+              >
+                Archive
+              </button>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
+
+const InheritanceBadge: React.FC<{ status: InheritedValueStatus }> = ({ status }) => (
+  <span className={`inheritance-badge ${status}`}>{INHERITANCE_LABELS[status]}</span>
+);
+
+const LibraryBadge: React.FC<{ name: string; link: LibraryLink }> = ({ name, link }) => (
+  <span className="library-badge">Library: {name} v{link.version}</span>
+);
@@ -1,34 +1,176 @@
-import React from 'react';
-import { Template } from '../types';
+import React, { useState } from 'react';
+import { Template, OutboxStatus, TemplateState, TemplatePermissions, TemplateFilter, TemplateSort } from '../types';
+import {
+  getTemplateState,
+  getPublishedTemplate,
+  hasUnpublishedChanges,
+  isAvailableForInspections
+} from '../services/templateLifecycle';
+import { ALL_PERMISSIONS } from '../services/permissions';
 
 interface TemplateListProps {
   templates: Template[];
+  syncStatus?: Record<string, OutboxStatus>;
   onSelectTemplate: (template: Template) => void;
+  onOpenPublished?: (template: Template) => void;
+  /** Offered for templates inspectors may currently use */
+  onStartInspection?: (template: Template) => void;
+  /** What the current user may do; actions they can't take aren't offered */
+  permissions?: TemplatePermissions;
+  onImportCsv?: () => void;
+  /** The search, filters, sort and page shown; with onFilterChange, the controls to change them */
+  filter?: TemplateFilter;
+  onFilterChange?: (filter: TemplateFilter) => void;
+  /** How many templates match the filter across all pages */
+  total?: number;
 }
 
-export const TemplateList: React.FC<TemplateListProps> = ({ templates, onSelectTemplate }) => {
+const STATE_LABELS: Record<TemplateState, string> = {
+  draft: 'Draft',
+  published: 'Published',
+  archived: 'Archived'
+};
+
+const SORT_LABELS: Record<TemplateSort, string> = {
+  name: 'Name (A-Z)',
+  '-name': 'Name (Z-A)',
+  '-updated_at': 'Recently updated',
+  updated_at: 'Least recently updated',
+  '-update_count': 'Most updates',
+  update_count: 'Fewest updates'
+};
+
+const SYNC_STATUS_LABELS: Record<OutboxStatus, string> = {
+  pending: 'Pending sync',
+  failed: 'Sync failed',
+  conflict: 'Sync conflict'
+};
+
+export const TemplateList: React.FC<TemplateListProps> = ({
+  templates,
+  syncStatus = {},
+  onSelectTemplate,
+  onOpenPublished,
+  onStartInspection,
+  permissions = ALL_PERMISSIONS,
+  onImportCsv,
+  filter = {},
+  onFilterChange,
+  total = templates.length
+}) => {
+  const [query, setQuery] = useState(filter.query || '');
+  const pageCount = filter.pageSize ? Math.max(1, Math.ceil(total / filter.pageSize)) : 1;
+  const page = filter.page || 1;
+  const state = Array.isArray(filter.state) ? filter.state.join(',') : filter.state || '';
+
+  // Any change other than paging starts over on the first page
+  const refine = (changes: TemplateFilter) => onFilterChange?.({ ...filter, ...changes, page: changes.page });
+
   return (
     <div className="template-list">
       <h2>Templates</h2>
+      {onImportCsv && permissions.edit && (
+        <button onClick={onImportCsv}>New template from CSV</button>
+      )}
+      {onFilterChange && (
+        <div className="template-filters">
+          <form onSubmit={(e) => { e.preventDefault(); refine({ query: query.trim() || undefined }); }}>
+            <input
+              type="search"
+              placeholder="Search names, sections and fields"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+            />
+            <button type="submit">Search</button>
+          </form>
+          <label>
+            State
+            <select
+              value={state}
+              onChange={(e) => refine({ state: (e.target.value || undefined) as TemplateState | undefined })}
+            >
+              <option value="">All</option>
+              {Object.entries(STATE_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Updated after
+            <input
+              type="date"
+              value={filter.updatedAfter?.slice(0, 10) || ''}
+              onChange={(e) => refine({ updatedAfter: e.target.value || undefined })}
+            />
+          </label>
+          <label>
+            Sort by
+            <select
+              value={filter.sort || 'name'}
+              onChange={(e) => refine({ sort: e.target.value as TemplateSort })}
+            >
+              {Object.entries(SORT_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+      )}
       {templates.length === 0 ? (
-        <p>No templates available</p>
+        <p>{filter.query || filter.state || filter.updatedAfter ? 'No templates match' : 'No templates available'}</p>
       ) : (
         <div className="template-grid">
-          {templates.map((template) => (
-            <div
-              key={template.id}
-              className="template-card"
-              onClick={() => onSelectTemplate(template)}
-            >
-              <h3>{template.name}</h3>
-              <p>Version: {template.version}</p>
-              <p>Sections: {template.sections?.length || 0}</p>
-              <p>Last Updated: {new Date(template.updated_at).toLocaleString()}</p>
-              {template.update_count && (
-                <p>Updates: {template.update_count}</p>
-              )}
-            </div>
-          ))}
+          {templates.map((template) => {
+            const state = getTemplateState(template);
+            const published = getPublishedTemplate(template);
+
+            return (
+              <div
+                key={template.id}
+                className="template-card"
+                onClick={() => onSelectTemplate(template)}
+              >
+                <h3>{template.name}</h3>
+                <span className={`lifecycle-badge ${state}`}>{STATE_LABELS[state]}</span>
+                {published && hasUnpublishedChanges(template) && (
+                  <span className="lifecycle-badge unpublished">Unpublished changes</span>
+                )}
+                {syncStatus[template.id] && (
+                  <span className={`sync-status ${syncStatus[template.id]}`}>
+                    {SYNC_STATUS_LABELS[syncStatus[template.id]]}
+                  </span>
+                )}
+                <p>Version: {template.version}</p>
+                <p>Sections: {template.sections?.length || 0}</p>
+                <p>Last Updated: {new Date(template.updated_at).toLocaleString()}</p>
+                {template.update_count && (
+                  <p>Updates: {template.update_count}</p>
+                )}
+                <div className="template-card-actions">
+                  <button onClick={(e) => { e.stopPropagation(); onSelectTemplate(template); }}>
+                    {permissions.edit ? 'Edit draft' : 'View draft'}
+                  </button>
+                  {published && onOpenPublished && (
+                    <button onClick={(e) => { e.stopPropagation(); onOpenPublished(template); }}>
+                      View published ({published.version})
+                    </button>
+                  )}
+                  {onStartInspection && isAvailableForInspections(template) && (
+                    <button onClick={(e) => { e.stopPropagation(); onStartInspection(template); }}>
+                      Start inspection
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+      {onFilterChange && pageCount > 1 && (
+        <div className="template-pages">
+          <button disabled={page <= 1} onClick={() => refine({ page: page - 1 })}>Previous</button>
+          <span>Page {page} of {pageCount} ({total} templates)</span>
+          <button disabled={page >= pageCount} onClick={() => refine({ page: page + 1 })}>Next</button>
         </div>
       )}
     </div>
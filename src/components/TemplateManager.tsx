@@ -1,25 +1,118 @@
 import React, { useState, useEffect } from 'react';
-import { Template, TemplateUpdate, UpdateResult } from '../types';
+import {
+  Template,
+  TemplateUpdate,
+  UpdateResult,
+  JsonPatchOperation,
+  OutboxEntry,
+  OutboxStatus,
+  TemplatePermissions,
+  InheritanceStatus,
+  BaseUpdateNotice,
+  LibraryItem,
+  TemplateFilter,
+  InspectionAnswers,
+  InspectionResponse,
+  ResponseSaveResult,
+  UpdateFailedError
+} from '../types';
 import { TemplateService } from '../services/TemplateService';
+import { TemplateOutbox } from '../services/TemplateOutbox';
+import { InspectionResponseService } from '../services/InspectionResponseService';
+import { getPublishedTemplate } from '../services/templateLifecycle';
+import { ALL_PERMISSIONS } from '../services/permissions';
+import { applyFieldCsv, CsvImportPreview } from '../services/csvImport';
+import { parseTemplateFilter, formatTemplateFilter } from '../services/templateSearch';
 import { TemplateList } from './TemplateList';
 import { TemplateEditor } from './TemplateEditor';
+import { FieldCsvImport } from './FieldCsvImport';
+import { InspectionForm } from './InspectionForm';
 
-export const TemplateManager: React.FC = () => {
+const PAGE_SIZE = 12;
+
+interface TemplateManagerProps {
+  /** Where inspections started from the list are stored; by default alongside the templates */
+  responseService?: InspectionResponseService;
+}
+
+export const TemplateManager: React.FC<TemplateManagerProps> = ({ responseService }) => {
   const [templates, setTemplates] = useState<Template[]>([]);
+  // Search, filters, sort and page live in the URL so they survive reloads and can be shared
+  const [filter, setFilter] = useState<TemplateFilter>(() => ({
+    pageSize: PAGE_SIZE,
+    ...parseTemplateFilter(window.location.search)
+  }));
+  const [total, setTotal] = useState(0);
   const [selectedTemplate, setSelectedTemplate] = useState<Template | null>(null);
+  const [viewingPublished, setViewingPublished] = useState(false);
+  // Set while importing CSV fields: into a template, or into a new one
+  const [csvImport, setCsvImport] = useState<{ target?: Template } | null>(null);
+  // The published template being filled in, and its response once started
+  const [inspection, setInspection] = useState<{ template: Template; response?: InspectionResponse } | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [inheritance, setInheritance] = useState<InheritanceStatus | null>(null);
+  const [baseUpdate, setBaseUpdate] = useState<BaseUpdateNotice | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [permissions, setPermissions] = useState<TemplatePermissions>(ALL_PERMISSIONS);
+  const [library, setLibrary] = useState<LibraryItem[]>([]);
   const [templateService] = useState(() => new TemplateService());
+  const [outbox] = useState(() => new TemplateOutbox(templateService));
+  const [responses] = useState(() => responseService || new InspectionResponseService(undefined, templateService));
+  const [outboxEntries, setOutboxEntries] = useState<OutboxEntry[]>(() => outbox.getEntries());
 
   useEffect(() => {
+    const search = formatTemplateFilter(filter);
+    window.history.replaceState(null, '', `${window.location.pathname}${search ? `?${search}` : ''}`);
     loadTemplates();
-  }, []);
+  }, [filter]);
+
+  useEffect(() => {
+    const unsubscribe = outbox.subscribe(setOutboxEntries);
+
+    // Replay queued edits whenever the browser comes back online
+    const handleOnline = async () => {
+      await outbox.replay();
+      await loadTemplates();
+    };
+    window.addEventListener('online', handleOnline);
+    if (navigator.onLine) {
+      outbox.replay();
+    }
+
+    return () => {
+      unsubscribe();
+      window.removeEventListener('online', handleOnline);
+    };
+  }, [outbox]);
+
+  useEffect(() => {
+    setInheritance(null);
+    setBaseUpdate(null);
+    if (!selectedTemplate?.base_template_id || viewingPublished) return;
+
+    const templateId = selectedTemplate.id;
+    Promise.all([
+      templateService.getInheritance(templateId),
+      templateService.getBaseUpdates(templateId)
+    ]).then(([status, updates]) => {
+      setInheritance(status);
+      setBaseUpdate(updates[0] || null);
+    }).catch(err => console.error('Failed to load the base template:', err));
+  }, [selectedTemplate, viewingPublished]);
 
   const loadTemplates = async () => {
     setIsLoading(true);
     try {
-      const result = await templateService.getTemplates();
-      setTemplates(result);
+      const [result, allowed, libraryItems] = await Promise.all([
+        templateService.getTemplates(filter),
+        templateService.getPermissions(),
+        templateService.getLibraryItems()
+      ]);
+      setTemplates(result.templates);
+      setTotal(result.total);
+      setPermissions(allowed);
+      setLibrary(libraryItems);
       setError(null);
     } catch (err) {
       setError('Failed to load templates');
@@ -29,35 +122,184 @@ export const TemplateManager: React.FC = () => {
     }
   };
 
-  const handleUpdateTemplate = async (templateId: string, updates: Partial<TemplateUpdate>) => {
-    setIsLoading(true);
-    try {
-      const result: UpdateResult = await templateService.updateTemplate(templateId, updates);
-      if (result.success) {
-        await loadTemplates();
-        setError(null);
-        return result;
-      } else {
-        setError(result.error?.message || 'Update failed');
-        return result;
+  // Saves are reported by the editor, which stays mounted throughout; the
+  // selected template follows what was saved so the next edit builds on it
+  const handleSaved = async (templateId: string, result: UpdateResult) => {
+    if (result.success) {
+      if (result.data) {
+        setSelectedTemplate(current => current?.id === templateId ? result.data! : current);
       }
+      await loadTemplates();
+    }
+    return result;
+  };
+
+  const handleUpdateTemplate = async (templateId: string, updates: Partial<TemplateUpdate>, base?: Template) => {
+    try {
+      return await handleSaved(templateId, await outbox.updateTemplate(templateId, updates, base));
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Update failed';
-      setError(errorMessage);
-      return { success: false, error: new Error(errorMessage) };
-    } finally {
-      setIsLoading(false);
+      return { success: false, error: err instanceof Error ? err : new Error('Update failed') };
+    }
+  };
+
+  const handlePatchTemplate = async (templateId: string, operations: JsonPatchOperation[], baseVersion: string) =>
+    handleSaved(templateId, await outbox.patchTemplate(templateId, operations, baseVersion));
+
+  const handleLifecycleChange = async (result: Promise<UpdateResult>) => {
+    const outcome = await result;
+    if (outcome.success) {
+      await loadTemplates();
+    }
+    return outcome;
+  };
+
+  const handlePublishTemplate = (templateId: string) =>
+    handleLifecycleChange(templateService.publishTemplate(templateId));
+
+  const handleArchiveTemplate = (templateId: string) =>
+    handleLifecycleChange(templateService.archiveTemplate(templateId));
+
+  const handleRebaseTemplate = async (templateId: string) => {
+    const result = await handleLifecycleChange(templateService.rebaseTemplate(templateId));
+    if (result.success && result.data) {
+      setSelectedTemplate(result.data);
+    }
+    return result;
+  };
+
+  const handleCsvImport = async (preview: CsvImportPreview, name: string): Promise<UpdateResult> => {
+    const target = csvImport?.target;
+    const { update, errors } = applyFieldCsv(target || { sections: [], field_definitions: {} }, preview);
+    if (errors.length > 0) {
+      return { success: false, error: new UpdateFailedError(errors.map(e => `Row ${e.row}: ${e.message}`).join('; ')) };
+    }
+
+    // A new template is only created once its content is known to be valid
+    const result = target
+      ? await handleUpdateTemplate(target.id, update, target)
+      : await handleLifecycleChange(templateService.createTemplate(name, { content: update }));
+    if (result.success && result.data) {
+      setCsvImport(null);
+      setSelectedTemplate(result.data);
+      setViewingPublished(false);
+    }
+    return result;
+  };
+
+  const handleStartInspection = (template: Template) => {
+    setInspection({ template: getPublishedTemplate(template)! });
+    setNotice(null);
+  };
+
+  const handleSubmitInspection = async (answers: InspectionAnswers): Promise<ResponseSaveResult> => {
+    const { template } = inspection!;
+    // A response started by an earlier, refused submit is submitted again rather than duplicated
+    let response = inspection!.response;
+    if (!response) {
+      const started = await responses.startResponse(template.id, template.version);
+      if (!started.success) return started;
+      response = started.data!;
+      setInspection({ template, response });
+    }
+
+    const result = await responses.submitResponse(response.id, response.version, answers);
+    if (result.success) {
+      setInspection(null);
+      setNotice(`Inspection of ${template.name} submitted`);
     }
+    return result;
   };
 
   const handleSelectTemplate = (template: Template) => {
     setSelectedTemplate(template);
+    setViewingPublished(false);
+  };
+
+  const handleOpenPublished = (template: Template) => {
+    setSelectedTemplate(getPublishedTemplate(template));
+    setViewingPublished(true);
   };
 
   const handleBackToList = () => {
     setSelectedTemplate(null);
+    setViewingPublished(false);
   };
 
+  const syncStatus: Record<string, OutboxStatus> = {};
+  templates.forEach(template => {
+    const status = outbox.getStatus(template.id);
+    if (status) {
+      syncStatus[template.id] = status;
+    }
+  });
+
+  const unsyncedEntries = outboxEntries.filter(entry => entry.status !== 'pending');
+  const pendingCount = outboxEntries.length - unsyncedEntries.length;
+
+  const outboxPanel = outboxEntries.length > 0 && (
+    <div className="outbox-panel">
+      {pendingCount > 0 && (
+        <div className="message pending">
+          {pendingCount} edit{pendingCount === 1 ? '' : 's'} waiting to sync
+          <button onClick={() => outbox.replay()}>Sync now</button>
+        </div>
+      )}
+      {unsyncedEntries.map(entry => (
+        <div key={entry.id} className="message error">
+          {entry.status === 'conflict' ? 'Conflict' : 'Failed'} syncing edit to {entry.templateId}
+          {entry.conflicts?.length ? ` (${entry.conflicts.map(c => c.path).join(', ')})` : ''}: {entry.error}
+          <button onClick={() => outbox.discard(entry.id)}>Discard</button>
+        </div>
+      ))}
+    </div>
+  );
+
+  if (csvImport) {
+    return (
+      <FieldCsvImport
+        template={csvImport.target}
+        onImport={handleCsvImport}
+        onCancel={() => setCsvImport(null)}
+      />
+    );
+  }
+
+  if (inspection) {
+    return (
+      <InspectionForm
+        key={inspection.template.id}
+        template={inspection.template}
+        onSubmit={handleSubmitInspection}
+        onCancel={() => setInspection(null)}
+      />
+    );
+  }
+
+  if (selectedTemplate) {
+    return (
+      <>
+        {outboxPanel}
+        <TemplateEditor
+          key={`${selectedTemplate.id}-${viewingPublished ? 'published' : 'draft'}`}
+          template={selectedTemplate}
+          onUpdate={handleUpdateTemplate}
+          onPatch={handlePatchTemplate}
+          onPublish={handlePublishTemplate}
+          onArchive={handleArchiveTemplate}
+          onBack={handleBackToList}
+          readOnly={viewingPublished}
+          permissions={permissions}
+          onImportCsv={() => setCsvImport({ target: selectedTemplate })}
+          inheritance={inheritance}
+          baseUpdate={baseUpdate}
+          onRebase={handleRebaseTemplate}
+          library={library}
+        />
+      </>
+    );
+  }
+
+  // Refreshing the list never takes down an open editor, form or import
   if (isLoading) {
     return <div className="loading">Loading...</div>;
   }
@@ -71,20 +313,22 @@ export const TemplateManager: React.FC = () => {
     );
   }
 
-  if (selectedTemplate) {
-    return (
-      <TemplateEditor
-        template={selectedTemplate}
-        onUpdate={handleUpdateTemplate}
-        onBack={handleBackToList}
-      />
-    );
-  }
-
   return (
-    <TemplateList
-      templates={templates}
-      onSelectTemplate={handleSelectTemplate}
-    />
+    <>
+      {outboxPanel}
+      {notice && <div className="message success">{notice}</div>}
+      <TemplateList
+        templates={templates}
+        syncStatus={syncStatus}
+        onSelectTemplate={handleSelectTemplate}
+        onOpenPublished={handleOpenPublished}
+        onStartInspection={handleStartInspection}
+        permissions={permissions}
+        onImportCsv={() => setCsvImport({})}
+        filter={filter}
+        onFilterChange={setFilter}
+        total={total}
+      />
+    </>
   );
 };
\ No newline at end of file
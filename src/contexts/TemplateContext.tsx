@@ -1,5 +1,13 @@
-import React, { createContext, useContext, useState, useCallback, ReactNode } from 'react';
-import { Template, TemplateUpdate, UpdateResult } from '../types';
+import React, { createContext, useContext, useState, useCallback, useEffect, ReactNode } from 'react';
+import {
+  Template,
+  TemplateUpdate,
+  UpdateResult,
+  SupabaseClient,
+  RealtimeChangePayload,
+  ServiceContext
+} from '../types';
+import { TemplateService } from '../services/TemplateService';
 
 interface TemplateContextType {
   templates: Template[];
@@ -19,48 +27,131 @@ export const useTemplateContext = () => {
   return context;
 };
 
+/**
+ * Fold a realtime change into the current template list
+ */
+export function applyTemplateChange(templates: Template[], payload: RealtimeChangePayload<Template>): Template[] {
+  switch (payload.eventType) {
+    case 'INSERT':
+    case 'UPDATE': {
+      const row = payload.new!;
+      const index = templates.findIndex(t => t.id === row.id);
+      if (index === -1) {
+        return [...templates, row];
+      }
+      const next = [...templates];
+      next[index] = row;
+      return next;
+    }
+    case 'DELETE':
+      return templates.filter(t => t.id !== payload.old?.id);
+  }
+}
+
+/**
+ * Realtime changes carry the stored row, which for inheriting and
+ * library-linked templates holds references rather than content. Swap in the
+ * template as the service resolves it; null if it can no longer be read, in
+ * which case a later change (such as its deletion) will tell.
+ */
+export async function resolveTemplateChange(
+  service: Pick<TemplateService, 'getTemplate'>,
+  payload: RealtimeChangePayload<Template>
+): Promise<RealtimeChangePayload<Template> | null> {
+  if (payload.eventType === 'DELETE' || !payload.new) {
+    return payload;
+  }
+  const resolved = await service.getTemplate(payload.new.id, { bypassCache: true });
+  return resolved ? { ...payload, new: resolved } : null;
+}
+
+/**
+ * Resolve each realtime change as it arrives and hand it on, dropping any
+ * that finish after a later change to the same template was handed on
+ */
+export function createTemplateChangeResolver(
+  service: Pick<TemplateService, 'getTemplate'>,
+  onChange: (change: RealtimeChangePayload<Template>) => void,
+  onError: (error: unknown) => void
+): (payload: RealtimeChangePayload<Template>) => void {
+  let sequence = 0;
+  const applied = new Map<string, number>();
+
+  return payload => {
+    const id = (payload.new || payload.old)?.id;
+    const received = ++sequence;
+    resolveTemplateChange(service, payload)
+      .then(change => {
+        if (!change || !id || (applied.get(id) || 0) > received) return;
+        applied.set(id, received);
+        onChange(change);
+      })
+      .catch(onError);
+  };
+}
+
 interface TemplateProviderProps {
   children: ReactNode;
+  supabaseClient?: SupabaseClient;
+  /** The signed-in organization and user; templates are scoped to them */
+  serviceContext?: ServiceContext;
 }
 
-export const TemplateProvider: React.FC<TemplateProviderProps> = ({ children }) => {
+export const TemplateProvider: React.FC<TemplateProviderProps> = ({ children, supabaseClient, serviceContext }) => {
   const [templates, setTemplates] = useState<Template[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [templateService] = useState(() => new TemplateService(supabaseClient, { context: serviceContext }));
 
   const refreshTemplates = useCallback(async () => {
     setLoading(true);
     setError(null);
     try {
-      // This would normally fetch from the API
-      // For now, using mock data
-      setTemplates([]);
+      setTemplates((await templateService.getTemplates()).templates);
     } catch (err) {
       setError('Failed to fetch templates');
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [templateService]);
+
+  useEffect(() => {
+    refreshTemplates();
+  }, [refreshTemplates]);
+
+  // Keep the list live with edits made elsewhere, including background jobs
+  useEffect(() => {
+    if (!supabaseClient) return;
+
+    const resolveChange = createTemplateChangeResolver(
+      templateService,
+      change => setTemplates(current => applyTemplateChange(current, change)),
+      () => setError('Failed to load a template change')
+    );
+    const channel = supabaseClient
+      .channel('template_library_changes')
+      .on('*', { table: 'template_library' }, payload => {
+        templateService.handleRealtimeChange(payload);
+        resolveChange(payload);
+      })
+      .subscribe();
+
+    return () => channel.unsubscribe();
+  }, [supabaseClient, templateService]);
 
   const updateTemplate = useCallback(async (
     templateId: string,
     updates: Partial<TemplateUpdate>
   ): Promise<UpdateResult> => {
     try {
-      // This would normally call the API
-      // For now, returning a mock result
-      return {
-        success: true,
-        data: undefined,
-        newVersion: '1.0.1'
-      };
+      return await templateService.updateTemplate(templateId, updates);
     } catch (err) {
       return {
         success: false,
         error: err instanceof Error ? err : new Error('Update failed')
       };
     }
-  }, []);
+  }, [templateService]);
 
   const value: TemplateContextType = {
     templates,
@@ -75,4 +166,4 @@ export const TemplateProvider: React.FC<TemplateProviderProps> = ({ children })
       {children}
     </TemplateContext.Provider>
   );
-};
\ No newline at end of file
+};
@@ -19,8 +19,15 @@ import {
   TemplateUpdate,
   CacheEntry,
   UpdateResult,
-  SupabaseClient
+  SupabaseClient,
+  LeaseExpiredError,
+  NetworkError,
+  TenantIsolationError,
+  UpdateFailedError,
+  VersionConflictError
 } from './types';
+import { withLease } from './services/templateLease';
+import { preserveLiveContent } from './services/templateLifecycle';
 
 /**
  * Mock Supabase client for testing
@@ -104,50 +111,77 @@ export class TemplateService {
 }
 
 /**
- * PROBLEMATIC BACKGROUND PROCESSOR
- * This processor can overwrite user changes without checking
+ * BACKGROUND PROCESSOR
+ * Holds a lease on the template for its whole read-process-write cycle, so
+ * user saves wait for it instead of interleaving with it. Processing only
+ * annotates fields that haven't been processed yet; it is not an edit, so
+ * it leaves the version, and with it editors and history, alone.
  */
 export class TemplateFieldProcessor {
-  /**
-   * PROBLEM: This method can overwrite recent user changes
-   * No coordination with user updates
-   */
+  static readonly LEASE_HOLDER = 'template-field-processor';
+
   async processTemplateFields(templateId: string): Promise<void> {
-    const { data: template } = await supabase
-      .from('template_library')
-      .select('sections, field_definitions')
-      .eq('id', templateId)
-      .single();
+    await withLease(supabase, templateId, TemplateFieldProcessor.LEASE_HOLDER, async lease => {
+      const { data: template } = await supabase
+        .from('template_library')
+        .select('*')
+        .eq('id', templateId)
+        .single();
 
-    if (!template) return;
+      // Heirs store only their overrides; their fields are processed on the base
+      if (!template || template.base_template_id || this.unprocessedFields(template).length === 0) return;
 
-    // Simulate complex processing that takes time
-    const processed = await this.performComplexProcessing(template);
+      // Simulate complex processing that takes time
+      const processed = await this.performComplexProcessing(template);
 
-    // Problem 5: Overwrites user changes without version check
-    await supabase
-      .from('template_library')
-      .update({
-        field_definitions: processed.field_definitions,
-        processed_at: new Date().toISOString()
-      })
-      .eq('id', templateId);
+      // The fencing token gets this write rejected if our lease has lapsed,
+      // the version guard if the template changed without taking the lease
+      const { error } = await supabase
+        .from('template_library')
+        .update({
+          ...preserveLiveContent(template),
+          field_definitions: processed.field_definitions,
+          processed_at: new Date().toISOString(),
+          fencing_token: lease.token
+        })
+        .eq('id', templateId)
+        .eq('version', template.version)
+        .single();
+
+      if (error) {
+        throw this.toWriteError(templateId, error);
+      }
+    });
   }
 
-  private async performComplexProcessing(template: any): Promise<any> {
+  private toWriteError(templateId: string, error: any): Error {
+    if (/failed to fetch|network request failed/i.test(error.message || '')) return new NetworkError(error.message);
+    if (error.code === 'LEASE_INVALID') return new LeaseExpiredError(error.message);
+    // 42501: row-level security; PGRST116: the version guard matched no rows
+    if (error.code === '42501') return new TenantIsolationError(error.message);
+    if (error.code === 'PGRST116') {
+      return new VersionConflictError(`Template ${templateId} changed while its fields were being processed`);
+    }
+    return new UpdateFailedError(error.message);
+  }
+
+  private unprocessedFields(template: Template): string[] {
+    return Object.keys(template.field_definitions || {})
+      .filter(fieldId => !(template.field_definitions[fieldId] as any).processed);
+  }
+
+  private async performComplexProcessing(template: Template): Promise<Pick<Template, 'field_definitions'>> {
     // Simulate processing delay
     await new Promise(resolve => setTimeout(resolve, 100));
 
     // Add computed fields (this would be more complex in reality)
-    const processed = { ...template };
-    if (processed.field_definitions) {
-      Object.keys(processed.field_definitions).forEach(key => {
-        processed.field_definitions[key].processed = true;
-        processed.field_definitions[key].processedAt = new Date().toISOString();
-      });
-    }
+    const processedAt = new Date().toISOString();
+    const fieldDefinitions = { ...template.field_definitions };
+    this.unprocessedFields(template).forEach(fieldId => {
+      fieldDefinitions[fieldId] = { ...fieldDefinitions[fieldId], processed: true, processedAt } as any;
+    });
 
-    return processed;
+    return { field_definitions: fieldDefinitions };
   }
 }
 
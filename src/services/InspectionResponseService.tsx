@@ -0,0 +1,470 @@
+import {
+  InspectionResponse,
+  InspectionResponseFilter,
+  InspectionAnswers,
+  MigrationIssue,
+  ResponseMigrationPlan,
+  ResponseMigrationReport,
+  Template,
+  InspectionContext,
+  ResponseSaveResult,
+  ResponseValidationError,
+  SupabaseClient,
+  QueryBuilder,
+  ServiceContext,
+  VersionConflictError,
+  UpdateFailedError,
+  NetworkError,
+  TenantIsolationError
+} from '../types';
+import { TemplateService } from './TemplateService';
+import { resolveEffectiveTemplate } from './variants';
+import { validateResponse } from './validation';
+import { getPublishedTemplate, isAvailableForInspections } from './templateLifecycle';
+import { compareVersions } from './versionBump';
+import { inferFieldMappings, migrateAnswers, findMissingRequired } from './responseMigration';
+
+const RESPONSES_TABLE = 'inspection_responses';
+const MIGRATIONS_TABLE = 'response_migrations';
+
+export interface StartResponseOptions {
+  answers?: InspectionAnswers;
+  context?: InspectionContext;
+  inspector?: string;
+}
+
+export interface InspectionResponseServiceOptions {
+  /** Bind every call to one organization and user, as for TemplateService */
+  context?: ServiceContext;
+}
+
+export interface GetResponseOptions {
+  /** Move the response onto the template's published version if that can be done cleanly */
+  upgrade?: boolean;
+}
+
+/**
+ * Stores inspection responses. Each response is pinned to the template
+ * version it was started against and is only checked against that version,
+ * however the template changes afterwards.
+ */
+export class InspectionResponseService {
+  private templateService: TemplateService;
+  private context?: ServiceContext;
+
+  constructor(
+    private supabase?: SupabaseClient,
+    templateService?: TemplateService,
+    options: InspectionResponseServiceOptions = {}
+  ) {
+    this.context = options.context;
+    this.templateService = templateService || new TemplateService(supabase, { context: options.context });
+  }
+
+  async startResponse(
+    templateId: string,
+    templateVersion: string,
+    options: StartResponseOptions = {}
+  ): Promise<ResponseSaveResult> {
+    if (!this.supabase) {
+      // Return mock result for development
+      return {
+        success: true,
+        data: this.getMockResponse(`response-${Date.now()}`, {
+          template_id: templateId,
+          template_version: templateVersion,
+          answers: options.answers || {},
+          context: options.context,
+          inspector: options.inspector
+        })
+      };
+    }
+
+    try {
+      // Responses belong to the template's organization, and only to versions it has
+      const template = await this.templateService.getTemplateAt(templateId, templateVersion);
+      if (!template) {
+        throw new UpdateFailedError(`Template ${templateId} version ${templateVersion} not found`);
+      }
+      // New inspections only run on what inspectors currently get
+      const current = await this.templateService.getTemplate(templateId, { bypassCache: true });
+      if (!current || !isAvailableForInspections(current)) {
+        throw new UpdateFailedError(`Template ${templateId} is not available for new inspections`);
+      }
+      if (getPublishedTemplate(current)!.version !== templateVersion) {
+        throw new UpdateFailedError(`Version ${templateVersion} of template ${templateId} is not the published version`);
+      }
+
+      const now = new Date().toISOString();
+      const row: Omit<InspectionResponse, 'id'> = {
+        template_id: templateId,
+        template_version: templateVersion,
+        organization_id: template.organization_id,
+        answers: options.answers || {},
+        context: options.context,
+        status: 'in_progress',
+        inspector: options.inspector,
+        version: 1,
+        created_at: now,
+        updated_at: now
+      };
+
+      const { data, error } = await this.supabase
+        .from(RESPONSES_TABLE)
+        .insert(row)
+        .single();
+
+      if (error) throw this.toSaveError(error);
+      return { success: true, data: data as InspectionResponse };
+    } catch (error) {
+      console.error('Failed to start inspection response:', error);
+      return { success: false, error: this.toError(error, 'Failed to start response') };
+    }
+  }
+
+  /**
+   * Save answers for an in-progress inspection. Only the given answers are
+   * changed; anything else already saved is kept.
+   */
+  async saveProgress(
+    responseId: string,
+    answers: InspectionAnswers,
+    expectedVersion: number
+  ): Promise<ResponseSaveResult> {
+    if (!this.supabase) {
+      return { success: true, data: this.getMockResponse(responseId, { answers, version: expectedVersion + 1 }) };
+    }
+
+    try {
+      const current = await this.fetchEditable(responseId, expectedVersion);
+      const data = await this.writeResponse(current, {
+        answers: { ...current.answers, ...answers }
+      });
+      return { success: true, data };
+    } catch (error) {
+      console.error('Failed to save inspection response:', error);
+      return { success: false, error: this.toError(error, 'Save failed') };
+    }
+  }
+
+  /**
+   * Finalise a response. Refused if the answers don't satisfy the template
+   * version the response was captured against.
+   */
+  async submitResponse(
+    responseId: string,
+    expectedVersion: number,
+    answers: InspectionAnswers = {}
+  ): Promise<ResponseSaveResult> {
+    if (!this.supabase) {
+      return {
+        success: true,
+        data: this.getMockResponse(responseId, { answers, status: 'submitted', version: expectedVersion + 1 })
+      };
+    }
+
+    try {
+      const current = await this.fetchEditable(responseId, expectedVersion);
+      const merged = { ...current.answers, ...answers };
+
+      const template = await this.templateService.getTemplateAt(current.template_id, current.template_version);
+      if (!template) {
+        throw new UpdateFailedError(
+          `Template ${current.template_id} version ${current.template_version} not found`
+        );
+      }
+
+      const effective = resolveEffectiveTemplate(template, current.context || {}).template;
+      const result = validateResponse(effective, merged);
+      if (!result.valid) {
+        throw new ResponseValidationError(
+          `Response is incomplete or invalid for template version ${current.template_version}`,
+          result.errors
+        );
+      }
+
+      const data = await this.writeResponse(current, {
+        answers: merged,
+        status: 'submitted',
+        submitted_at: new Date().toISOString()
+      });
+      return { success: true, data };
+    } catch (error) {
+      console.error('Failed to submit inspection response:', error);
+      return {
+        success: false,
+        error: this.toError(error, 'Submit failed'),
+        errors: error instanceof ResponseValidationError ? error.errors : undefined
+      };
+    }
+  }
+
+  /**
+   * Fetch a response. With `upgrade`, a response pinned to an older template
+   * version is migrated to the published version first; if that migration
+   * has issues, or nothing is published yet, the response is returned
+   * unchanged.
+   */
+  async getResponse(responseId: string, options: GetResponseOptions = {}): Promise<InspectionResponse | null> {
+    const response = await this.fetchResponse(responseId);
+    if (!response || !options.upgrade || response.status === 'submitted') {
+      return response;
+    }
+
+    const published = await this.findPublishedVersion(response.template_id);
+    if (!published || published === response.template_version) {
+      return response;
+    }
+    const report = await this.migrateResponse(responseId, published);
+    return report.migrated ? await this.fetchResponse(responseId) : response;
+  }
+
+  /**
+   * Record how answers move between two template versions, for changes
+   * mappings can't be inferred for - renamed fields, changed types or
+   * renamed select options
+   */
+  async declareMigration(plan: ResponseMigrationPlan): Promise<void> {
+    const template = await this.templateService.getTemplateAt(plan.template_id, plan.from_version);
+    if (!template) {
+      throw new UpdateFailedError(`Template ${plan.template_id} version ${plan.from_version} not found`);
+    }
+
+    const { error } = await this.supabase!
+      .from(MIGRATIONS_TABLE)
+      .insert({ ...plan, organization_id: template.organization_id, created_at: new Date().toISOString() });
+
+    if (error) {
+      throw this.toSaveError(error);
+    }
+  }
+
+  /**
+   * Move a response onto another version of its template, by default the
+   * published one. Answers are carried through every recorded version in
+   * between. The response is only saved if nothing was lost on the way;
+   * otherwise the report lists each issue and the response stays as it was.
+   */
+  async migrateResponse(responseId: string, toVersion?: string): Promise<ResponseMigrationReport> {
+    const response = await this.fetchResponse(responseId);
+    if (!response) {
+      throw new UpdateFailedError(`Inspection response ${responseId} not found`);
+    }
+
+    const targetVersion = toVersion || await this.publishedVersion(response.template_id);
+    const report: ResponseMigrationReport = {
+      responseId,
+      fromVersion: response.template_version,
+      toVersion: targetVersion,
+      answers: response.answers,
+      issues: [],
+      migrated: false
+    };
+    if (targetVersion === response.template_version) {
+      return report;
+    }
+    if (response.status === 'submitted') {
+      throw new UpdateFailedError(`Inspection response ${responseId} has already been submitted`);
+    }
+
+    const chain = await this.versionChain(response.template_id, response.template_version, targetVersion);
+    const plans = await this.fetchMigrationPlans(response.template_id);
+
+    let answers = response.answers;
+    const issues: MigrationIssue[] = [];
+    for (let i = 1; i < chain.length; i++) {
+      const from = chain[i - 1];
+      const to = chain[i];
+      const declared = plans.find(plan => plan.from_version === from.version && plan.to_version === to.version);
+      const step = migrateAnswers(answers, from, to, inferFieldMappings(from, to, declared?.mappings));
+      answers = step.answers;
+      issues.push(...step.issues);
+    }
+    issues.push(...findMissingRequired(answers, chain[chain.length - 1], response.context || {}));
+
+    report.answers = answers;
+    report.issues = issues;
+    if (issues.length > 0) {
+      return report;
+    }
+
+    await this.writeResponse(response, {
+      answers,
+      template_version: targetVersion,
+      migrated_from_version: response.migrated_from_version || response.template_version
+    });
+    report.migrated = true;
+    return report;
+  }
+
+  /**
+   * Migrate every in-progress response matching `filter`. Returns a report
+   * per response, including those that couldn't be migrated cleanly.
+   */
+  async migrateResponses(
+    filter: InspectionResponseFilter = {},
+    toVersion?: string
+  ): Promise<ResponseMigrationReport[]> {
+    const candidates = await this.listResponses({ ...filter, status: 'in_progress' });
+    const reports: ResponseMigrationReport[] = [];
+    for (const response of candidates) {
+      reports.push(await this.migrateResponse(response.id, toVersion));
+    }
+    return reports;
+  }
+
+  async listResponses(filter: InspectionResponseFilter = {}): Promise<InspectionResponse[]> {
+    if (!this.supabase) {
+      return [];
+    }
+
+    let query = this.scoped(this.supabase.from(RESPONSES_TABLE).select('*')).order('created_at');
+    if (filter.templateId) query = query.eq('template_id', filter.templateId);
+    if (filter.templateVersion) query = query.eq('template_version', filter.templateVersion);
+    if (filter.status) query = query.eq('status', filter.status);
+
+    const { data, error } = await query;
+    if (error) {
+      throw this.toSaveError(error);
+    }
+    return data as InspectionResponse[];
+  }
+
+  private async fetchResponse(responseId: string): Promise<InspectionResponse | null> {
+    if (!this.supabase) {
+      return null;
+    }
+
+    const { data, error } = await this.scoped(
+      this.supabase.from(RESPONSES_TABLE).select('*').eq('id', responseId)
+    ).single();
+
+    if (error) {
+      if (this.isNetworkError(error)) throw new NetworkError(error.message);
+      return null;
+    }
+    return data as InspectionResponse;
+  }
+
+  private async publishedVersion(templateId: string): Promise<string> {
+    const version = await this.findPublishedVersion(templateId);
+    if (!version) {
+      throw new UpdateFailedError(`Template ${templateId} has no published version to migrate to`);
+    }
+    return version;
+  }
+
+  private async findPublishedVersion(templateId: string): Promise<string | null> {
+    const template = await this.templateService.getTemplate(templateId, { bypassCache: true });
+    const published = template && getPublishedTemplate(template);
+    return published ? published.version : null;
+  }
+
+  /**
+   * The template at `fromVersion`, every recorded version after it up to
+   * `toVersion`, and `toVersion` itself
+   */
+  private async versionChain(templateId: string, fromVersion: string, toVersion: string): Promise<Template[]> {
+    const [from, to, history] = await Promise.all([
+      this.templateService.getTemplateAt(templateId, fromVersion),
+      this.templateService.getTemplateAt(templateId, toVersion),
+      this.templateService.getTemplateHistory(templateId)
+    ]);
+    if (!from || !to) {
+      throw new UpdateFailedError(`Template ${templateId} version ${from ? toVersion : fromVersion} not found`);
+    }
+
+    const between = history
+      .filter(entry => compareVersions(entry.version, fromVersion) > 0 && compareVersions(entry.version, toVersion) < 0)
+      .map(entry => entry.snapshot);
+    return [from, ...between, to];
+  }
+
+  private async fetchMigrationPlans(templateId: string): Promise<ResponseMigrationPlan[]> {
+    const { data, error } = await this.scoped(
+      this.supabase!.from(MIGRATIONS_TABLE).select('*').eq('template_id', templateId)
+    );
+
+    if (error) {
+      throw this.toSaveError(error);
+    }
+    return data as ResponseMigrationPlan[];
+  }
+
+  private async fetchEditable(responseId: string, expectedVersion: number): Promise<InspectionResponse> {
+    const current = await this.fetchResponse(responseId);
+    if (!current) {
+      throw new UpdateFailedError(`Inspection response ${responseId} not found`);
+    }
+    if (current.status === 'submitted') {
+      throw new UpdateFailedError(`Inspection response ${responseId} has already been submitted`);
+    }
+    if (current.version !== expectedVersion) {
+      throw new VersionConflictError(
+        `Inspection response ${responseId} changed (version ${current.version}, expected ${expectedVersion})`
+      );
+    }
+    return current;
+  }
+
+  private async writeResponse(
+    current: InspectionResponse,
+    values: Partial<InspectionResponse>
+  ): Promise<InspectionResponse> {
+    const { data, error } = await this.scoped(
+      this.supabase!
+        .from(RESPONSES_TABLE)
+        .update({
+          ...values,
+          version: current.version + 1,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', current.id)
+        .eq('version', current.version)
+    ).single();
+
+    if (error) {
+      throw this.toSaveError(error);
+    }
+    return data as InspectionResponse;
+  }
+
+  private scoped(query: QueryBuilder): QueryBuilder {
+    return this.context ? query.eq('organization_id', this.context.orgId) : query;
+  }
+
+  private toSaveError(error: any): Error {
+    if (this.isNetworkError(error)) return new NetworkError(error.message);
+    // 42501: row-level security refused a row of another organization
+    if (error.code === '42501') return new TenantIsolationError(error.message);
+    if (error.code === 'PGRST116') {
+      return new VersionConflictError('Inspection response was changed by someone else; reload and try again');
+    }
+    return new UpdateFailedError(error.message);
+  }
+
+  private isNetworkError(error: any): boolean {
+    if (!error) return false;
+    return error instanceof TypeError || /failed to fetch|network request failed/i.test(error.message || '');
+  }
+
+  private toError(error: unknown, fallback: string): Error {
+    return error instanceof Error ? error : new Error(fallback);
+  }
+
+  private getMockResponse(id: string, values: Partial<InspectionResponse>): InspectionResponse {
+    const now = new Date().toISOString();
+    return {
+      id,
+      template_id: 'template-1',
+      template_version: '1.0.0',
+      organization_id: this.context?.orgId || 'org-123',
+      answers: {},
+      status: 'in_progress',
+      version: 1,
+      created_at: now,
+      updated_at: now,
+      ...values
+    };
+  }
+}
@@ -0,0 +1,193 @@
+import { TemplateJob } from '../types';
+
+export type TemplateJobHandler = (templateId: string) => Promise<void>;
+
+export interface JobQueueOptions {
+  /** How many templates may be processed at the same time */
+  concurrency?: number;
+  /** Attempts before a job is moved to the dead-letter list */
+  maxAttempts?: number;
+  /** Delay before the first retry; doubles with every further attempt */
+  backoffMs?: number;
+  maxBackoffMs?: number;
+}
+
+export interface EnqueueOptions {
+  priority?: number;
+}
+
+/**
+ * Schedules background processing of templates, e.g.
+ * `new TemplateJobQueue(id => processor.processTemplateFields(id))`.
+ *
+ * There is at most one waiting job per template: enqueueing a template that
+ * is already waiting only raises the job's priority, since a single run picks
+ * up every edit made before it starts. A template is never handed to the
+ * handler twice at once; a job enqueued while the template is running waits
+ * for that run to finish. Failed jobs are retried with exponential backoff
+ * and, after `maxAttempts`, kept on a dead-letter list until replayed or
+ * discarded.
+ */
+export class TemplateJobQueue {
+  private waiting = new Map<string, TemplateJob>();
+  private running = new Map<string, TemplateJob>();
+  private deadLetters: TemplateJob[] = [];
+  private idleWaiters: Array<() => void> = [];
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private nextJobId = 1;
+
+  private concurrency: number;
+  private maxAttempts: number;
+  private backoffMs: number;
+  private maxBackoffMs: number;
+
+  constructor(private handler: TemplateJobHandler, options: JobQueueOptions = {}) {
+    this.concurrency = options.concurrency || 2;
+    this.maxAttempts = options.maxAttempts || 3;
+    this.backoffMs = options.backoffMs ?? 1000;
+    this.maxBackoffMs = options.maxBackoffMs ?? 60000;
+  }
+
+  enqueue(templateId: string, options: EnqueueOptions = {}): TemplateJob {
+    const priority = options.priority || 0;
+    const existing = this.waiting.get(templateId);
+
+    if (existing) {
+      existing.priority = Math.max(existing.priority, priority);
+    } else {
+      this.waiting.set(templateId, {
+        id: `job-${this.nextJobId++}`,
+        templateId,
+        priority,
+        status: 'queued',
+        attempts: 0,
+        enqueuedAt: new Date().toISOString(),
+        runAt: Date.now()
+      });
+    }
+
+    this.pump();
+    return { ...this.waiting.get(templateId) || this.running.get(templateId)! };
+  }
+
+  /**
+   * Running jobs followed by waiting ones, in the order they will start
+   */
+  getJobs(): TemplateJob[] {
+    return [
+      ...Array.from(this.running.values()),
+      ...Array.from(this.waiting.values()).sort(byPrecedence)
+    ].map(job => ({ ...job }));
+  }
+
+  getDeadLetters(): TemplateJob[] {
+    return this.deadLetters.map(job => ({ ...job }));
+  }
+
+  /**
+   * Put a dead job back on the queue with a fresh set of attempts
+   */
+  replayDeadLetter(jobId: string): TemplateJob | null {
+    const job = this.deadLetters.find(j => j.id === jobId);
+    if (!job) return null;
+
+    this.deadLetters = this.deadLetters.filter(j => j.id !== jobId);
+    return this.enqueue(job.templateId, { priority: job.priority });
+  }
+
+  discardDeadLetter(jobId: string): void {
+    this.deadLetters = this.deadLetters.filter(job => job.id !== jobId);
+  }
+
+  /**
+   * Resolves once nothing is running or waiting, including pending retries
+   */
+  onIdle(): Promise<void> {
+    if (this.isIdle()) return Promise.resolve();
+    return new Promise(resolve => this.idleWaiters.push(resolve));
+  }
+
+  private pump(): void {
+    while (this.running.size < this.concurrency) {
+      const next = this.nextReadyJob();
+      if (!next) break;
+      this.start(next);
+    }
+
+    this.scheduleRetry();
+
+    if (this.isIdle()) {
+      const waiters = this.idleWaiters;
+      this.idleWaiters = [];
+      waiters.forEach(resolve => resolve());
+    }
+  }
+
+  private nextReadyJob(): TemplateJob | undefined {
+    const now = Date.now();
+    return Array.from(this.waiting.values())
+      .filter(job => job.runAt <= now && !this.running.has(job.templateId))
+      .sort(byPrecedence)[0];
+  }
+
+  private start(job: TemplateJob): void {
+    this.waiting.delete(job.templateId);
+    this.running.set(job.templateId, job);
+    job.status = 'running';
+    job.attempts++;
+
+    this.handler(job.templateId)
+      .then(
+        () => this.running.delete(job.templateId),
+        error => {
+          this.running.delete(job.templateId);
+          this.fail(job, error);
+        }
+      )
+      .finally(() => this.pump());
+  }
+
+  private fail(job: TemplateJob, error: unknown): void {
+    job.lastError = error instanceof Error ? error.message : String(error);
+
+    if (job.attempts >= this.maxAttempts) {
+      job.status = 'dead';
+      this.deadLetters.push(job);
+      return;
+    }
+
+    // A job enqueued during the failed run is covered by the retry
+    const newer = this.waiting.get(job.templateId);
+    if (newer) {
+      job.priority = Math.max(job.priority, newer.priority);
+    }
+
+    job.status = 'retrying';
+    job.runAt = Date.now() + Math.min(this.maxBackoffMs, this.backoffMs * 2 ** (job.attempts - 1));
+    this.waiting.set(job.templateId, job);
+  }
+
+  private scheduleRetry(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+
+    const delayed = Array.from(this.waiting.values()).filter(job => job.runAt > Date.now());
+    if (delayed.length === 0) return;
+
+    const nextRunAt = Math.min(...delayed.map(job => job.runAt));
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.pump();
+    }, nextRunAt - Date.now());
+  }
+
+  private isIdle(): boolean {
+    return this.waiting.size === 0 && this.running.size === 0;
+  }
+}
+
+function byPrecedence(a: TemplateJob, b: TemplateJob): number {
+  return b.priority - a.priority || a.runAt - b.runAt || a.enqueuedAt.localeCompare(b.enqueuedAt);
+}
@@ -0,0 +1,237 @@
+import {
+  Template,
+  TemplateUpdate,
+  UpdateResult,
+  JsonPatchOperation,
+  OutboxEntry,
+  OutboxStatus,
+  StorageAdapter,
+  NetworkError,
+  MergeConflictError,
+  UpdateFailedError
+} from '../types';
+import { TemplateService } from './TemplateService';
+
+const STORAGE_KEY = 'template-outbox';
+const offlineError = () => new NetworkError('Saved offline; will sync when the connection returns');
+
+/**
+ * In-memory storage used when localStorage isn't available (tests, SSR)
+ */
+export class MemoryStorage implements StorageAdapter {
+  private items = new Map<string, string>();
+
+  getItem(key: string): string | null {
+    return this.items.has(key) ? this.items.get(key)! : null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+}
+
+type OutboxListener = (entries: OutboxEntry[]) => void;
+
+/**
+ * Durable queue of template edits that couldn't reach the server.
+ *
+ * Edits that fail with a NetworkError are persisted instead of being reported
+ * as failures, then replayed in the order they were made once the connection
+ * returns. Replay goes through the normal service calls, so each edit is
+ * rebased on the latest version by the same merge logic as a live save.
+ * An edit that conflicts or fails holds back every later edit to the same
+ * template until it is discarded.
+ */
+export class TemplateOutbox {
+  private entries: OutboxEntry[];
+  private listeners = new Set<OutboxListener>();
+  private replaying: Promise<void> | null = null;
+
+  constructor(
+    private service: TemplateService,
+    private storage: StorageAdapter = defaultStorage()
+  ) {
+    this.entries = this.load();
+  }
+
+  async updateTemplate(
+    templateId: string,
+    updates: Partial<TemplateUpdate>,
+    base?: Template
+  ): Promise<UpdateResult> {
+    // Later edits must not overtake ones still waiting in the queue
+    if (this.hasQueued(templateId)) {
+      return this.enqueue({ templateId, kind: 'update', updates, base }, this.heldError(templateId));
+    }
+
+    const result = await this.service.updateTemplate(templateId, updates, base);
+    if (result.error instanceof NetworkError) {
+      return this.enqueue({ templateId, kind: 'update', updates, base }, offlineError());
+    }
+    return result;
+  }
+
+  async patchTemplate(
+    templateId: string,
+    operations: JsonPatchOperation[],
+    baseVersion: string
+  ): Promise<UpdateResult> {
+    if (this.hasQueued(templateId)) {
+      return this.enqueue({ templateId, kind: 'patch', operations, baseVersion }, this.heldError(templateId));
+    }
+
+    const result = await this.service.patchTemplate(templateId, operations, baseVersion);
+    if (result.error instanceof NetworkError) {
+      return this.enqueue({ templateId, kind: 'patch', operations, baseVersion }, offlineError());
+    }
+    return result;
+  }
+
+  /**
+   * Replay pending edits in order. Stops at the first network failure so the
+   * remaining edits keep their order for the next attempt.
+   */
+  replay(): Promise<void> {
+    if (!this.replaying) {
+      this.replaying = this.drain().finally(() => {
+        this.replaying = null;
+      });
+    }
+    return this.replaying;
+  }
+
+  getEntries(): OutboxEntry[] {
+    return this.entries.map(entry => ({ ...entry }));
+  }
+
+  /**
+   * The most severe status among a template's queued edits, if any
+   */
+  getStatus(templateId: string): OutboxStatus | undefined {
+    const statuses = this.entries
+      .filter(entry => entry.templateId === templateId)
+      .map(entry => entry.status);
+
+    if (statuses.includes('conflict')) return 'conflict';
+    if (statuses.includes('failed')) return 'failed';
+    if (statuses.includes('pending')) return 'pending';
+    return undefined;
+  }
+
+  /**
+   * Drop an entry, e.g. once the user has resolved a conflict by hand, and
+   * replay the edits it was holding back
+   */
+  discard(entryId: string): Promise<void> {
+    this.entries = this.entries.filter(entry => entry.id !== entryId);
+    this.persist();
+
+    // A replay already under way may have passed those edits by
+    return this.replaying ? this.replaying.then(() => this.replay()) : this.replay();
+  }
+
+  subscribe(listener: OutboxListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async drain(): Promise<void> {
+    // Templates with an edit waiting to be resolved; later edits build on it
+    const held = new Set<string>();
+
+    for (const entry of [...this.entries]) {
+      if (entry.status !== 'pending') {
+        held.add(entry.templateId);
+        continue;
+      }
+      if (held.has(entry.templateId)) continue;
+      entry.attempts++;
+
+      const result = entry.kind === 'patch'
+        ? await this.service.patchTemplate(entry.templateId, entry.operations!, entry.baseVersion!)
+        : await this.service.updateTemplate(entry.templateId, entry.updates!, entry.base);
+
+      if (result.success) {
+        this.entries = this.entries.filter(e => e.id !== entry.id);
+      } else if (result.error instanceof NetworkError) {
+        this.persist();
+        return;
+      } else if (result.error instanceof MergeConflictError) {
+        entry.status = 'conflict';
+        entry.error = result.error.message;
+        entry.conflicts = result.conflicts;
+        held.add(entry.templateId);
+      } else {
+        entry.status = 'failed';
+        entry.error = result.error?.message || 'Update failed';
+        held.add(entry.templateId);
+      }
+
+      this.persist();
+    }
+  }
+
+  private enqueue(entry: Omit<OutboxEntry, 'id' | 'queuedAt' | 'attempts' | 'status'>, error: Error): UpdateResult {
+    this.entries.push({
+      ...entry,
+      id: `outbox-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      queuedAt: new Date().toISOString(),
+      attempts: 0,
+      status: 'pending'
+    });
+    this.persist();
+
+    return { success: false, queued: true, error };
+  }
+
+  /**
+   * Why an edit made while others to the same template are queued has to wait
+   */
+  private heldError(templateId: string): Error {
+    const status = this.getStatus(templateId);
+    if (status === 'conflict' || status === 'failed') {
+      return new UpdateFailedError(
+        `Waiting on an earlier edit to this template that ${status === 'conflict' ? 'conflicts' : 'failed'}; ` +
+        'it will sync once that edit is resolved'
+      );
+    }
+    return new NetworkError('Waiting on earlier edits to this template that have not synced yet');
+  }
+
+  private hasQueued(templateId: string): boolean {
+    return this.entries.some(entry => entry.templateId === templateId);
+  }
+
+  private load(): OutboxEntry[] {
+    try {
+      const raw = this.storage.getItem(STORAGE_KEY);
+      return raw ? JSON.parse(raw) : [];
+    } catch (error) {
+      console.error('Failed to read template outbox:', error);
+      return [];
+    }
+  }
+
+  private persist(): void {
+    if (this.entries.length === 0) {
+      this.storage.removeItem(STORAGE_KEY);
+    } else {
+      this.storage.setItem(STORAGE_KEY, JSON.stringify(this.entries));
+    }
+
+    const snapshot = this.getEntries();
+    this.listeners.forEach(listener => listener(snapshot));
+  }
+}
+
+function defaultStorage(): StorageAdapter {
+  return typeof window !== 'undefined' && window.localStorage
+    ? window.localStorage
+    : new MemoryStorage();
+}
@@ -1,43 +1,250 @@
 import {
   Template,
   TemplateUpdate,
-  CacheEntry,
+  TemplateHistoryEntry,
+  CacheStats,
+  RealtimeChangePayload,
   UpdateResult,
   SupabaseClient,
   VersionConflictError,
-  UpdateFailedError
+  MergeConflictError,
+  MergeConflict,
+  JsonPatchOperation,
+  JsonPatchError,
+  UpdateFailedError,
+  NetworkError,
+  FieldDefinition,
+  TemplateValidationError,
+  TemplateLease,
+  LeaseExpiredError,
+  VersionBump,
+  VersionChange,
+  TemplateFilter,
+  TemplateSort,
+  TemplateState,
+  TemplatePage,
+  ServiceContext,
+  TenantIsolationError,
+  QueryBuilder,
+  Role,
+  TemplateAction,
+  TemplatePermissions,
+  PermissionDeniedError,
+  TemplateExportEnvelope,
+  TemplateImportReport,
+  InheritanceStatus,
+  BaseUpdateNotice,
+  LibraryItem,
+  LibraryLink,
+  LibraryUpgrade
 } from '../types';
+import { mergeTemplateUpdate } from './templateMerge';
+import { applyPatch, validatePatch, getPointerValue, diffTemplate } from './jsonPatch';
+import { validateTemplateDefinition } from './validation';
+import { withLease, LeaseOptions } from './templateLease';
+import { VersionedCache, CacheOptions } from './VersionedCache';
+import { classifyTemplateChange, bumpVersion, compareVersions } from './versionBump';
+import { getPublishedTemplate, toPublishedSnapshot, preserveLiveContent } from './templateLifecycle';
+import { can, permissionsFor, fetchMemberRole, ALL_PERMISSIONS } from './permissions';
+import { exportTemplate, parseTemplateExport, templateChecksum } from './templateTransfer';
+import { resolveInheritedTemplate, extractOverrides, describeInheritance, findStaleOverrides } from './templateInheritance';
+import { searchTemplates, pageStart, updatedAfterTime } from './templateSearch';
+import { TemplateJobQueue } from './TemplateJobQueue';
+import {
+  LIBRARY_TABLE,
+  libraryRowId,
+  collectLibraryLinks,
+  hasLibraryLinks,
+  resolveLibraryReferences,
+  toStoredLibraryContent,
+  findLibraryUpgrades
+} from './fieldLibrary';
+
+const MAX_MERGE_ATTEMPTS = 3;
+const MAX_IMPORT_ID_ATTEMPTS = 20;
+const HISTORY_TABLE = 'template_history';
+
+export interface TemplateServiceOptions {
+  /** Identifies this service instance as a lease holder */
+  holder?: string;
+  lease?: LeaseOptions;
+  cache?: CacheOptions;
+  /** Bind every call to one organization and user, and to the user's role there */
+  context?: ServiceContext;
+  /** Background processing to schedule for every template whose content is saved */
+  jobs?: Pick<TemplateJobQueue, 'enqueue'>;
+}
+
+export interface GetTemplateOptions {
+  /** Confirm a cached copy is current with a version-only select */
+  verifyVersion?: boolean;
+  /** Read the row even if a cached copy exists, e.g. for lifecycle state */
+  bypassCache?: boolean;
+}
+
+export interface WriteOptions {
+  /**
+   * Who makes the change, recorded on the row and in its history. A bound
+   * service always writes as its user.
+   */
+  author?: string;
+}
+
+export interface NewTemplateOptions {
+  /** Organization to import into when the service isn't bound to one */
+  organizationId?: string;
+  /** Create the template as an heir of this one, storing only its overrides */
+  baseTemplateId?: string;
+  /** Sections and fields to start with instead of none; not for heirs */
+  content?: Pick<Template, 'sections' | 'field_definitions'>;
+}
+
+export interface LibraryItemInput {
+  /** Omit to create a new item; give an existing id to add a version of it */
+  item_id?: string;
+  kind: LibraryItem['kind'];
+  name: string;
+  field?: LibraryItem['field'];
+  section?: LibraryItem['section'];
+}
 
 export class TemplateService {
-  private cache = new Map<string, CacheEntry>();
+  private cache: VersionedCache<Template>;
   private supabase: SupabaseClient | null = null;
+  private holder: string;
+  private leaseOptions: LeaseOptions;
+  private context?: ServiceContext;
+  private jobs?: Pick<TemplateJobQueue, 'enqueue'>;
+  private role?: Promise<Role | null>;
+  // Library item versions never change, so they can be kept for good
+  private libraryItems = new Map<string, LibraryItem>();
 
-  constructor(supabaseClient?: SupabaseClient) {
+  constructor(supabaseClient?: SupabaseClient, options: TemplateServiceOptions = {}) {
     if (supabaseClient) {
       this.supabase = supabaseClient;
     }
+    this.holder = options.holder || `template-service-${Math.random().toString(36).slice(2, 10)}`;
+    this.leaseOptions = options.lease || {};
+    this.cache = new VersionedCache<Template>(options.cache);
+    this.context = options.context;
+    this.jobs = options.jobs;
   }
 
-  async getTemplates(): Promise<Template[]> {
+  /**
+   * One page of the templates matching `filter`. The query is matched
+   * against names, section titles and field labels of the resolved
+   * templates, so inherited and library content is found too.
+   */
+  async getTemplates(filter: TemplateFilter = {}): Promise<TemplatePage> {
     if (!this.supabase) {
       // Return mock data for development
-      return this.getMockTemplates();
+      return searchTemplates(this.getMockTemplates(), filter);
+    }
+    await this.authorize('view');
+    if (this.context && filter.orgId && filter.orgId !== this.context.orgId) {
+      throw new TenantIsolationError(`Cannot list templates of ${filter.orgId} from ${this.context.orgId}`);
     }
 
     try {
-      const { data, error } = await this.supabase
-        .from('template_library')
-        .select('*');
+      // Rows from before lifecycles have no state and count as published,
+      // which a list of states can't match
+      const states = filter.state && ([] as TemplateState[]).concat(filter.state);
+      const stateInQuery = !states?.includes('published');
+      // Section titles and field labels may come from a base or the library,
+      // so a text search needs resolved templates and pages them itself
+      const pageInQuery = !!filter.pageSize && !filter.query && stateInQuery;
+
+      let query = this.scoped(
+        this.supabase.from('template_library').select('*', pageInQuery ? { count: 'exact' } : undefined)
+      );
+      if (!this.context && filter.orgId) {
+        query = query.eq('organization_id', filter.orgId);
+      }
+      if (states && stateInQuery) {
+        query = query.in('state', states);
+      }
+      const updatedAfter = updatedAfterTime(filter);
+      if (updatedAfter !== undefined) {
+        query = query.gt('updated_at', new Date(updatedAfter).toISOString());
+      }
+      query = this.orderTemplates(query, filter.sort || 'name');
+      const { page, start } = pageStart(filter.page, filter.pageSize || 0);
+      if (pageInQuery) {
+        query = query.range(start, start + filter.pageSize! - 1);
+      }
+      const { data, error, count } = await query;
 
       if (error) throw error;
-      return data as Template[];
+      const templates = await Promise.all((data as Template[]).map(row => this.resolveStored(row)));
+      return pageInQuery
+        ? { templates, total: count ?? templates.length, page, pageSize: filter.pageSize! }
+        : searchTemplates(templates, filter);
     } catch (error) {
       console.error('Failed to fetch templates:', error);
-      return this.getMockTemplates();
+      return searchTemplates(this.getMockTemplates(), filter);
+    }
+  }
+
+  /**
+   * Read one template through the cache
+   */
+  async getTemplate(templateId: string, options: GetTemplateOptions = {}): Promise<Template | null> {
+    if (!this.supabase) {
+      return this.getMockTemplate(templateId);
+    }
+
+    await this.authorize('view');
+    if (options.bypassCache) {
+      this.cache.invalidate(templateId);
+    }
+
+    try {
+      return await this.cache.read(templateId, {
+        load: () => this.fetchTemplate(templateId),
+        currentVersion: options.verifyVersion ? () => this.fetchVersion(templateId) : undefined
+      });
+    } catch (error) {
+      console.error('Failed to fetch template:', error);
+      return null;
+    }
+  }
+
+  /**
+   * What the bound user may do with templates. Unbound services may do
+   * everything.
+   */
+  async getPermissions(): Promise<TemplatePermissions> {
+    if (!this.supabase || !this.context) {
+      return ALL_PERMISSIONS;
+    }
+    return permissionsFor(await this.memberRole());
+  }
+
+  /**
+   * Feed realtime row changes in so cached templates don't outlive their version
+   */
+  handleRealtimeChange(payload: RealtimeChangePayload<Template>): void {
+    this.cache.applyChange(payload);
+  }
+
+  invalidateCache(templateId?: string): void {
+    if (templateId) {
+      this.cache.invalidate(templateId);
+    } else {
+      this.cache.clear();
     }
   }
 
-  async updateTemplate(templateId: string, updates: Partial<TemplateUpdate>): Promise<UpdateResult> {
+  getCacheStats(): CacheStats {
+    return this.cache.getStats();
+  }
+
+  async updateTemplate(
+    templateId: string,
+    updates: Partial<TemplateUpdate>,
+    base?: Template,
+    options: WriteOptions = {}
+  ): Promise<UpdateResult> {
     if (!this.supabase) {
       // Return mock result for development
       return {
@@ -48,57 +255,1299 @@ export class TemplateService {
     }
 
     try {
-      // Check cache for current version
-      const cachedEntry = this.cache.get(templateId);
-      const currentVersion = cachedEntry?.version;
+      await this.authorize('edit');
+      if (updates.field_definitions) {
+        this.assertValidDefinition(updates.field_definitions);
+      }
 
-      // Prepare update with version control
-      const updateData = {
-        ...updates,
-        updated_at: new Date().toISOString(),
-        version: currentVersion ? this.incrementVersion(currentVersion) : '1.0.0'
+      // The editor's starting point is the base for any merge we need to do
+      const cachedEntry = this.cache.peek(templateId);
+      const baseTemplate: Template | undefined = base || cachedEntry?.data;
+      let expectedVersion = updates.version || baseTemplate?.version || cachedEntry?.version;
+      let pendingUpdates = updates;
+      let currentRow = baseTemplate;
+      let merged = false;
+      const author = this.authorOf(options);
+
+      return await this.withTemplateLease(templateId, async lease => {
+        // With no version to start from, the edit applies to the row as it
+        // is now, and the write is guarded by that row's version
+        if (!expectedVersion) {
+          currentRow = await this.fetchTemplate(templateId);
+          expectedVersion = currentRow.version;
+        }
+
+        for (let attempt = 0; attempt < MAX_MERGE_ATTEMPTS; attempt++) {
+          const versionChange = currentRow
+            ? classifyTemplateChange(currentRow, { ...currentRow, ...pendingUpdates } as Template)
+            : undefined;
+          const { data, error } = await this.writeTemplate(
+            templateId,
+            {
+              ...(await this.toStoredUpdate(currentRow, pendingUpdates)),
+              ...preserveLiveContent(currentRow),
+              ...this.attribution(author)
+            },
+            expectedVersion,
+            lease.token,
+            versionChange?.bump
+          );
+
+          if (!error) {
+            // Update cache only after successful database update
+            const saved = await this.resolveStored(data);
+            this.cache.set(templateId, saved);
+            await this.recordHistory(saved, author, { update: pendingUpdates });
+            this.jobs?.enqueue(templateId);
+
+            return {
+              success: true,
+              data: saved,
+              newVersion: saved.version,
+              versionChange,
+              merged
+            };
+          }
+
+          if (this.isNetworkError(error)) {
+            throw new NetworkError(error.message);
+          }
+          if (error.code === 'LEASE_INVALID') {
+            throw new LeaseExpiredError(error.message);
+          }
+          if (this.isTenantViolation(error)) {
+            throw new TenantIsolationError(error.message);
+          }
+          if (!this.isVersionConflict(error)) {
+            throw new UpdateFailedError(error.message);
+          }
+
+          // Someone else saved first: merge our edit onto their row and retry
+          this.cache.invalidate(templateId);
+          if (!baseTemplate) {
+            throw new VersionConflictError('Template version conflict detected');
+          }
+          const current = await this.fetchTemplate(templateId);
+
+          const outcome = mergeTemplateUpdate(baseTemplate, updates, current);
+          if (outcome.conflicts.length > 0) {
+            throw new MergeConflictError(
+              `Conflicting edits to ${outcome.conflicts.map(c => c.path).join(', ')}`,
+              outcome.conflicts
+            );
+          }
+
+          pendingUpdates = outcome.merged;
+          expectedVersion = current.version;
+          currentRow = current;
+          merged = true;
+        }
+
+        throw new VersionConflictError('Template version conflict detected');
+      });
+    } catch (error) {
+      console.error('Template update failed:', error);
+      return {
+        success: false,
+        error: this.toError(error, 'Update failed'),
+        conflicts: error instanceof MergeConflictError ? error.conflicts : undefined
       };
+    }
+  }
 
-      // Attempt database update with optimistic locking
-      const { data, error } = await this.supabase
-        .from('template_library')
-        .update(updateData)
-        .eq('id', templateId)
-        .eq('version', currentVersion || '')
-        .single();
+  /**
+   * Apply RFC 6902 operations to the template's JSONB columns server-side.
+   *
+   * If the template moved on since `baseVersion` the same operations are
+   * replayed against the latest version; the patch's own "test" operations
+   * decide whether that is safe.
+   */
+  async patchTemplate(
+    templateId: string,
+    operations: JsonPatchOperation[],
+    baseVersion: string,
+    options: WriteOptions = {}
+  ): Promise<UpdateResult> {
+    const author = this.authorOf(options);
+    try {
+      validatePatch(operations);
 
-      if (error) {
-        if (error.message?.includes('version')) {
-          throw new VersionConflictError('Template version conflict detected');
+      await this.authorize('edit');
+      if (!this.supabase) {
+        // Apply locally against mock data for development
+        const mockTemplate = this.getMockTemplate(templateId);
+        const patched = applyPatch(mockTemplate, operations);
+        this.assertValidDefinition(patched.field_definitions);
+        const versionChange = classifyTemplateChange(mockTemplate, patched);
+        return {
+          success: true,
+          data: patched,
+          newVersion: this.incrementVersion(baseVersion, versionChange.bump),
+          versionChange
+        };
+      }
+
+      const supabase = this.supabase;
+      let expectedVersion = baseVersion;
+      let merged = false;
+
+      return await this.withTemplateLease(templateId, async lease => {
+        // The row the patch applies to, needed to classify the version bump
+        const cached = this.cache.peek(templateId);
+        let current = cached?.version === expectedVersion ? cached.data : await this.fetchTemplate(templateId);
+        if (this.storesReferences(current, operations)) {
+          return this.patchLocally(current, operations, expectedVersion, lease.token, author);
+        }
+
+        for (let attempt = 0; attempt < MAX_MERGE_ATTEMPTS; attempt++) {
+          const versionChange = this.classifyPatch(current, operations);
+          const { data, error } = await supabase.rpc('patch_template', {
+            template_id: templateId,
+            operations,
+            base_version: expectedVersion,
+            new_version: this.incrementVersion(expectedVersion, versionChange?.bump),
+            fencing_token: lease.token,
+            author: author ?? null
+          });
+
+          if (!error) {
+            this.cache.set(templateId, data);
+            await this.recordHistory(data, author, { operations });
+            this.jobs?.enqueue(templateId);
+
+            return {
+              success: true,
+              data: data as Template,
+              newVersion: data.version,
+              versionChange,
+              merged
+            };
+          }
+
+          if (error.code === 'PATCH_TEST_FAILED') {
+            current = await this.fetchTemplate(templateId);
+            const conflicts = [this.describePatchConflict(operations, error.path, current)];
+            throw new MergeConflictError(`Conflicting edits to ${error.path}`, conflicts);
+          }
+
+          if (error.code === 'PATCH_INVALID') {
+            throw new JsonPatchError(error.message, error.path);
+          }
+
+          if (error.code === 'TEMPLATE_INVALID') {
+            throw new TemplateValidationError(error.message, error.issues || []);
+          }
+
+          if (this.isNetworkError(error)) {
+            throw new NetworkError(error.message);
+          }
+          if (error.code === 'LEASE_INVALID') {
+            throw new LeaseExpiredError(error.message);
+          }
+          if (!this.isVersionConflict(error)) {
+            throw new UpdateFailedError(error.message);
+          }
+
+          current = await this.fetchTemplate(templateId);
+          expectedVersion = current.version;
+          merged = true;
         }
-        throw new UpdateFailedError(error.message);
+
+        throw new VersionConflictError('Template version conflict detected');
+      });
+    } catch (error) {
+      console.error('Template patch failed:', error);
+      return {
+        success: false,
+        error: this.toError(error, 'Patch failed'),
+        conflicts: error instanceof MergeConflictError ? error.conflicts : undefined
+      };
+    }
+  }
+
+  /**
+   * All recorded versions of a template, oldest first
+   */
+  async getTemplateHistory(templateId: string): Promise<TemplateHistoryEntry[]> {
+    if (!this.supabase) {
+      return [];
+    }
+    await this.authorize('view');
+
+    const { data, error } = await this.scoped(
+      this.supabase.from(HISTORY_TABLE).select('*').eq('template_id', templateId)
+    );
+
+    if (error) {
+      throw new UpdateFailedError(error.message);
+    }
+    return (data as TemplateHistoryEntry[]).sort((a, b) => compareVersions(a.version, b.version));
+  }
+
+  /**
+   * The template as it was saved at `version`, or null if that version was
+   * never recorded
+   */
+  async getTemplateAt(templateId: string, version: string): Promise<Template | null> {
+    if (!this.supabase) {
+      return null;
+    }
+    await this.authorize('view');
+
+    const { data, error } = await this.scoped(
+      this.supabase.from(HISTORY_TABLE).select('*').eq('template_id', templateId).eq('version', version)
+    ).single();
+
+    if (!error && data) {
+      return (data as TemplateHistoryEntry).snapshot;
+    }
+
+    // Versions saved before history was recorded only exist as the live row
+    // or as its published snapshot
+    const current = await this.fetchTemplate(templateId);
+    if (current.version === version) return current;
+    const published = getPublishedTemplate(current);
+    return published?.version === version ? published : null;
+  }
+
+  /**
+   * What changed between two recorded versions, as JSON Patch operations
+   */
+  async diffTemplateVersions(
+    templateId: string,
+    fromVersion: string,
+    toVersion: string
+  ): Promise<JsonPatchOperation[]> {
+    const [from, to] = await Promise.all([
+      this.getTemplateAt(templateId, fromVersion),
+      this.getTemplateAt(templateId, toVersion)
+    ]);
+    if (!from || !to) {
+      throw new UpdateFailedError(`Version ${!from ? fromVersion : toVersion} not found for template ${templateId}`);
+    }
+
+    return diffTemplate(from, to).filter(operation => operation.op !== 'test');
+  }
+
+  /**
+   * Restore the content of an earlier version. The revert is saved as a new
+   * version on top of the current one, so it is guarded by the usual version
+   * check and shows up in the history like any other edit.
+   */
+  async revertTemplate(templateId: string, toVersion: string, options: WriteOptions = {}): Promise<UpdateResult> {
+    if (!this.supabase) {
+      return { success: false, error: new UpdateFailedError('Version history is unavailable') };
+    }
+
+    try {
+      await this.authorize('edit');
+      const snapshot = await this.getTemplateAt(templateId, toVersion);
+      if (!snapshot) {
+        throw new UpdateFailedError(`Version ${toVersion} not found for template ${templateId}`);
       }
 
-      // Update cache only after successful database update
-      this.cache.set(templateId, {
-        data: data,
-        version: updateData.version,
-        timestamp: Date.now()
+      return await this.withTemplateLease(templateId, async lease => {
+        const current = await this.fetchTemplate(templateId);
+        const restored: Partial<TemplateUpdate> = {
+          name: snapshot.name,
+          sections: snapshot.sections,
+          field_definitions: snapshot.field_definitions,
+          inspection_variants: snapshot.inspection_variants
+        };
+
+        // An inheriting snapshot is restored with the base version it was on
+        const stored = snapshot.base_template_id && snapshot.base_template_id === current.base_template_id
+          ? {
+            name: snapshot.name,
+            inspection_variants: snapshot.inspection_variants,
+            base_version: snapshot.base_version,
+            overrides: snapshot.overrides
+          }
+          : await this.toStoredUpdate(current, restored);
+
+        const versionChange = classifyTemplateChange(current, { ...current, ...restored } as Template);
+        const author = this.authorOf(options);
+        const { data, error } = await this.writeTemplate(
+          templateId,
+          { ...stored, ...preserveLiveContent(current), ...this.attribution(author) },
+          current.version,
+          lease.token,
+          versionChange.bump
+        );
+        if (error) {
+          throw this.toWriteError(error, 'Template changed while reverting; reload and try again');
+        }
+
+        const saved = await this.resolveStored(data);
+        this.cache.set(templateId, saved);
+        await this.recordHistory(saved, author, { update: restored, reverted_to_version: toVersion });
+        this.jobs?.enqueue(templateId);
+
+        return { success: true, data: saved, newVersion: saved.version, versionChange };
       });
+    } catch (error) {
+      console.error('Template revert failed:', error);
+      return { success: false, error: this.toError(error, 'Revert failed') };
+    }
+  }
 
+  /**
+   * Promote the draft to the published version inspectors get. Publishing an
+   * archived template brings it back into use.
+   */
+  async publishTemplate(templateId: string): Promise<UpdateResult> {
+    if (!this.supabase) {
+      const template = this.getMockTemplate(templateId);
       return {
         success: true,
-        data: data as Template,
-        newVersion: updateData.version
+        data: { ...template, state: 'published', published: toPublishedSnapshot(template) },
+        newVersion: template.version
       };
+    }
+
+    try {
+      await this.authorize('publish');
+      return await this.withTemplateLease(templateId, async lease => {
+        const current = await this.fetchTemplate(templateId);
+        await this.recordOutgoingPublished(current);
+        return this.writeLifecycle(templateId, {
+          state: 'published',
+          published: toPublishedSnapshot(current),
+          archived_at: null
+        }, current.version, lease.token);
+      });
     } catch (error) {
-      console.error('Template update failed:', error);
-      return {
-        success: false,
-        error: error instanceof Error ? error : new Error('Update failed')
+      console.error('Template publish failed:', error);
+      return { success: false, error: this.toError(error, 'Publish failed') };
+    }
+  }
+
+  /**
+   * Withdraw a template from new inspections. Its draft and published
+   * content are kept.
+   */
+  async archiveTemplate(templateId: string): Promise<UpdateResult> {
+    if (!this.supabase) {
+      const template = this.getMockTemplate(templateId);
+      return { success: true, data: { ...template, state: 'archived' }, newVersion: template.version };
+    }
+
+    try {
+      await this.authorize('archive');
+      return await this.withTemplateLease(templateId, async lease => {
+        const current = await this.fetchTemplate(templateId);
+        return this.writeLifecycle(templateId, {
+          ...preserveLiveContent(current),
+          state: 'archived',
+          archived_at: new Date().toISOString()
+        }, current.version, lease.token);
+      });
+    } catch (error) {
+      console.error('Template archive failed:', error);
+      return { success: false, error: this.toError(error, 'Archive failed') };
+    }
+  }
+
+  /**
+   * Create a draft template, empty or with the given content, or one that
+   * starts out as an exact copy of a base template and only stores how it
+   * differs from it. Content is checked before anything is created.
+   */
+  async createTemplate(name: string, options: NewTemplateOptions = {}): Promise<UpdateResult> {
+    if (!this.supabase) {
+      const template = { ...this.getMockTemplate(`template-${Date.now()}`), name, sections: [], field_definitions: {} };
+      return { success: true, data: template, newVersion: template.version };
+    }
+
+    try {
+      await this.authorize('edit');
+      const organizationId = this.context?.orgId || options.organizationId;
+      if (!organizationId) {
+        throw new UpdateFailedError('No organization to create the template in');
+      }
+      if (options.content) {
+        if (options.baseTemplateId) {
+          throw new UpdateFailedError('An inheriting template starts out as a copy of its base');
+        }
+        this.assertValidDefinition(options.content.field_definitions);
+      }
+
+      const { data: rows, error } = await this.scoped(this.supabase.from('template_library').select('id'));
+      if (error) {
+        throw this.toWriteError(error, 'Could not read existing templates');
+      }
+
+      let inheritance: Partial<Template> = {};
+      if (options.baseTemplateId) {
+        const base = await this.fetchLatestBase(options.baseTemplateId, organizationId);
+        inheritance = {
+          base_template_id: base.id,
+          base_version: base.version,
+          overrides: {}
+        };
+      }
+
+      const data = await this.insertWithFreeId(`template-${Date.now()}`, {
+        name,
+        sections: options.content?.sections || [],
+        field_definitions: options.content?.field_definitions || {},
+        version: '1.0.0',
+        organization_id: organizationId,
+        state: 'draft',
+        updated_at: new Date().toISOString(),
+        ...inheritance,
+        ...this.attribution()
+      }, (rows as Pick<Template, 'id'>[]).map(row => row.id));
+
+      const saved = await this.resolveStored(data);
+      this.cache.set(saved.id, saved);
+      await this.recordHistory(saved, this.authorOf(), {});
+      this.jobs?.enqueue(saved.id);
+      return { success: true, data: saved, newVersion: saved.version };
+    } catch (error) {
+      console.error('Template creation failed:', error);
+      return { success: false, error: this.toError(error, 'Create failed') };
+    }
+  }
+
+  /**
+   * Which parts of an inheriting template come from its base and which are
+   * its own, or null if it doesn't inherit
+   */
+  async getInheritance(templateId: string): Promise<InheritanceStatus | null> {
+    if (!this.supabase) {
+      return null;
+    }
+
+    const template = await this.getTemplate(templateId);
+    if (!template?.base_template_id) {
+      return null;
+    }
+    return describeInheritance(template, await this.fetchBase(template));
+  }
+
+  /**
+   * Inheriting templates whose base has moved past the version they're on,
+   * each with what it would look like on the new version. Owners review
+   * these and adopt them with rebaseTemplate.
+   */
+  async getBaseUpdates(templateId?: string): Promise<BaseUpdateNotice[]> {
+    if (!this.supabase) {
+      return [];
+    }
+    await this.authorize('view');
+
+    let templates: Template[];
+    if (templateId) {
+      templates = [await this.fetchTemplate(templateId)];
+    } else {
+      const { data, error } = await this.scoped(this.supabase.from('template_library').select('*'));
+      if (error) {
+        throw this.toWriteError(error, 'Could not read templates');
+      }
+      templates = await Promise.all((data as Template[]).map(row => this.resolveStored(row)));
+    }
+
+    const notices = await Promise.all(
+      templates.filter(template => template.base_template_id).map(template => this.baseUpdateFor(template))
+    );
+    return notices.filter((notice): notice is BaseUpdateNotice => notice !== null);
+  }
+
+  /**
+   * Move an inheriting template onto its base's latest version. The result
+   * is saved as a new version, bumped by how much the resolved content
+   * changes.
+   */
+  async rebaseTemplate(templateId: string): Promise<UpdateResult> {
+    if (!this.supabase) {
+      return { success: false, error: new UpdateFailedError('Inheritance needs a database connection') };
+    }
+
+    try {
+      await this.authorize('edit');
+      return await this.withTemplateLease(templateId, async lease => {
+        const current = await this.fetchTemplate(templateId);
+        if (!current.base_template_id) {
+          throw new UpdateFailedError(`Template ${templateId} doesn't inherit from another template`);
+        }
+        const notice = await this.baseUpdateFor(current);
+        if (!notice) {
+          return { success: true, data: current, newVersion: current.version };
+        }
+
+        const { data, error } = await this.writeTemplate(
+          templateId,
+          { base_version: notice.toBaseVersion, ...preserveLiveContent(current), ...this.attribution() },
+          current.version,
+          lease.token,
+          notice.change.bump
+        );
+        if (error) {
+          throw this.toWriteError(error, 'Template changed while rebasing; reload and try again');
+        }
+
+        const saved = await this.resolveStored(data);
+        this.cache.set(templateId, saved);
+        await this.recordHistory(saved, this.authorOf(), {});
+        this.jobs?.enqueue(templateId);
+        return { success: true, data: saved, newVersion: saved.version, versionChange: notice.change };
+      });
+    } catch (error) {
+      console.error('Template rebase failed:', error);
+      return { success: false, error: this.toError(error, 'Rebase failed') };
+    }
+  }
+
+  /**
+   * Let templates in other organizations inherit from this one. They only
+   * ever see its published versions. Sharing doesn't change the version.
+   */
+  async shareTemplate(templateId: string, organizationIds: string[]): Promise<UpdateResult> {
+    if (!this.supabase) {
+      return { success: false, error: new UpdateFailedError('Sharing needs a database connection') };
+    }
+
+    try {
+      await this.authorize('publish');
+      return await this.withTemplateLease(templateId, async lease => {
+        const current = await this.fetchTemplate(templateId);
+        const sharedWith = Array.from(new Set(organizationIds)).filter(orgId => orgId !== current.organization_id);
+        return this.writeLifecycle(templateId, { shared_with: sharedWith }, current.version, lease.token);
+      });
+    } catch (error) {
+      console.error('Template sharing failed:', error);
+      return { success: false, error: this.toError(error, 'Sharing failed') };
+    }
+  }
+
+  /**
+   * Export a template as a versioned, checksummed envelope for moving it to
+   * another environment or organization
+   */
+  async exportTemplate(templateId: string): Promise<TemplateExportEnvelope> {
+    const template = await this.getTemplate(templateId);
+    if (!template) {
+      throw new UpdateFailedError(`Template ${templateId} not found`);
+    }
+    return exportTemplate(template);
+  }
+
+  /**
+   * Create a template from an export envelope. The template arrives as a
+   * draft; its id and name are changed if they're already taken, and an
+   * identical template imported before is skipped.
+   */
+  async importTemplate(input: unknown, options: NewTemplateOptions = {}): Promise<TemplateImportReport> {
+    const report: TemplateImportReport = { success: false, created: [], renamed: [], skipped: [] };
+    if (!this.supabase) {
+      return { ...report, error: new UpdateFailedError('Importing needs a database connection') };
+    }
+
+    try {
+      await this.authorize('edit');
+      const envelope = parseTemplateExport(input);
+      const incoming = envelope.template;
+      const organizationId = this.context?.orgId || options.organizationId;
+      if (!organizationId) {
+        throw new UpdateFailedError('No organization to import into');
+      }
+
+      const { data: rows, error } = await this.scoped(this.supabase.from('template_library').select('*'));
+      if (error) {
+        throw this.toWriteError(error, 'Could not read existing templates');
+      }
+      const existing = (rows as Template[]).filter(row => row.organization_id === organizationId);
+
+      const previous = existing.find(row => row.id === incoming.id);
+      if (previous && templateChecksum(exportTemplate(previous).template) === envelope.checksum) {
+        report.skipped.push({ kind: 'template', id: incoming.id, reason: 'An identical template already exists' });
+        return { ...report, success: true, template: previous };
+      }
+
+      const name = this.uniqueName(incoming.name, existing.map(row => row.name));
+      if (name !== incoming.name) {
+        report.renamed.push({ kind: 'name', from: incoming.name, to: name });
+      }
+
+      // Sections may only list fields the template defines
+      const sections = incoming.sections.map(section => ({
+        ...section,
+        fields: section.fields.filter(fieldId => {
+          if (incoming.field_definitions[fieldId]) return true;
+          report.skipped.push({ kind: 'field', id: fieldId, reason: `Section "${section.title}" lists an undefined field` });
+          return false;
+        })
+      }));
+
+      const row: Omit<Template, 'id'> = {
+        ...incoming,
+        name,
+        sections,
+        organization_id: organizationId,
+        state: 'draft',
+        updated_at: new Date().toISOString(),
+        ...this.attribution()
       };
+      const data = await this.insertWithFreeId(incoming.id, row, (rows as Template[]).map(r => r.id));
+      if (data.id !== incoming.id) {
+        report.renamed.push({ kind: 'template', from: incoming.id, to: data.id });
+      }
+
+      this.cache.set(data.id, data);
+      await this.recordHistory(data, this.authorOf(), {});
+      this.jobs?.enqueue(data.id);
+      report.created.push(
+        { kind: 'template', id: data.id },
+        ...Object.keys(data.field_definitions).map(id => ({ kind: 'field' as const, id }))
+      );
+      return { ...report, success: true, template: data };
+    } catch (error) {
+      console.error('Template import failed:', error);
+      return { ...report, error: this.toError(error, 'Import failed') };
+    }
+  }
+
+  /**
+   * The latest version of every item in the organization's field library
+   */
+  async getLibraryItems(): Promise<LibraryItem[]> {
+    if (!this.supabase) {
+      return [];
+    }
+    await this.authorize('view');
+
+    const latest = new Map<string, LibraryItem>();
+    (await this.fetchLibraryItems()).forEach(item => {
+      const key = libraryRowId(item.organization_id, item.item_id, 0);
+      if ((latest.get(key)?.version ?? 0) < item.version) latest.set(key, item);
+    });
+    return Array.from(latest.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Add a library item, or a new version of one. Templates keep the version
+   * they link to until they take the upgrade.
+   */
+  async saveLibraryItem(input: LibraryItemInput, options: NewTemplateOptions = {}): Promise<LibraryItem> {
+    if (!this.supabase) {
+      throw new UpdateFailedError('The field library needs a database connection');
+    }
+    await this.authorize('edit');
+
+    const organizationId = this.context?.orgId || options.organizationId;
+    if (!organizationId) {
+      throw new UpdateFailedError('No organization to save the library item in');
+    }
+    const fields = input.kind === 'field' ? [input.field] : input.section?.fields;
+    if (!fields || fields.some(field => !field) || (input.kind === 'section' && !input.section?.title)) {
+      throw new UpdateFailedError(`A ${input.kind} library item needs its ${input.kind === 'field' ? 'field definition' : 'title and fields'}`);
+    }
+    this.assertValidDefinition(Object.fromEntries(fields.map(field => [field!.id, field!])));
+
+    const itemId = input.item_id || input.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+    const versions = (await this.fetchLibraryItems())
+      .filter(item => item.organization_id === organizationId && item.item_id === itemId);
+    if (input.item_id && versions.length === 0) {
+      throw new UpdateFailedError(`Library item ${input.item_id} not found`);
+    }
+    if (versions.some(item => item.kind !== input.kind)) {
+      throw new UpdateFailedError(`Library item ${itemId} is not a ${input.kind}`);
+    }
+
+    const version = Math.max(0, ...versions.map(item => item.version)) + 1;
+    const row: LibraryItem = {
+      id: libraryRowId(organizationId, itemId, version),
+      item_id: itemId,
+      version,
+      kind: input.kind,
+      name: input.name,
+      organization_id: organizationId,
+      ...(input.kind === 'field' ? { field: input.field } : { section: input.section }),
+      created_at: new Date().toISOString(),
+      author: this.context?.userId
+    };
+
+    const { data, error } = await this.supabase.from(LIBRARY_TABLE).insert(row).single();
+    if (error) {
+      throw error.code === '23505'
+        ? new VersionConflictError(`Library item ${itemId} was saved by someone else; reload and try again`)
+        : this.toWriteError(error, 'Could not save the library item');
+    }
+    this.libraryItems.set(data.id, data);
+    return data as LibraryItem;
+  }
+
+  /**
+   * Library items with a newer version than the one a template links to,
+   * for one template or all of them. Heirs aren't offered upgrades; they
+   * follow their base.
+   */
+  async getLibraryUpgrades(templateId?: string): Promise<LibraryUpgrade[]> {
+    if (!this.supabase) {
+      return [];
+    }
+
+    const latest = await this.getLibraryItems();
+    const templates = templateId ? [await this.fetchTemplate(templateId)] : (await this.getTemplates()).templates;
+    return templates
+      .filter(template => !template.base_template_id)
+      .flatMap(template => findLibraryUpgrades(
+        template,
+        latest.filter(item => item.organization_id === template.organization_id)
+      ));
+  }
+
+  /**
+   * Insert under `preferredId`, or the first free `<id>-2`, `<id>-3`, ...
+   * Ids we can't see (another organization's) show up as unique violations.
+   */
+  private async insertWithFreeId(preferredId: string, row: Omit<Template, 'id'>, knownIds: string[]): Promise<Template> {
+    const taken = new Set(knownIds);
+    for (let attempt = 1; attempt <= MAX_IMPORT_ID_ATTEMPTS; attempt++) {
+      const id = attempt === 1 ? preferredId : `${preferredId}-${attempt}`;
+      if (taken.has(id)) continue;
+
+      const { data, error } = await this.supabase!.from('template_library').insert({ ...row, id }).single();
+      if (!error) {
+        return data as Template;
+      }
+      if (error.code !== '23505') {
+        throw this.toWriteError(error, 'Import failed');
+      }
+    }
+    throw new UpdateFailedError(`Could not find a free id for template ${preferredId}`);
+  }
+
+  private uniqueName(name: string, taken: string[]): string {
+    if (!taken.includes(name)) return name;
+    let candidate = `${name} (imported)`;
+    for (let n = 2; taken.includes(candidate); n++) {
+      candidate = `${name} (imported ${n})`;
+    }
+    return candidate;
+  }
+
+  /**
+   * Append an immutable snapshot of a just-saved version, made by `author`
+   * (unknown for unbound services that weren't told)
+   */
+  private async recordHistory(
+    template: Template,
+    author: string | undefined,
+    change: Pick<TemplateHistoryEntry, 'update' | 'operations' | 'reverted_to_version'>
+  ): Promise<void> {
+    const entry: Omit<TemplateHistoryEntry, 'id'> = {
+      template_id: template.id,
+      version: template.version,
+      author,
+      created_at: template.updated_at || new Date().toISOString(),
+      organization_id: template.organization_id,
+      ...change,
+      snapshot: template
+    };
+
+    const { error } = await this.supabase!.from(HISTORY_TABLE).insert(entry);
+    if (error) {
+      // The edit itself is saved; a missing snapshot must not undo it
+      console.error('Failed to record template history:', error);
+    }
+  }
+
+  /**
+   * Versions published before history was recorded only exist as the
+   * published snapshot; keep them reachable once a newer one replaces it
+   */
+  private async recordOutgoingPublished(current: Template): Promise<void> {
+    const outgoing = getPublishedTemplate(current);
+    if (!outgoing || outgoing.version === current.version) return;
+
+    const { count } = await this.scoped(
+      this.supabase!
+        .from(HISTORY_TABLE)
+        .select('version', { count: 'exact', head: true })
+        .eq('template_id', current.id)
+        .eq('version', outgoing.version)
+    );
+    if (!count) {
+      // Who published it wasn't recorded at the time
+      await this.recordHistory(outgoing, undefined, {});
+    }
+  }
+
+  /**
+   * Classify a patch by applying it locally; if it doesn't apply cleanly the
+   * server will reject it anyway
+   */
+  private classifyPatch(current: Template, operations: JsonPatchOperation[]): VersionChange | undefined {
+    try {
+      return classifyTemplateChange(current, applyPatch(current, operations));
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  private describePatchConflict(
+    operations: JsonPatchOperation[],
+    path: string,
+    current: Template
+  ): MergeConflict {
+    const index = operations.findIndex(op => op.op === 'test' && op.path === path);
+    const test = operations[index] as { value: any } | undefined;
+    const next = operations[index + 1];
+
+    return {
+      path,
+      base: test?.value,
+      ours: next && next.op === 'replace' && next.path === path ? next.value : undefined,
+      theirs: getPointerValue(current, path)
+    };
+  }
+
+  /**
+   * Run a write under a lease on the template so background jobs and other
+   * editors can't interleave with it
+   */
+  private withTemplateLease<T>(templateId: string, criticalSection: (lease: TemplateLease) => Promise<T>): Promise<T> {
+    return withLease(this.supabase!, templateId, this.holder, criticalSection, this.leaseOptions);
+  }
+
+  /**
+   * Change lifecycle columns without touching the draft, so the version
+   * stays the same; the guard still ensures we act on the row we read
+   */
+  private async writeLifecycle(
+    templateId: string,
+    values: Partial<Template>,
+    expectedVersion: string,
+    fencingToken: number
+  ): Promise<UpdateResult> {
+    const { data, error } = await this.scoped(
+      this.supabase!
+        .from('template_library')
+        .update({
+          ...values,
+          ...this.attribution(),
+          updated_at: new Date().toISOString(),
+          fencing_token: fencingToken
+        })
+        .eq('id', templateId)
+        .eq('version', expectedVersion)
+    ).single();
+
+    if (error) {
+      throw this.toWriteError(error, 'Template changed while updating its state; reload and try again');
+    }
+
+    const saved = await this.resolveStored(data);
+    this.cache.set(templateId, saved);
+    return { success: true, data: saved, newVersion: saved.version };
+  }
+
+  private async writeTemplate(
+    templateId: string,
+    updates: Partial<Template>,
+    expectedVersion: string,
+    fencingToken?: number,
+    bump: VersionBump = 'patch'
+  ): Promise<{ data?: any; error?: any }> {
+    const supabase = this.supabase!;
+
+    // Prepare update with version control. The organization is owned by the
+    // service and never changes through an edit; callers attribute the edit.
+    const { id, organization_id, ...values } = updates;
+    const updateData = {
+      ...values,
+      updated_at: new Date().toISOString(),
+      version: this.incrementVersion(expectedVersion, bump),
+      fencing_token: fencingToken
+    };
+
+    // Attempt database update with optimistic locking
+    return await this.scoped(
+      supabase
+        .from('template_library')
+        .update(updateData)
+        .eq('id', templateId)
+        .eq('version', expectedVersion)
+    ).single();
+  }
+
+  private async fetchTemplate(templateId: string, inheritedBy: string[] = []): Promise<Template> {
+    const { data, error } = await this.supabase!
+      .from('template_library')
+      .select('*')
+      .eq('id', templateId)
+      .single();
+
+    if (this.isNetworkError(error)) {
+      throw new NetworkError(error.message);
+    }
+    if (this.isTenantViolation(error)) {
+      throw new TenantIsolationError(error.message);
+    }
+    if (error || !data) {
+      throw new UpdateFailedError(error?.message || 'Template not found');
     }
+    return this.resolveStored(this.assertInScope(data as Template), inheritedBy);
+  }
+
+  /**
+   * Fill in what a row stores by reference: an inheriting row is resolved
+   * against the base version it is on, library links against their items.
+   * Heirs get library content through their base.
+   */
+  private async resolveStored(row: Template, inheritedBy: string[] = []): Promise<Template> {
+    if (row.base_template_id) {
+      return resolveInheritedTemplate(row, await this.fetchBase(row, inheritedBy));
+    }
+    if (hasLibraryLinks(row)) {
+      return resolveLibraryReferences(row, await this.loadLibraryItems(collectLibraryLinks(row), row.organization_id));
+    }
+    return row;
+  }
+
+  /**
+   * The base content `child` is resolved against: the version it is on, or
+   * the base's latest published version if it isn't on one yet
+   */
+  private async fetchBase(child: Template, inheritedBy: string[] = []): Promise<Template> {
+    const chain = [...inheritedBy, child.id];
+    if (chain.includes(child.base_template_id!)) {
+      throw new UpdateFailedError(`Template ${child.base_template_id} inherits from itself via ${chain.join(', ')}`);
+    }
+
+    const base = await this.fetchOwnBase(child.base_template_id!, child.organization_id, chain);
+    if (!base) {
+      return this.fetchSharedTemplate(child.base_template_id!, child.organization_id, child.base_version);
+    }
+    const latest = getPublishedTemplate(base) || base;
+    if (!child.base_version || child.base_version === latest.version) return latest;
+    if (child.base_version === base.version) return base;
+
+    const { data } = await this.scoped(
+      this.supabase!.from(HISTORY_TABLE).select('*').eq('template_id', base.id).eq('version', child.base_version)
+    ).single();
+    if (!data) {
+      throw new UpdateFailedError(`Version ${child.base_version} of base template ${base.id} not found`);
+    }
+    return (data as TemplateHistoryEntry).snapshot;
+  }
+
+  /**
+   * The latest published (or live) content of a base for heirs in `orgId`
+   */
+  private async fetchLatestBase(baseId: string, orgId: string, chain: string[] = []): Promise<Template> {
+    const base = await this.fetchOwnBase(baseId, orgId, chain);
+    return base ? getPublishedTemplate(base) || base : this.fetchSharedTemplate(baseId, orgId);
+  }
+
+  /**
+   * The base row if it belongs to `orgId`, or null if it is another
+   * organization's. Those are only read through what they share, even by
+   * service-role clients that could read the row itself.
+   */
+  private async fetchOwnBase(baseId: string, orgId: string, chain: string[]): Promise<Template | null> {
+    try {
+      const base = await this.fetchTemplate(baseId, chain);
+      return base.organization_id === orgId ? base : null;
+    } catch (error) {
+      if (error instanceof TenantIsolationError) return null;
+      throw error;
+    }
+  }
+
+  /**
+   * Another organization's template as it shares it: published content
+   * only, at `version` or its latest published version
+   */
+  private async fetchSharedTemplate(templateId: string, orgId: string, version?: string): Promise<Template> {
+    const { data, error } = await this.supabase!.rpc('get_shared_template', {
+      template_id: templateId,
+      organization_id: orgId,
+      version
+    });
+
+    if (this.isNetworkError(error)) {
+      throw new NetworkError(error.message);
+    }
+    if (this.isTenantViolation(error)) {
+      throw new TenantIsolationError(`Template ${templateId} isn't shared with ${orgId}`);
+    }
+    if (error || !data) {
+      throw new UpdateFailedError(error?.message || `Template ${templateId} not found`);
+    }
+    return data as Template;
+  }
+
+  /**
+   * Turn an edit of the resolved sections and fields into what is stored:
+   * overrides of the base for inheriting templates, bare links for content
+   * from the field library
+   */
+  private async toStoredUpdate(current: Template | undefined, updates: Partial<TemplateUpdate>): Promise<Partial<Template>> {
+    if (!updates.sections && !updates.field_definitions) {
+      return updates;
+    }
+    if (!current?.base_template_id) {
+      return this.toStoredLibraryUpdate(current, updates);
+    }
+
+    const { sections, field_definitions, ...rest } = updates;
+    const { overrides, issues } = extractOverrides(await this.fetchBase(current), {
+      sections: sections || current.sections,
+      field_definitions: field_definitions || current.field_definitions
+    });
+    if (issues.length > 0) {
+      throw new TemplateValidationError(`Can't override the base that way: ${issues.map(i => i.message).join('; ')}`, issues);
+    }
+    return { ...rest, overrides };
+  }
+
+  private async toStoredLibraryUpdate(current: Template | undefined, updates: Partial<TemplateUpdate>): Promise<Partial<Template>> {
+    const content = {
+      sections: updates.sections || current?.sections,
+      field_definitions: updates.field_definitions || current?.field_definitions
+    };
+    if (!content.sections || !content.field_definitions || !hasLibraryLinks(content as Template)) {
+      return updates;
+    }
+
+    const organizationId = current?.organization_id || this.context?.orgId;
+    const items = organizationId ? await this.loadLibraryItems(collectLibraryLinks(content as Template), organizationId) : [];
+    return { ...updates, ...toStoredLibraryContent(content as Template, items) };
+  }
+
+  /**
+   * Versions of `organizationId`'s library items for `links`, fetched once
+   * per service. Links to items it doesn't have (e.g. on imported templates)
+   * are left out, and their content stays as it was copied.
+   */
+  private async loadLibraryItems(links: LibraryLink[], organizationId: string): Promise<LibraryItem[]> {
+    const ids = links.map(link => libraryRowId(organizationId, link.item_id, link.version));
+    if (ids.some(id => !this.libraryItems.has(id))) {
+      await this.fetchLibraryItems();
+    }
+    return ids
+      .filter((id, index) => ids.indexOf(id) === index && this.libraryItems.has(id))
+      .map(id => this.libraryItems.get(id)!);
+  }
+
+  private async fetchLibraryItems(): Promise<LibraryItem[]> {
+    const { data, error } = await this.scoped(this.supabase!.from(LIBRARY_TABLE).select('*'));
+    if (error) {
+      throw this.toWriteError(error, 'Could not read the field library');
+    }
+    (data as LibraryItem[]).forEach(item => this.libraryItems.set(item.id, item));
+    return data as LibraryItem[];
+  }
+
+  /**
+   * Whether the row stores overrides or library links rather than the
+   * content a patch addresses
+   */
+  private storesReferences(current: Template, operations: JsonPatchOperation[]): boolean {
+    if (current.base_template_id || hasLibraryLinks(current)) return true;
+    try {
+      return hasLibraryLinks(applyPatch(current, operations));
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * The patch RPC edits the stored columns, which hold references for
+   * inheriting and library-linked templates; apply the patch here instead
+   * and store the result the way toStoredUpdate does
+   */
+  private async patchLocally(
+    current: Template,
+    operations: JsonPatchOperation[],
+    expectedVersion: string,
+    fencingToken: number,
+    author: string | undefined
+  ): Promise<UpdateResult> {
+    const patched = applyPatch(current, operations);
+    this.assertValidDefinition(patched.field_definitions);
+    const updates: Partial<TemplateUpdate> = {
+      name: patched.name,
+      sections: patched.sections,
+      field_definitions: patched.field_definitions,
+      inspection_variants: patched.inspection_variants
+    };
+
+    const versionChange = classifyTemplateChange(current, patched);
+    const { data, error } = await this.writeTemplate(
+      current.id,
+      { ...(await this.toStoredUpdate(current, updates)), ...preserveLiveContent(current), ...this.attribution(author) },
+      expectedVersion,
+      fencingToken,
+      versionChange.bump
+    );
+    if (error) {
+      throw this.toWriteError(error, 'Template version conflict detected');
+    }
+
+    const saved = await this.resolveStored(data);
+    this.cache.set(current.id, saved);
+    await this.recordHistory(saved, author, { operations });
+    this.jobs?.enqueue(current.id);
+    return { success: true, data: saved, newVersion: saved.version, versionChange };
+  }
+
+  /**
+   * What a template would become on its base's latest version, or null if
+   * it is already on it
+   */
+  private async baseUpdateFor(template: Template): Promise<BaseUpdateNotice | null> {
+    const latest = await this.fetchLatestBase(template.base_template_id!, template.organization_id, [template.id]);
+    if (latest.version === template.base_version) return null;
+
+    const merged = resolveInheritedTemplate({ ...template, base_version: latest.version }, latest);
+    return {
+      templateId: template.id,
+      templateName: template.name,
+      owner: template.last_user_update ?? undefined,
+      baseTemplateId: latest.id,
+      fromBaseVersion: template.base_version,
+      toBaseVersion: latest.version,
+      merged,
+      change: classifyTemplateChange(template, merged),
+      issues: findStaleOverrides(template.overrides, latest)
+    };
+  }
+
+  private async fetchVersion(templateId: string): Promise<string | undefined> {
+    const { data, error } = await this.supabase!
+      .from('template_library')
+      .select('version')
+      .eq('id', templateId)
+      .single();
+
+    if (this.isNetworkError(error)) {
+      throw new NetworkError(error.message);
+    }
+    if (this.isTenantViolation(error)) {
+      throw new TenantIsolationError(error.message);
+    }
+    return error ? undefined : data?.version;
+  }
+
+  /**
+   * Sort the way compareTemplates does: ties broken by name, then id
+   */
+  private orderTemplates(query: QueryBuilder, sort: TemplateSort): QueryBuilder {
+    const ascending = !sort.startsWith('-');
+    const key = sort.replace(/^-/, '');
+    if (key === 'update_count') {
+      // A template never updated has no count, which sorts as zero
+      query = query.order(key, { ascending, nullsFirst: ascending });
+    } else if (key !== 'name') {
+      query = query.order(key, { ascending });
+    }
+    const byName = key !== 'name' || ascending;
+    return query.order('name', { ascending: byName }).order('id', { ascending: byName });
+  }
+
+  /**
+   * Confine a query to the context's organization. Row-level security does
+   * the same server-side; this keeps a service-role client honest too.
+   */
+  private scoped(query: QueryBuilder): QueryBuilder {
+    return this.context ? query.eq('organization_id', this.context.orgId) : query;
+  }
+
+  private assertInScope(template: Template): Template {
+    if (this.context && template.organization_id !== this.context.orgId) {
+      throw new TenantIsolationError(
+        `Template ${template.id} belongs to another organization than ${this.context.orgId}`
+      );
+    }
+    return template;
+  }
+
+  /**
+   * Refuse `action` unless the bound user's role allows it
+   */
+  private async authorize(action: TemplateAction): Promise<void> {
+    if (!this.supabase || !this.context) return;
+
+    const role = await this.memberRole();
+    if (!can(role, action)) {
+      throw new PermissionDeniedError(
+        `${this.context.userId} (${role || 'not a member'}) may not ${action} templates in ${this.context.orgId}`,
+        action
+      );
+    }
+  }
+
+  /**
+   * Looked up once per service; a failed lookup is retried next time
+   */
+  private memberRole(): Promise<Role | null> {
+    if (!this.role) {
+      this.role = fetchMemberRole(this.supabase!, this.context!).catch(error => {
+        this.role = undefined;
+        throw this.isNetworkError(error) ? new NetworkError(error.message) : new UpdateFailedError(error.message);
+      });
+    }
+    return this.role;
+  }
+
+  private authorOf(options: WriteOptions = {}): string | undefined {
+    return this.context?.userId ?? options.author;
+  }
+
+  /**
+   * Stamp a write with its author. An unknown author clears the column
+   * rather than leaving the previous editor's name on someone else's change.
+   */
+  private attribution(author = this.authorOf()): Partial<Template> {
+    return { last_user_update: author ?? null };
+  }
+
+  private assertValidDefinition(fieldDefinitions: Record<string, FieldDefinition>): void {
+    const issues = validateTemplateDefinition(fieldDefinitions);
+    if (issues.length > 0) {
+      throw new TemplateValidationError(
+        `Invalid field definitions: ${issues.map(i => i.message).join('; ')}`,
+        issues
+      );
+    }
+  }
+
+  private toWriteError(error: any, conflictMessage: string): Error {
+    if (this.isNetworkError(error)) return new NetworkError(error.message);
+    if (error.code === 'LEASE_INVALID') return new LeaseExpiredError(error.message);
+    if (this.isTenantViolation(error)) return new TenantIsolationError(error.message);
+    if (this.isVersionConflict(error)) return new VersionConflictError(conflictMessage);
+    return new UpdateFailedError(error.message);
+  }
+
+  private isNetworkError(error: any): boolean {
+    // fetch() rejections surface as TypeErrors or "Failed to fetch" messages
+    if (!error) return false;
+    return error instanceof TypeError || /failed to fetch|network request failed/i.test(error.message || '');
+  }
+
+  private toError(error: unknown, fallback: string): Error {
+    // A client that rejects outright (rather than returning an error) is offline
+    if (error instanceof TypeError) return new NetworkError(error.message);
+    return error instanceof Error ? error : new Error(fallback);
+  }
+
+  private isTenantViolation(error: any): boolean {
+    // 42501: insufficient privilege, raised by row-level security
+    return error?.code === '42501';
+  }
+
+  private isVersionConflict(error: any): boolean {
+    // PGRST116: the version guard matched no rows
+    return error?.code === 'PGRST116' || !!error?.message?.includes('version');
   }
 
-  private incrementVersion(version: string): string {
-    const parts = version.split('.');
-    const patch = parseInt(parts[2] || '0') + 1;
-    return `${parts[0]}.${parts[1]}.${patch}`;
+  private incrementVersion(version: string, bump: VersionBump = 'patch'): string {
+    return bumpVersion(version, bump);
   }
 
   private getMockTemplates(): Template[] {
@@ -0,0 +1,201 @@
+import { CacheEntry, CacheStats, RealtimeChangePayload } from '../types';
+import { isDeepEqual } from './templateMerge';
+
+export interface CacheOptions {
+  /** Least recently used entries are evicted beyond this many */
+  maxEntries?: number;
+  /** Default time an entry stays fresh */
+  ttlMs?: number;
+  /** How long past expiry a stale entry may still be served while it is refreshed */
+  staleWhileRevalidateMs?: number;
+  now?: () => number;
+}
+
+export interface CacheReadOptions<T> {
+  /** Fetches the value on a miss or when revalidating */
+  load: () => Promise<T>;
+  /**
+   * Cheap lookup of the current version. When given, a fresh entry is only
+   * served if its version still matches.
+   */
+  currentVersion?: () => Promise<string | undefined>;
+  ttlMs?: number;
+}
+
+interface PendingLoad<T> {
+  promise: Promise<T>;
+  /** Set once a newer value or an invalidation makes this load's result out of date */
+  superseded: boolean;
+}
+
+/**
+ * Bounded LRU cache for versioned rows.
+ *
+ * Entries expire after their TTL. Within the stale-while-revalidate window an
+ * expired entry is still returned, and a single background load replaces it.
+ * Writers and realtime subscriptions should call `set`, `invalidate` or
+ * `applyChange` so readers never wait out a TTL to see a known change.
+ */
+export class VersionedCache<T extends { version?: string }> {
+  // Map iteration order doubles as recency order: oldest first
+  private entries = new Map<string, CacheEntry<T>>();
+  private revalidating = new Map<string, PendingLoad<T>>();
+  private stats = { hits: 0, staleHits: 0, misses: 0, evictions: 0, invalidations: 0 };
+
+  private maxEntries: number;
+  private ttlMs: number;
+  private staleWhileRevalidateMs: number;
+  private now: () => number;
+
+  constructor(options: CacheOptions = {}) {
+    this.maxEntries = options.maxEntries || 100;
+    this.ttlMs = options.ttlMs ?? 60000;
+    this.staleWhileRevalidateMs = options.staleWhileRevalidateMs ?? 30000;
+    this.now = options.now || Date.now;
+  }
+
+  /**
+   * The cached value if it is still fresh. Counts towards hit/miss stats.
+   */
+  get(key: string): T | undefined {
+    const entry = this.entries.get(key);
+    if (!entry || entry.expiresAt <= this.now()) {
+      this.stats.misses++;
+      return undefined;
+    }
+
+    this.stats.hits++;
+    this.touch(key, entry);
+    return entry.data;
+  }
+
+  /**
+   * The cached entry regardless of age, without affecting stats or recency
+   */
+  peek(key: string): CacheEntry<T> | undefined {
+    return this.entries.get(key);
+  }
+
+  set(key: string, data: T, ttlMs: number = this.ttlMs): void {
+    this.supersedeLoad(key);
+    this.store(key, data, ttlMs);
+  }
+
+  /**
+   * Read through the cache, loading on a miss or a version mismatch and
+   * serving stale entries while a refresh runs in the background
+   */
+  async read(key: string, options: CacheReadOptions<T>): Promise<T> {
+    const entry = this.entries.get(key);
+    const now = this.now();
+
+    if (entry && entry.expiresAt > now) {
+      if (!options.currentVersion || (await options.currentVersion()) === entry.version) {
+        this.stats.hits++;
+        this.touch(key, entry);
+        return entry.data;
+      }
+      this.invalidate(key);
+    } else if (entry && entry.expiresAt + this.staleWhileRevalidateMs > now) {
+      this.stats.staleHits++;
+      this.touch(key, entry);
+      this.revalidate(key, options).catch(error => {
+        console.error(`Failed to revalidate cache entry ${key}:`, error);
+      });
+      return entry.data;
+    }
+
+    this.stats.misses++;
+    return this.revalidate(key, options);
+  }
+
+  invalidate(key: string): void {
+    this.supersedeLoad(key);
+    if (this.entries.delete(key)) {
+      this.stats.invalidations++;
+    }
+  }
+
+  /**
+   * Drop entries a realtime change has made out of date. Echoes of rows we
+   * already hold are ignored; anything else, including changes that keep the
+   * version (such as lifecycle state), invalidates.
+   */
+  applyChange(payload: RealtimeChangePayload<T & { id: string }>): void {
+    const key = payload.new?.id ?? payload.old?.id;
+    if (!key) return;
+
+    const cached = this.entries.get(key);
+    if (!cached) {
+      // A load already under way may have read the row before this change
+      this.supersedeLoad(key);
+    } else if (payload.eventType === 'DELETE' || !isDeepEqual(cached.data, payload.new)) {
+      this.invalidate(key);
+    }
+  }
+
+  clear(): void {
+    Array.from(this.revalidating.keys()).forEach(key => this.supersedeLoad(key));
+    this.stats.invalidations += this.entries.size;
+    this.entries.clear();
+  }
+
+  getStats(): CacheStats {
+    return { ...this.stats, size: this.entries.size };
+  }
+
+  private revalidate(key: string, options: CacheReadOptions<T>): Promise<T> {
+    // Concurrent readers of the same key share one load
+    const existing = this.revalidating.get(key);
+    if (existing) {
+      return existing.promise;
+    }
+
+    const pending = { superseded: false } as PendingLoad<T>;
+    pending.promise = options.load()
+      .then(data => {
+        // A load that started before the latest set or invalidate read an
+        // older row; its caller gets it, but it isn't cached
+        if (!pending.superseded) {
+          this.store(key, data, options.ttlMs ?? this.ttlMs);
+        }
+        return data;
+      })
+      .finally(() => {
+        if (this.revalidating.get(key) === pending) {
+          this.revalidating.delete(key);
+        }
+      });
+    this.revalidating.set(key, pending);
+    return pending.promise;
+  }
+
+  /**
+   * Keep an in-flight load from caching its result, and let the next read
+   * start a fresh one instead of joining it
+   */
+  private supersedeLoad(key: string): void {
+    const pending = this.revalidating.get(key);
+    if (pending) {
+      pending.superseded = true;
+      this.revalidating.delete(key);
+    }
+  }
+
+  private store(key: string, data: T, ttlMs: number): void {
+    const now = this.now();
+    this.entries.delete(key);
+    this.entries.set(key, { data, version: data.version, timestamp: now, expiresAt: now + ttlMs });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+      this.stats.evictions++;
+    }
+  }
+
+  private touch(key: string, entry: CacheEntry<T>): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+  }
+}
@@ -0,0 +1,257 @@
+import { Template, TemplateSection, FieldDefinition, FieldType } from '../types';
+
+const FIELD_TYPES: FieldType[] = ['text', 'number', 'checkbox', 'select', 'date'];
+
+/**
+ * Accepted header names for each column, lower-cased
+ */
+const COLUMNS = {
+  section: ['section', 'section title'],
+  label: ['label', 'field', 'field label'],
+  type: ['type', 'field type'],
+  required: ['required'],
+  options: ['options']
+};
+
+type Column = keyof typeof COLUMNS;
+
+const TRUE_VALUES = ['yes', 'y', 'true', '1', 'x'];
+const FALSE_VALUES = ['no', 'n', 'false', '0', ''];
+
+export interface CsvRowError {
+  /** 1-based line in the file, counting the header */
+  row: number;
+  column?: Column;
+  message: string;
+}
+
+export interface CsvFieldRow {
+  row: number;
+  sectionTitle: string;
+  field: FieldDefinition;
+  /** Whether the field lands in a section the template doesn't have yet */
+  newSection: boolean;
+}
+
+export interface CsvImportUpdate {
+  update: Pick<Template, 'sections' | 'field_definitions'>;
+  /** Rows that no longer fit the template, e.g. because their section was removed */
+  errors: CsvRowError[];
+}
+
+export interface CsvImportPreview {
+  rows: CsvFieldRow[];
+  errors: CsvRowError[];
+  /** Sections that will be created, with only the imported fields */
+  sections: TemplateSection[];
+  field_definitions: Record<string, FieldDefinition>;
+}
+
+/**
+ * Split CSV text into rows of cells. Handles quoted cells containing
+ * commas, newlines and doubled quotes; blank lines are dropped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  const endCell = () => {
+    row.push(cell.trim());
+    cell = '';
+  };
+  const endRow = () => {
+    endCell();
+    if (row.some(value => value !== '')) rows.push(row);
+    row = [];
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      endCell();
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+  endRow();
+
+  return rows;
+}
+
+/**
+ * Turn a CSV of field definitions into sections and fields for `template`,
+ * or for a new template when none is given. Nothing is saved; the preview
+ * lists every row that can't be imported and why.
+ *
+ * Columns: section title, field label, type, required (yes/no) and options
+ * (separated by "|" or ";"). Fields join an existing section with the same
+ * title, otherwise a new section is created at the end. Sections an heir
+ * inherits from its base can't take new fields.
+ */
+export function previewFieldCsv(text: string, template?: Template): CsvImportPreview {
+  const preview: CsvImportPreview = { rows: [], errors: [], sections: [], field_definitions: {} };
+  const [header, ...lines] = parseCsv(text);
+  if (!header) {
+    preview.errors.push({ row: 1, message: 'The file is empty' });
+    return preview;
+  }
+
+  const columns = locateColumns(header);
+  const missing = (['section', 'label', 'type'] as Column[]).filter(column => columns[column] === undefined);
+  if (missing.length > 0) {
+    preview.errors.push({ row: 1, message: `Missing column${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}` });
+    return preview;
+  }
+
+  const usedIds = new Set([
+    ...Object.keys(template?.field_definitions || {}),
+    ...(template?.sections || []).map(section => section.id)
+  ]);
+  const existingSections = new Map((template?.sections || []).map(section => [normalize(section.title), section]));
+  const ownSections = template?.base_template_id
+    ? new Set((template.overrides?.added_sections || []).map(section => section.id))
+    : undefined;
+  const newSections = new Map<string, TemplateSection>();
+  let nextOrder = Math.max(0, ...(template?.sections || []).map(section => section.order + 1));
+
+  lines.forEach((cells, index) => {
+    const row = index + 2;
+    const cell = (column: Column) => columns[column] === undefined ? '' : cells[columns[column]!] || '';
+    const error = (column: Column | undefined, message: string) => preview.errors.push({ row, column, message });
+    const errorCount = preview.errors.length;
+
+    const sectionTitle = cell('section');
+    const label = cell('label');
+    const typeName = cell('type').toLowerCase();
+    const requiredValue = cell('required').toLowerCase();
+    const options = cell('options').split(/[|;]/).map(option => option.trim()).filter(Boolean);
+
+    if (!sectionTitle) error('section', 'Section title is missing');
+    if (!label) error('label', 'Field label is missing');
+
+    const type = FIELD_TYPES.find(candidate => candidate === typeName);
+    if (!type) {
+      error('type', `Unknown type "${cell('type')}"; expected one of ${FIELD_TYPES.join(', ')}`);
+    } else if (type === 'select' && options.length === 0) {
+      error('options', 'Select fields need at least one option');
+    } else if (type !== 'select' && options.length > 0) {
+      error('options', `Options only apply to select fields, not ${type}`);
+    }
+    if (new Set(options).size !== options.length) {
+      error('options', 'Options must be unique');
+    }
+    if (!TRUE_VALUES.includes(requiredValue) && !FALSE_VALUES.includes(requiredValue)) {
+      error('required', `"${cell('required')}" is not yes or no`);
+    }
+
+    const key = normalize(sectionTitle);
+    const existing = existingSections.get(key);
+    if (existing && ownSections && !ownSections.has(existing.id)) {
+      error('section', `"${existing.title}" is inherited from the base template; fields can only be added to this template's own sections`);
+    }
+
+    if (preview.errors.length > errorCount) return;
+
+    const field: FieldDefinition = {
+      id: uniqueId(`field-${slug(label)}`, usedIds),
+      type: type!,
+      label,
+      required: TRUE_VALUES.includes(requiredValue),
+      ...(type === 'select' ? { options } : {})
+    };
+
+    let section = newSections.get(key);
+    if (!existing && !section) {
+      section = { id: uniqueId(`section-${slug(sectionTitle)}`, usedIds), title: sectionTitle, fields: [], order: nextOrder++ };
+      newSections.set(key, section);
+    }
+    section?.fields.push(field.id);
+
+    preview.field_definitions[field.id] = field;
+    preview.rows.push({ row, sectionTitle: existing?.title || sectionTitle, field, newSection: !existing });
+  });
+
+  preview.sections = Array.from(newSections.values());
+  if (lines.length === 0) {
+    preview.errors.push({ row: 2, message: 'The file has no field rows' });
+  }
+  return preview;
+}
+
+/**
+ * The update that adds a preview's fields to `template`: new fields are
+ * appended to their existing sections, new sections go at the end. Rows
+ * whose section the template no longer has are reported rather than added.
+ */
+export function applyFieldCsv(
+  template: Pick<Template, 'sections' | 'field_definitions'>,
+  preview: CsvImportPreview
+): CsvImportUpdate {
+  const additions = new Map<string, string[]>();
+  const errors: CsvRowError[] = [];
+  preview.rows
+    .filter(row => !row.newSection)
+    .forEach(row => {
+      const section = template.sections.find(s => normalize(s.title) === normalize(row.sectionTitle));
+      if (!section) {
+        errors.push({ row: row.row, column: 'section', message: `Section "${row.sectionTitle}" is no longer in the template` });
+        return;
+      }
+      additions.set(section.id, [...(additions.get(section.id) || []), row.field.id]);
+    });
+
+  return {
+    update: {
+      sections: [
+        ...template.sections.map(section => additions.has(section.id)
+          ? { ...section, fields: [...section.fields, ...additions.get(section.id)!] }
+          : section),
+        ...preview.sections
+      ],
+      field_definitions: { ...template.field_definitions, ...preview.field_definitions }
+    },
+    errors
+  };
+}
+
+function locateColumns(header: string[]): Partial<Record<Column, number>> {
+  const located: Partial<Record<Column, number>> = {};
+  header.forEach((name, index) => {
+    const column = (Object.keys(COLUMNS) as Column[]).find(key => COLUMNS[key].includes(normalize(name)));
+    if (column && located[column] === undefined) located[column] = index;
+  });
+  return located;
+}
+
+function uniqueId(base: string, used: Set<string>): string {
+  let id = base;
+  for (let n = 2; used.has(id); n++) {
+    id = `${base}-${n}`;
+  }
+  used.add(id);
+  return id;
+}
+
+function slug(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'untitled';
+}
+
+function normalize(text: string): string {
+  return text.trim().toLowerCase();
+}
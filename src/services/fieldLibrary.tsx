@@ -0,0 +1,241 @@
+import {
+  Template,
+  TemplateSection,
+  FieldDefinition,
+  LibraryItem,
+  LibraryLink,
+  LibraryUpgrade
+} from '../types';
+import { isDeepEqual } from './templateMerge';
+
+export const LIBRARY_TABLE = 'field_library';
+
+type TemplateContent = Pick<Template, 'sections' | 'field_definitions'>;
+
+/**
+ * Item ids are only unique within an organization, so the row id carries it
+ */
+export function libraryRowId(organizationId: string, itemId: string, version: number): string {
+  return `${organizationId}:${versionKey(itemId, version)}`;
+}
+
+function versionKey(itemId: string, version: number): string {
+  return `${itemId}@${version}`;
+}
+
+/**
+ * Fields of a section blueprint are namespaced by the section that uses it,
+ * so the same blueprint can appear twice in one template
+ */
+export function blueprintFieldId(sectionId: string, fieldId: string): string {
+  return `${sectionId}.${fieldId}`;
+}
+
+/**
+ * The library items a template links to: linked sections and standalone
+ * linked fields (a blueprint's fields come with their section)
+ */
+export function collectLibraryLinks(template: TemplateContent): LibraryLink[] {
+  return [
+    ...template.sections.map(section => section.library),
+    ...Object.values(template.field_definitions).map(field => field.library?.field_id ? undefined : field.library)
+  ].filter((link): link is LibraryLink => !!link);
+}
+
+export function hasLibraryLinks(template: TemplateContent): boolean {
+  return collectLibraryLinks(template).length > 0;
+}
+
+/**
+ * Fill linked fields and sections in from the given item versions. Links to
+ * versions not among `items` are left as they are.
+ */
+export function resolveLibraryReferences<T extends TemplateContent>(template: T, items: LibraryItem[]): T {
+  const byId = new Map(items.map(item => [versionKey(item.item_id, item.version), item]));
+  const find = (link?: LibraryLink) => link ? byId.get(versionKey(link.item_id, link.version)) : undefined;
+
+  const field_definitions: Record<string, FieldDefinition> = {};
+  Object.entries(template.field_definitions).forEach(([fieldId, field]) => {
+    const item = field.library?.field_id ? undefined : find(field.library);
+    field_definitions[fieldId] = item?.field ? { ...item.field, id: fieldId, library: field.library } : field;
+  });
+
+  const sections = template.sections.map(section => {
+    const blueprint = find(section.library)?.section;
+    if (!blueprint) return section;
+
+    // Fields from another version of the blueprint make way for this one's
+    Object.keys(field_definitions)
+      .filter(fieldId => field_definitions[fieldId].library?.field_id && fieldId.startsWith(`${section.id}.`))
+      .forEach(fieldId => delete field_definitions[fieldId]);
+    blueprint.fields.forEach(field => {
+      const id = blueprintFieldId(section.id, field.id);
+      field_definitions[id] = { ...field, id, library: { ...section.library!, field_id: field.id } };
+    });
+
+    return { ...section, title: blueprint.title, fields: blueprint.fields.map(field => blueprintFieldId(section.id, field.id)) };
+  });
+
+  return { ...template, sections, field_definitions };
+}
+
+/**
+ * Reduce linked content to bare links for storage. Linked content that no
+ * longer matches its library version was changed in the template, so it is
+ * unlinked and stored as a plain copy instead.
+ */
+export function toStoredLibraryContent(content: TemplateContent, items: LibraryItem[]): TemplateContent {
+  const expected = resolveLibraryReferences(content, items);
+  const linkedIds = new Set(items.map(item => versionKey(item.item_id, item.version)));
+  const isKnown = (link: LibraryLink) => linkedIds.has(versionKey(link.item_id, link.version));
+  const storedBlueprintFields = new Set<string>();
+
+  const sections = content.sections.map(section => {
+    if (!section.library) return section;
+    const resolved = expected.sections.find(s => s.id === section.id)!;
+    const intact = isKnown(section.library)
+      && isDeepEqual(section, resolved)
+      && resolved.fields.every(fieldId => isDeepEqual(content.field_definitions[fieldId], expected.field_definitions[fieldId]));
+    if (!intact) return unlinked(section);
+
+    resolved.fields.forEach(fieldId => storedBlueprintFields.add(fieldId));
+    return { id: section.id, title: section.title, fields: [], order: section.order, library: section.library };
+  });
+
+  const field_definitions: Record<string, FieldDefinition> = {};
+  Object.entries(content.field_definitions).forEach(([fieldId, field]) => {
+    if (storedBlueprintFields.has(fieldId)) return;
+    if (!field.library || field.library.field_id || !isKnown(field.library)) {
+      field_definitions[fieldId] = field.library ? unlinked(field) : field;
+    } else if (isDeepEqual(field, expected.field_definitions[fieldId])) {
+      // Only the link is stored; resolveLibraryReferences fills in the rest
+      field_definitions[fieldId] = { id: fieldId, library: field.library } as FieldDefinition;
+    } else {
+      field_definitions[fieldId] = unlinked(field);
+    }
+  });
+
+  return { sections, field_definitions };
+}
+
+/**
+ * Links in `template` that are behind the latest version of their item
+ */
+export function findLibraryUpgrades(template: Template, latest: LibraryItem[]): LibraryUpgrade[] {
+  const latestById = new Map(latest.map(item => [item.item_id, item]));
+  const upgrades: LibraryUpgrade[] = [];
+
+  const offer = (targetId: string, link: LibraryLink | undefined) => {
+    const item = link && !link.field_id ? latestById.get(link.item_id) : undefined;
+    if (!item || item.version <= link!.version) return;
+    upgrades.push({
+      templateId: template.id,
+      kind: item.kind,
+      targetId,
+      itemId: item.item_id,
+      name: item.name,
+      fromVersion: link!.version,
+      toVersion: item.version
+    });
+  };
+
+  template.sections.forEach(section => offer(section.id, section.library));
+  Object.entries(template.field_definitions).forEach(([fieldId, field]) => offer(fieldId, field.library));
+  return upgrades;
+}
+
+/**
+ * Move every link to `item` onto its version and fill the content in
+ */
+export function applyLibraryUpgrade<T extends TemplateContent>(template: T, item: LibraryItem): T {
+  const relink = <V extends { library?: LibraryLink }>(value: V): V =>
+    value.library?.item_id === item.item_id && !value.library.field_id
+      ? { ...value, library: { item_id: item.item_id, version: item.version } }
+      : value;
+
+  const field_definitions: Record<string, FieldDefinition> = {};
+  Object.entries(template.field_definitions).forEach(([fieldId, field]) => {
+    field_definitions[fieldId] = relink(field);
+  });
+
+  return resolveLibraryReferences({ ...template, sections: template.sections.map(relink), field_definitions }, [item]);
+}
+
+/**
+ * Add a library item to a template: a section blueprint as a new last
+ * section, a field at the end of `sectionId` (or of the last section)
+ */
+export function insertLibraryItem(template: TemplateContent, item: LibraryItem, sectionId?: string): TemplateContent {
+  const link: LibraryLink = { item_id: item.item_id, version: item.version };
+  const usedIds = new Set([...template.sections.map(s => s.id), ...Object.keys(template.field_definitions)]);
+
+  if (item.kind === 'section') {
+    const section: TemplateSection = {
+      id: uniqueId(`section-${item.item_id}`, usedIds),
+      title: item.section!.title,
+      fields: [],
+      order: Math.max(-1, ...template.sections.map(s => s.order)) + 1,
+      library: link
+    };
+    return resolveLibraryReferences({ ...template, sections: [...template.sections, section] }, [item]);
+  }
+
+  const sorted = [...template.sections].sort((a, b) => a.order - b.order);
+  const target = sectionId || sorted[sorted.length - 1]?.id;
+  if (!target) {
+    throw new Error('Add a section before inserting library fields');
+  }
+
+  const fieldId = uniqueId(`field-${item.item_id}`, usedIds);
+  return {
+    sections: template.sections.map(section =>
+      section.id === target ? { ...section, fields: [...section.fields, fieldId] } : section
+    ),
+    field_definitions: { ...template.field_definitions, [fieldId]: { ...item.field!, id: fieldId, library: link } }
+  };
+}
+
+/**
+ * Turn a linked field or section (with its fields) into a plain, editable
+ * copy that no longer follows the library
+ */
+export function unlinkLibraryItem<T extends TemplateContent>(template: T, targetId: string): T {
+  const section = template.sections.find(s => s.id === targetId && s.library);
+  const field_definitions: Record<string, FieldDefinition> = {};
+  Object.entries(template.field_definitions).forEach(([fieldId, field]) => {
+    const detach = section ? section.fields.includes(fieldId) && field.library?.field_id : fieldId === targetId;
+    field_definitions[fieldId] = detach ? unlinked(field) : field;
+  });
+
+  return {
+    ...template,
+    sections: template.sections.map(s => s.id === targetId ? unlinked(s) : s),
+    field_definitions
+  };
+}
+
+/**
+ * Plain copies of all linked content, e.g. for use outside the organization
+ * whose library it links to
+ */
+export function stripLibraryLinks<T extends TemplateContent>(template: T): T {
+  const field_definitions: Record<string, FieldDefinition> = {};
+  Object.entries(template.field_definitions).forEach(([fieldId, field]) => {
+    field_definitions[fieldId] = unlinked(field);
+  });
+  return { ...template, sections: template.sections.map(unlinked), field_definitions };
+}
+
+function unlinked<T extends { library?: LibraryLink }>(value: T): T {
+  const { library, ...rest } = value;
+  return rest as T;
+}
+
+function uniqueId(base: string, used: Set<string>): string {
+  let id = base;
+  for (let n = 2; used.has(id); n++) {
+    id = `${base}-${n}`;
+  }
+  used.add(id);
+  return id;
+}
@@ -0,0 +1,280 @@
+import { JsonPatchOperation, JsonPatchError, Template } from '../types';
+import { isDeepEqual } from './templateMerge';
+
+/**
+ * Top-level template columns a patch may touch. Everything else (id, version,
+ * organization, timestamps) is owned by the service.
+ */
+export const PATCHABLE_COLUMNS = ['name', 'sections', 'field_definitions', 'inspection_variants'];
+
+const OPS = ['add', 'remove', 'replace', 'move', 'copy', 'test'];
+
+/**
+ * Parse an RFC 6901 JSON Pointer into its unescaped reference tokens.
+ */
+export function parsePointer(pointer: string): string[] {
+  if (pointer === '') return [];
+  if (!pointer.startsWith('/')) {
+    throw new JsonPatchError(`Invalid JSON Pointer "${pointer}"`, pointer);
+  }
+  return pointer
+    .slice(1)
+    .split('/')
+    .map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+export function toPointer(tokens: (string | number)[]): string {
+  return tokens
+    .map(token => '/' + String(token).replace(/~/g, '~0').replace(/\//g, '~1'))
+    .join('');
+}
+
+/**
+ * Read the value at a pointer, or undefined when the path doesn't exist.
+ */
+export function getPointerValue(document: any, pointer: string): any {
+  try {
+    return getValue(document, parsePointer(pointer), pointer);
+  } catch (err) {
+    return undefined;
+  }
+}
+
+/**
+ * Check that a patch is well-formed and only addresses patchable columns.
+ */
+export function validatePatch(operations: JsonPatchOperation[]): void {
+  if (!Array.isArray(operations)) {
+    throw new JsonPatchError('Patch must be an array of operations', '');
+  }
+
+  operations.forEach(operation => {
+    if (!operation || !OPS.includes(operation.op)) {
+      throw new JsonPatchError(`Unknown patch operation "${(operation as any)?.op}"`, (operation as any)?.path || '');
+    }
+
+    const pointers = [operation.path];
+    if (operation.op === 'move' || operation.op === 'copy') {
+      pointers.push(operation.from);
+    }
+
+    pointers.forEach(pointer => {
+      if (typeof pointer !== 'string') {
+        throw new JsonPatchError('Patch operation is missing a path', '');
+      }
+      const [column] = parsePointer(pointer);
+      if (!PATCHABLE_COLUMNS.includes(column)) {
+        throw new JsonPatchError(`Path "${pointer}" is not a patchable template column`, pointer);
+      }
+    });
+
+    const needsValue = operation.op === 'add' || operation.op === 'replace' || operation.op === 'test';
+    if (needsValue && (operation as { value?: any }).value === undefined) {
+      throw new JsonPatchError(`"${operation.op}" operation requires a value`, operation.path);
+    }
+  });
+}
+
+/**
+ * Apply a patch to a document without mutating it. Operations are atomic:
+ * if any one fails (including a failed "test") nothing is applied.
+ */
+export function applyPatch<T>(document: T, operations: JsonPatchOperation[]): T {
+  let result: any = clone(document);
+
+  operations.forEach(operation => {
+    switch (operation.op) {
+      case 'add':
+        result = addValue(result, parsePointer(operation.path), clone(operation.value), operation.path);
+        break;
+      case 'remove':
+        result = removeValue(result, parsePointer(operation.path), operation.path);
+        break;
+      case 'replace':
+        result = removeValue(result, parsePointer(operation.path), operation.path);
+        result = addValue(result, parsePointer(operation.path), clone(operation.value), operation.path);
+        break;
+      case 'move': {
+        const value = getValue(result, parsePointer(operation.from), operation.from);
+        result = removeValue(result, parsePointer(operation.from), operation.from);
+        result = addValue(result, parsePointer(operation.path), value, operation.path);
+        break;
+      }
+      case 'copy': {
+        const value = getValue(result, parsePointer(operation.from), operation.from);
+        result = addValue(result, parsePointer(operation.path), clone(value), operation.path);
+        break;
+      }
+      case 'test': {
+        const value = getValue(result, parsePointer(operation.path), operation.path);
+        if (!isDeepEqual(value, operation.value)) {
+          throw new JsonPatchError(`Test failed at "${operation.path}"`, operation.path, true);
+        }
+        break;
+      }
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Build the patch that turns `base` into `edited`.
+ *
+ * Every replace and remove is preceded by a "test" of the value it expects to
+ * find, so replaying the patch on a newer version fails loudly on overlapping
+ * edits instead of silently overwriting them.
+ */
+export function diffTemplate(base: Template, edited: Template): JsonPatchOperation[] {
+  const operations: JsonPatchOperation[] = [];
+
+  if (base.name !== edited.name) {
+    operations.push(
+      { op: 'test', path: '/name', value: base.name },
+      { op: 'replace', path: '/name', value: edited.name }
+    );
+  }
+
+  // Sections are addressed by index, so each touched index is pinned by id
+  const editedSections = new Map(edited.sections.map(section => [section.id, section]));
+  const removedIndexes: number[] = [];
+
+  base.sections.forEach((section, index) => {
+    const next = editedSections.get(section.id);
+    if (!next) {
+      removedIndexes.push(index);
+      return;
+    }
+
+    const changed = Object.keys({ ...section, ...next }).filter(
+      prop => !isDeepEqual((section as any)[prop], (next as any)[prop])
+    );
+    if (changed.length === 0) return;
+
+    operations.push({ op: 'test', path: toPointer(['sections', index, 'id']), value: section.id });
+    changed.forEach(prop => {
+      operations.push(...replaceOps(['sections', index, prop], (section as any)[prop], (next as any)[prop]));
+    });
+  });
+
+  removedIndexes.reverse().forEach(index => {
+    operations.push(
+      { op: 'test', path: toPointer(['sections', index]), value: base.sections[index] },
+      { op: 'remove', path: toPointer(['sections', index]) }
+    );
+  });
+
+  const baseSectionIds = new Set(base.sections.map(section => section.id));
+  edited.sections
+    .filter(section => !baseSectionIds.has(section.id))
+    .forEach(section => {
+      operations.push({ op: 'add', path: '/sections/-', value: section });
+    });
+
+  const fieldIds = new Set([
+    ...Object.keys(base.field_definitions),
+    ...Object.keys(edited.field_definitions)
+  ]);
+
+  fieldIds.forEach(fieldId => {
+    const before: any = base.field_definitions[fieldId];
+    const after: any = edited.field_definitions[fieldId];
+
+    if (!before) {
+      operations.push({ op: 'add', path: toPointer(['field_definitions', fieldId]), value: after });
+    } else if (!after) {
+      operations.push(
+        { op: 'test', path: toPointer(['field_definitions', fieldId]), value: before },
+        { op: 'remove', path: toPointer(['field_definitions', fieldId]) }
+      );
+    } else {
+      Object.keys({ ...before, ...after })
+        .filter(prop => !isDeepEqual(before[prop], after[prop]))
+        .forEach(prop => {
+          operations.push(...replaceOps(['field_definitions', fieldId, prop], before[prop], after[prop]));
+        });
+    }
+  });
+
+  return operations;
+}
+
+function replaceOps(tokens: (string | number)[], before: any, after: any): JsonPatchOperation[] {
+  const path = toPointer(tokens);
+  if (before === undefined) {
+    return [{ op: 'add', path, value: after }];
+  }
+  if (after === undefined) {
+    return [{ op: 'test', path, value: before }, { op: 'remove', path }];
+  }
+  return [{ op: 'test', path, value: before }, { op: 'replace', path, value: after }];
+}
+
+function getValue(document: any, tokens: string[], pointer: string): any {
+  return tokens.reduce((node, token) => {
+    if (node === null || typeof node !== 'object' || !hasChild(node, token)) {
+      throw new JsonPatchError(`Path "${pointer}" does not exist`, pointer);
+    }
+    return node[Array.isArray(node) ? Number(token) : token];
+  }, document);
+}
+
+function addValue(document: any, tokens: string[], value: any, pointer: string): any {
+  if (tokens.length === 0) return value;
+
+  const parent = getValue(document, tokens.slice(0, -1), pointer);
+  const key = tokens[tokens.length - 1];
+
+  if (Array.isArray(parent)) {
+    const index = key === '-' ? parent.length : arrayIndex(key, pointer);
+    if (index > parent.length) {
+      throw new JsonPatchError(`Index out of bounds at "${pointer}"`, pointer);
+    }
+    parent.splice(index, 0, value);
+  } else if (parent !== null && typeof parent === 'object') {
+    parent[key] = value;
+  } else {
+    throw new JsonPatchError(`Cannot add to a non-container at "${pointer}"`, pointer);
+  }
+
+  return document;
+}
+
+function removeValue(document: any, tokens: string[], pointer: string): any {
+  if (tokens.length === 0) {
+    throw new JsonPatchError('Cannot remove the document root', pointer);
+  }
+
+  const parent = getValue(document, tokens.slice(0, -1), pointer);
+  const key = tokens[tokens.length - 1];
+
+  if (!hasChild(parent, key)) {
+    throw new JsonPatchError(`Path "${pointer}" does not exist`, pointer);
+  }
+
+  if (Array.isArray(parent)) {
+    parent.splice(arrayIndex(key, pointer), 1);
+  } else {
+    delete parent[key];
+  }
+
+  return document;
+}
+
+function hasChild(node: any, token: string): boolean {
+  if (Array.isArray(node)) {
+    return /^(0|[1-9][0-9]*)$/.test(token) && Number(token) < node.length;
+  }
+  return Object.prototype.hasOwnProperty.call(node, token);
+}
+
+function arrayIndex(token: string, pointer: string): number {
+  if (!/^(0|[1-9][0-9]*)$/.test(token)) {
+    throw new JsonPatchError(`Invalid array index at "${pointer}"`, pointer);
+  }
+  return Number(token);
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
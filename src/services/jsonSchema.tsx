@@ -0,0 +1,153 @@
+import { Template, FieldDefinition, ValidationRule, ComparisonOperator } from '../types';
+import { applyVariant } from './variants';
+
+export const JSON_SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+export interface JsonSchemaOptions {
+  /** Describe responses for this variant instead of the base template */
+  variant?: string;
+}
+
+export type JsonSchema = { [keyword: string]: unknown };
+
+const COMPARISONS: Record<ComparisonOperator, string> = {
+  eq: 'equal to',
+  neq: 'different from',
+  lt: 'less than',
+  lte: 'at most',
+  gt: 'greater than',
+  gte: 'at least'
+};
+
+/**
+ * Describe a valid response to `template` as a JSON Schema (draft 2020-12),
+ * for systems that validate submissions without our code.
+ *
+ * Output is deterministic: properties follow section and field order and
+ * every keyword is emitted in a fixed order, so schemas for two versions
+ * can be diffed directly. Rules JSON Schema can't express - dates relative
+ * to today, comparisons with other fields, regex flags - are described in
+ * `$comment` instead.
+ */
+export function templateToJsonSchema(template: Template, options: JsonSchemaOptions = {}): JsonSchema {
+  const effective = options.variant ? applyVariant(template, options.variant) : template;
+  const fields = orderedFields(effective);
+
+  const properties: Record<string, JsonSchema> = {};
+  fields.forEach(field => {
+    properties[field.id] = fieldSchema(field);
+  });
+
+  return {
+    $schema: JSON_SCHEMA_DIALECT,
+    $id: `urn:inspection-template:${template.id}:${template.version}${options.variant ? `:${options.variant}` : ''}`,
+    title: template.name,
+    type: 'object',
+    properties,
+    required: fields.filter(field => field.required).map(field => field.id),
+    additionalProperties: false
+  };
+}
+
+/**
+ * Fields in the order an inspector sees them; fields outside every section
+ * follow, by id
+ */
+function orderedFields(template: Template): FieldDefinition[] {
+  const seen = new Set<string>();
+  const ordered: FieldDefinition[] = [];
+
+  [...template.sections]
+    .sort((a, b) => a.order - b.order)
+    .forEach(section => section.fields.forEach(fieldId => {
+      const field = template.field_definitions[fieldId];
+      if (field && !seen.has(fieldId)) {
+        seen.add(fieldId);
+        ordered.push(field);
+      }
+    }));
+
+  Object.keys(template.field_definitions)
+    .filter(fieldId => !seen.has(fieldId))
+    .sort()
+    .forEach(fieldId => ordered.push(template.field_definitions[fieldId]));
+
+  return ordered;
+}
+
+function fieldSchema(field: FieldDefinition): JsonSchema {
+  const answer: JsonSchema = {};
+  const comments: string[] = [];
+
+  switch (field.type) {
+    case 'text':
+      answer.type = 'string';
+      if (field.required) answer.minLength = 1;
+      break;
+    case 'number':
+      answer.type = 'number';
+      break;
+    case 'checkbox':
+      answer.type = 'boolean';
+      break;
+    case 'select':
+      answer.type = 'string';
+      answer.enum = [...(field.options || [])];
+      break;
+    case 'date':
+      answer.type = 'string';
+      answer.format = 'date';
+      break;
+  }
+
+  (field.validation || []).forEach(rule => applyRule(answer, rule, comments));
+
+  // Optional fields left blank may be sent as null or an empty string, and
+  // blank answers aren't held to the field's rules
+  const schema: JsonSchema = field.required
+    ? { title: field.label, ...answer }
+    : { title: field.label, anyOf: [answer, { enum: [null, ''] }] };
+  if (comments.length > 0) {
+    schema.$comment = comments.join(' ');
+  }
+  return schema;
+}
+
+function applyRule(schema: JsonSchema, rule: ValidationRule, comments: string[]): void {
+  switch (rule.kind) {
+    case 'min':
+      schema.minimum = rule.value;
+      break;
+    case 'max':
+      schema.maximum = rule.value;
+      break;
+    case 'minLength':
+      schema.minLength = Math.max(rule.value, (schema.minLength as number) || 0);
+      break;
+    case 'maxLength':
+      schema.maxLength = rule.value;
+      break;
+    case 'pattern':
+      schema.pattern = rule.pattern;
+      if (rule.flags) {
+        comments.push(`Pattern is matched with flags "${rule.flags}".`);
+      }
+      break;
+    case 'dateRange': {
+      const bounds = [
+        rule.minDaysFromToday !== undefined ? `no earlier than ${describeDays(rule.minDaysFromToday)}` : null,
+        rule.maxDaysFromToday !== undefined ? `no later than ${describeDays(rule.maxDaysFromToday)}` : null
+      ].filter(Boolean);
+      comments.push(`Must be ${bounds.join(' and ')}.`);
+      break;
+    }
+    case 'compareField':
+      comments.push(`Must be ${COMPARISONS[rule.operator]} the answer to "${rule.field}".`);
+      break;
+  }
+}
+
+function describeDays(days: number): string {
+  if (days === 0) return 'today';
+  return days < 0 ? `${-days} days before today` : `${days} days after today`;
+}
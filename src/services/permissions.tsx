@@ -0,0 +1,57 @@
+import {
+  Role,
+  TemplateAction,
+  TemplatePermissions,
+  OrganizationMember,
+  ServiceContext,
+  SupabaseClient
+} from '../types';
+
+export const MEMBERS_TABLE = 'organization_members';
+
+/**
+ * What each role may do with its organization's templates. Every role can
+ * do everything the roles before it can.
+ */
+const ROLE_ACTIONS: Record<Role, TemplateAction[]> = {
+  viewer: ['view'],
+  editor: ['view', 'edit'],
+  publisher: ['view', 'edit', 'publish'],
+  admin: ['view', 'edit', 'publish', 'archive']
+};
+
+const ACTIONS: TemplateAction[] = ['view', 'edit', 'publish', 'archive'];
+
+/**
+ * Everything allowed, for callers that aren't bound to an organization
+ */
+export const ALL_PERMISSIONS: TemplatePermissions = permissionsFor('admin');
+
+export function can(role: Role | null, action: TemplateAction): boolean {
+  return !!role && ROLE_ACTIONS[role].includes(action);
+}
+
+/**
+ * The permissions a role grants. No role - not a member - grants nothing.
+ */
+export function permissionsFor(role: Role | null): TemplatePermissions {
+  return Object.fromEntries(ACTIONS.map(action => [action, can(role, action)])) as TemplatePermissions;
+}
+
+/**
+ * The context user's role in the context organization, or null if they
+ * aren't a member
+ */
+export async function fetchMemberRole(supabase: SupabaseClient, context: ServiceContext): Promise<Role | null> {
+  const { data, error } = await supabase
+    .from(MEMBERS_TABLE)
+    .select('role')
+    .eq('organization_id', context.orgId)
+    .eq('user_id', context.userId);
+
+  if (error) {
+    throw error;
+  }
+  const member = (data as Pick<OrganizationMember, 'role'>[])[0];
+  return member?.role || null;
+}
@@ -0,0 +1,146 @@
+import React from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { Template, FieldDefinition, InspectionAnswers, InspectionContext, ResponseValue } from '../types';
+import { resolveEffectiveTemplate } from './variants';
+import { isEmptyAnswer } from './validation';
+
+export interface RenderHtmlOptions {
+  /** Answers to fill in; without them a blank form is rendered */
+  responses?: InspectionAnswers;
+  /** Inspection context used to apply the template's variants */
+  variantContext?: InspectionContext;
+}
+
+const PRINT_CSS = `
+  @page { margin: 18mm; }
+  body { font-family: Georgia, serif; font-size: 11pt; color: #000; }
+  h1 { font-size: 18pt; margin: 0 0 4pt; }
+  .meta { margin: 0 0 12pt; font-size: 10pt; }
+  section { break-inside: avoid; margin-bottom: 14pt; }
+  h2 { font-size: 13pt; border-bottom: 1px solid #000; padding-bottom: 2pt; }
+  .field { display: flex; gap: 8pt; margin: 8pt 0; }
+  .label { min-width: 45%; }
+  .required { font-weight: bold; }
+  .blank { flex: 1; border-bottom: 1px solid #000; min-height: 14pt; }
+  .value { flex: 1; }
+  .options { list-style: none; margin: 0; padding: 0; flex: 1; }
+  .box { display: inline-block; width: 12pt; }
+  footer { margin-top: 24pt; border-top: 1px solid #000; padding-top: 4pt; font-size: 9pt; }
+`;
+
+/**
+ * Render a template as a self-contained HTML document for printing: a blank
+ * form to fill in by hand, or - given responses - a completed report. The
+ * footer names the template version so printouts can be traced back to it.
+ */
+export function renderTemplateToHtml(template: Template, options: RenderHtmlOptions = {}): string {
+  const { template: effective, applied } = resolveEffectiveTemplate(template, options.variantContext || {});
+  const variantNames = (template.inspection_variants || [])
+    .filter(variant => applied.includes(variant.id))
+    .map(variant => variant.name);
+
+  const markup = renderToStaticMarkup(
+    <PrintableForm template={effective} responses={options.responses} variantNames={variantNames} />
+  );
+  return `<!DOCTYPE html>${markup}`;
+}
+
+const PrintableForm: React.FC<{
+  template: Template;
+  responses?: InspectionAnswers;
+  variantNames: string[];
+}> = ({ template, responses, variantNames }) => {
+  const sections = [...template.sections].sort((a, b) => a.order - b.order);
+  const title = responses ? `${template.name} - Inspection Report` : template.name;
+
+  return (
+    <html lang="en">
+      <head>
+        <meta charSet="utf-8" />
+        <title>{title}</title>
+        <style dangerouslySetInnerHTML={{ __html: PRINT_CSS }} />
+      </head>
+      <body>
+        <h1>{title}</h1>
+        <p className="meta">
+          {variantNames.length > 0 && <>Variant: {variantNames.join(', ')}. </>}
+          Fields marked <span className="required">*</span> are required.
+        </p>
+        {!responses && (
+          <div className="field">
+            <span className="label">Inspector / date</span>
+            <span className="blank" />
+          </div>
+        )}
+        {sections.map(section => (
+          <section key={section.id}>
+            <h2>{section.title}</h2>
+            {section.fields
+              .filter(fieldId => template.field_definitions[fieldId])
+              .map(fieldId => (
+                <PrintableField
+                  key={fieldId}
+                  field={template.field_definitions[fieldId]}
+                  value={responses?.[fieldId]}
+                  filled={!!responses}
+                />
+              ))}
+          </section>
+        ))}
+        <footer>
+          {template.name} &middot; version {template.version} &middot; last updated {template.updated_at}
+        </footer>
+      </body>
+    </html>
+  );
+};
+
+const PrintableField: React.FC<{
+  field: FieldDefinition;
+  value: ResponseValue | undefined;
+  filled: boolean;
+}> = ({ field, value, filled }) => {
+  const label = (
+    <span className="label">
+      {field.label}
+      {field.required && <span className="required"> *</span>}
+    </span>
+  );
+
+  if (field.type === 'select') {
+    return (
+      <div className="field">
+        {label}
+        <ul className="options">
+          {(field.options || []).map(option => (
+            <li key={option}>
+              <span className="box">{filled && value === option ? '☒' : '☐'}</span>
+              {option}
+            </li>
+          ))}
+        </ul>
+      </div>
+    );
+  }
+
+  if (field.type === 'checkbox') {
+    return (
+      <div className="field">
+        {label}
+        <span className="value">
+          <span className="box">{filled && value === true ? '☒' : '☐'}</span>
+          {filled && (value === true ? 'Yes' : 'No')}
+        </span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="field">
+      {label}
+      {filled
+        ? <span className="value">{isEmptyAnswer(value) ? '—' : String(value)}</span>
+        : <span className="blank" />}
+    </div>
+  );
+};
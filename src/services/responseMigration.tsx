@@ -0,0 +1,167 @@
+import {
+  Template,
+  FieldDefinition,
+  FieldMapping,
+  ValueTransform,
+  InspectionAnswers,
+  InspectionContext,
+  ResponseValue,
+  MigrationIssue
+} from '../types';
+import { resolveEffectiveTemplate } from './variants';
+import { isEmptyAnswer } from './validation';
+
+export interface AnswerMigration {
+  answers: InspectionAnswers;
+  issues: MigrationIssue[];
+}
+
+/**
+ * Work out where each field of `from` went in `to`. Declared mappings win;
+ * otherwise a field keeps its id, or - if its id is gone - is matched to a
+ * newly added field with the same label. Fields with no match are left out.
+ */
+export function inferFieldMappings(from: Template, to: Template, declared: FieldMapping[] = []): FieldMapping[] {
+  const mappings: FieldMapping[] = [];
+  const declaredFrom = new Map(declared.map(mapping => [mapping.from, mapping]));
+  const added = Object.values(to.field_definitions).filter(field => !from.field_definitions[field.id]);
+  const claimed = new Set(declared.map(mapping => mapping.to));
+
+  Object.values(from.field_definitions).forEach(field => {
+    const explicit = declaredFrom.get(field.id);
+    if (explicit) {
+      mappings.push(explicit);
+      return;
+    }
+    if (to.field_definitions[field.id]) {
+      mappings.push({ from: field.id, to: field.id });
+      return;
+    }
+
+    const label = normalizeLabel(field.label);
+    const renamed = added.find(candidate => !claimed.has(candidate.id) && normalizeLabel(candidate.label) === label);
+    if (renamed) {
+      claimed.add(renamed.id);
+      mappings.push({ from: field.id, to: renamed.id });
+    }
+  });
+
+  return mappings;
+}
+
+/**
+ * Rewrite answers captured against `from` so they read correctly against
+ * `to`, reporting every answer that couldn't be carried over as it was
+ */
+export function migrateAnswers(
+  answers: InspectionAnswers,
+  from: Template,
+  to: Template,
+  mappings: FieldMapping[]
+): AnswerMigration {
+  const migrated: InspectionAnswers = {};
+  const issues: MigrationIssue[] = [];
+  const bySource = new Map(mappings.map(mapping => [mapping.from, mapping]));
+
+  Object.entries(answers).forEach(([fieldId, value]) => {
+    if (isEmptyAnswer(value)) return;
+
+    const mapping = bySource.get(fieldId);
+    const source = from.field_definitions[fieldId];
+    const target = mapping && to.field_definitions[mapping.to];
+
+    if (mapping?.transform?.kind === 'drop') return;
+    if (!mapping || !source || !target) {
+      issues.push({
+        fieldId,
+        kind: 'field_removed',
+        message: `"${source?.label || fieldId}" no longer exists in version ${to.version}`,
+        value
+      });
+      return;
+    }
+
+    const converted = convertValue(value!, source, target, mapping.transform);
+    if ('issue' in converted) {
+      issues.push({ fieldId, value, ...converted.issue });
+    } else {
+      migrated[target.id] = converted.value;
+    }
+  });
+
+  return { answers: migrated, issues };
+}
+
+/**
+ * Required fields of `template` a set of answers leaves empty. Run once on
+ * the final version, since intermediate versions' requirements don't matter.
+ */
+export function findMissingRequired(
+  answers: InspectionAnswers,
+  template: Template,
+  context: InspectionContext = {}
+): MigrationIssue[] {
+  const effective = resolveEffectiveTemplate(template, context).template;
+  return Object.values(effective.field_definitions)
+    .filter(field => field.required && isEmptyAnswer(answers[field.id]))
+    .map(field => ({
+      fieldId: field.id,
+      kind: 'missing_required' as const,
+      message: `"${field.label}" is required in version ${template.version} but has no answer`
+    }));
+}
+
+type Conversion =
+  | { value: ResponseValue }
+  | { issue: Pick<MigrationIssue, 'kind' | 'message'> };
+
+function convertValue(
+  value: ResponseValue,
+  source: FieldDefinition,
+  target: FieldDefinition,
+  transform?: ValueTransform
+): Conversion {
+  let result = value;
+
+  switch (transform?.kind) {
+    case 'toText':
+      result = typeof value === 'boolean' ? (value ? 'Yes' : 'No') : String(value);
+      break;
+    case 'toNumber': {
+      const number = typeof value === 'number' ? value : Number(String(value).trim());
+      if (String(value).trim() === '' || !Number.isFinite(number)) {
+        return {
+          issue: { kind: 'unconvertible', message: `"${value}" in "${source.label}" is not a number` }
+        };
+      }
+      result = number;
+      break;
+    }
+    case 'renameOptions':
+      if (typeof value === 'string' && transform.renames[value] !== undefined) {
+        result = transform.renames[value];
+      }
+      break;
+    case undefined:
+      if (source.type !== target.type) {
+        return {
+          issue: {
+            kind: 'type_changed',
+            message: `"${source.label}" changed from ${source.type} to ${target.type} with no transform declared`
+          }
+        };
+      }
+      break;
+  }
+
+  if (target.type === 'select' && target.options && !target.options.includes(result as string)) {
+    return {
+      issue: { kind: 'option_removed', message: `"${result}" is no longer an option for "${target.label}"` }
+    };
+  }
+  return { value: result };
+}
+
+function normalizeLabel(label: string): string {
+  return label.trim().toLowerCase();
+}
@@ -0,0 +1,162 @@
+import {
+  Template,
+  TemplateOverrides,
+  TemplateSection,
+  FieldDefinition,
+  TemplateDefinitionIssue,
+  InheritanceStatus,
+  InheritedValueStatus
+} from '../types';
+import { isDeepEqual } from './templateMerge';
+
+export interface ExtractedOverrides {
+  overrides: TemplateOverrides;
+  /** Edits to inherited content that overrides can't express */
+  issues: TemplateDefinitionIssue[];
+}
+
+/**
+ * Materialize an inheriting template: the base's sections and fields minus
+ * hidden fields, relabeled where the child says so, followed by the child's
+ * own sections. Name, version and lifecycle stay the child's.
+ */
+export function resolveInheritedTemplate(child: Template, base: Template): Template {
+  const overrides = child.overrides || {};
+  const hidden = new Set(overrides.hidden_fields || []);
+  const relabeled = overrides.relabeled_fields || {};
+
+  const field_definitions: Record<string, FieldDefinition> = {};
+  Object.entries(base.field_definitions).forEach(([fieldId, field]) => {
+    if (hidden.has(fieldId)) return;
+    field_definitions[fieldId] = relabeled[fieldId] !== undefined ? { ...field, label: relabeled[fieldId] } : field;
+  });
+  // The base wins if it has since defined a field the child added
+  Object.entries(overrides.added_fields || {}).forEach(([fieldId, field]) => {
+    if (!base.field_definitions[fieldId]) field_definitions[fieldId] = field;
+  });
+
+  const baseSectionIds = new Set(base.sections.map(section => section.id));
+  const sections: TemplateSection[] = [
+    ...base.sections.map(section => ({ ...section, fields: section.fields.filter(fieldId => !hidden.has(fieldId)) })),
+    ...(overrides.added_sections || [])
+      .filter(section => !baseSectionIds.has(section.id))
+      .map(section => ({ ...section, fields: section.fields.filter(fieldId => field_definitions[fieldId]) }))
+  ];
+
+  return {
+    ...child,
+    sections,
+    field_definitions,
+    inspection_variants: child.inspection_variants ?? base.inspection_variants
+  };
+}
+
+/**
+ * The overrides that turn `base` into `edited`. Inherited sections can't be
+ * retitled, reordered, removed or given new fields, and inherited fields can
+ * only be relabeled or hidden; anything else is reported as an issue.
+ */
+export function extractOverrides(base: Template, edited: Pick<Template, 'sections' | 'field_definitions'>): ExtractedOverrides {
+  const issues: TemplateDefinitionIssue[] = [];
+  const overrides: TemplateOverrides = {
+    added_sections: [],
+    added_fields: {},
+    hidden_fields: [],
+    relabeled_fields: {}
+  };
+
+  Object.entries(base.field_definitions).forEach(([fieldId, inherited]) => {
+    const field = edited.field_definitions[fieldId];
+    if (!field) {
+      overrides.hidden_fields!.push(fieldId);
+      return;
+    }
+    if (field.label !== inherited.label) {
+      overrides.relabeled_fields![fieldId] = field.label;
+    }
+    if (!isDeepEqual({ ...field, label: inherited.label }, inherited)) {
+      issues.push({ fieldId, message: `${inherited.label} is inherited; only its label can be changed` });
+    }
+  });
+
+  Object.entries(edited.field_definitions).forEach(([fieldId, field]) => {
+    if (!base.field_definitions[fieldId]) overrides.added_fields![fieldId] = field;
+  });
+
+  const hidden = new Set(overrides.hidden_fields);
+  base.sections.forEach(inherited => {
+    const section = edited.sections.find(candidate => candidate.id === inherited.id);
+    if (!section) {
+      issues.push({ fieldId: inherited.id, message: `Section "${inherited.title}" is inherited; hide its fields instead of removing it` });
+      return;
+    }
+    if (section.title !== inherited.title || section.order !== inherited.order) {
+      issues.push({ fieldId: inherited.id, message: `Section "${inherited.title}" is inherited and can't be retitled or moved` });
+    }
+    if (!isDeepEqual(section.fields, inherited.fields.filter(fieldId => !hidden.has(fieldId)))) {
+      issues.push({ fieldId: inherited.id, message: `Fields can't be added to or moved within inherited section "${inherited.title}"` });
+    }
+  });
+
+  const baseSectionIds = new Set(base.sections.map(section => section.id));
+  overrides.added_sections = edited.sections.filter(section => !baseSectionIds.has(section.id));
+
+  return { overrides, issues };
+}
+
+/**
+ * Which of a resolved template's sections and fields come from the base
+ * unchanged, which override it and which are the template's own. Works on
+ * unsaved edits too, as it compares against the base rather than the stored
+ * overrides.
+ */
+export function describeInheritance(template: Pick<Template, 'sections' | 'field_definitions'>, base: Template): InheritanceStatus {
+  const sections: Record<string, InheritedValueStatus> = {};
+  template.sections.forEach(section => {
+    sections[section.id] = base.sections.some(s => s.id === section.id) ? 'inherited' : 'added';
+  });
+
+  const fields: Record<string, InheritedValueStatus> = {};
+  Object.entries(template.field_definitions).forEach(([fieldId, field]) => {
+    const inherited = base.field_definitions[fieldId];
+    fields[fieldId] = !inherited ? 'added' : inherited.label !== field.label ? 'overridden' : 'inherited';
+  });
+
+  return {
+    base,
+    sections,
+    fields,
+    hiddenFields: Object.keys(base.field_definitions).filter(fieldId => !template.field_definitions[fieldId])
+  };
+}
+
+/**
+ * Overrides that no longer line up with a (new) base: hidden or relabeled
+ * fields it dropped, and added fields or sections it now defines itself
+ */
+export function findStaleOverrides(overrides: TemplateOverrides = {}, base: Template): TemplateDefinitionIssue[] {
+  const issues: TemplateDefinitionIssue[] = [];
+
+  (overrides.hidden_fields || []).forEach(fieldId => {
+    if (!base.field_definitions[fieldId]) {
+      issues.push({ fieldId, message: `Hidden field ${fieldId} is no longer in the base` });
+    }
+  });
+  Object.keys(overrides.relabeled_fields || {}).forEach(fieldId => {
+    if (!base.field_definitions[fieldId]) {
+      issues.push({ fieldId, message: `Relabeled field ${fieldId} is no longer in the base` });
+    }
+  });
+  Object.keys(overrides.added_fields || {}).forEach(fieldId => {
+    if (base.field_definitions[fieldId]) {
+      issues.push({ fieldId, message: `The base now defines ${fieldId} too; its definition replaces this template's` });
+    }
+  });
+  (overrides.added_sections || []).forEach(section => {
+    if (base.sections.some(s => s.id === section.id)) {
+      issues.push({ fieldId: section.id, message: `The base now has a section ${section.id} too; its section replaces "${section.title}"` });
+    }
+  });
+
+  return issues;
+}
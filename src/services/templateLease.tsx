@@ -0,0 +1,144 @@
+import {
+  SupabaseClient,
+  TemplateLease,
+  LockUnavailableError,
+  LeaseExpiredError,
+  NetworkError,
+  TenantIsolationError
+} from '../types';
+
+export interface LeaseOptions {
+  /** How long a lease lasts without renewal */
+  ttlMs?: number;
+  /** How long to keep retrying while another holder has the lease */
+  waitMs?: number;
+  /** Delay between acquisition attempts */
+  retryIntervalMs?: number;
+}
+
+const DEFAULT_TTL_MS = 30000;
+const DEFAULT_WAIT_MS = 3000;
+const DEFAULT_RETRY_INTERVAL_MS = 50;
+
+/**
+ * Acquire a lease on a template, waiting up to `waitMs` for the current
+ * holder to release it or for its lease to expire.
+ */
+export async function acquireLease(
+  supabase: SupabaseClient,
+  templateId: string,
+  holder: string,
+  options: LeaseOptions = {}
+): Promise<TemplateLease> {
+  const { ttlMs = DEFAULT_TTL_MS, waitMs = DEFAULT_WAIT_MS, retryIntervalMs = DEFAULT_RETRY_INTERVAL_MS } = options;
+  const deadline = Date.now() + waitMs;
+
+  while (true) {
+    const { data, error } = await supabase.rpc('acquire_template_lock', {
+      template_id: templateId,
+      holder,
+      ttl_ms: ttlMs
+    });
+
+    if (!error) {
+      return toLease(data);
+    }
+    if (isNetworkFailure(error)) {
+      throw new NetworkError(error.message);
+    }
+    if (error.code === '42501') {
+      throw new TenantIsolationError(`Template ${templateId} belongs to another organization`);
+    }
+    if (error.code !== 'LOCK_HELD' || Date.now() + retryIntervalMs > deadline) {
+      throw new LockUnavailableError(`Template ${templateId} is locked: ${error.message}`);
+    }
+
+    await new Promise(resolve => setTimeout(resolve, retryIntervalMs));
+  }
+}
+
+export async function renewLease(
+  supabase: SupabaseClient,
+  lease: TemplateLease,
+  ttlMs: number = DEFAULT_TTL_MS
+): Promise<TemplateLease> {
+  const { data, error } = await supabase.rpc('renew_template_lock', {
+    template_id: lease.templateId,
+    holder: lease.holder,
+    token: lease.token,
+    ttl_ms: ttlMs
+  });
+
+  if (error) {
+    throw new LeaseExpiredError(`Lease on template ${lease.templateId} was lost: ${error.message}`);
+  }
+  return toLease(data);
+}
+
+export async function releaseLease(supabase: SupabaseClient, lease: TemplateLease): Promise<void> {
+  const { error } = await supabase.rpc('release_template_lock', {
+    template_id: lease.templateId,
+    holder: lease.holder,
+    token: lease.token
+  });
+
+  if (error) {
+    // An unreleased lease simply expires; nothing else to clean up
+    console.error('Failed to release template lease:', error);
+  }
+}
+
+/**
+ * Run `criticalSection` while holding a lease on the template. The lease is
+ * renewed in the background at half its TTL and released afterwards; writes
+ * inside the section should carry `lease.token` as their fencing token.
+ */
+export async function withLease<T>(
+  supabase: SupabaseClient,
+  templateId: string,
+  holder: string,
+  criticalSection: (lease: TemplateLease) => Promise<T>,
+  options: LeaseOptions = {}
+): Promise<T> {
+  const ttlMs = options.ttlMs || DEFAULT_TTL_MS;
+  let lease = await acquireLease(supabase, templateId, holder, options);
+  let renewal: ReturnType<typeof setTimeout> | null = null;
+  // A renewal still in flight when the section ends must not schedule another
+  let released = false;
+
+  const scheduleRenewal = () => {
+    renewal = setTimeout(async () => {
+      try {
+        const renewed = await renewLease(supabase, lease, ttlMs);
+        if (released) return;
+        lease = renewed;
+        scheduleRenewal();
+      } catch (error) {
+        // Writes with the old token will now be fenced off by the server
+        if (!released) console.error(error);
+      }
+    }, ttlMs / 2);
+  };
+
+  scheduleRenewal();
+  try {
+    return await criticalSection(lease);
+  } finally {
+    released = true;
+    if (renewal) clearTimeout(renewal);
+    await releaseLease(supabase, lease);
+  }
+}
+
+function toLease(row: any): TemplateLease {
+  return {
+    templateId: row.template_id,
+    holder: row.holder,
+    token: row.token,
+    expiresAt: row.expires_at
+  };
+}
+
+function isNetworkFailure(error: any): boolean {
+  return /failed to fetch|network request failed/i.test(error?.message || '');
+}
@@ -0,0 +1,53 @@
+import { Template, TemplateState, PublishedTemplate } from '../types';
+
+export function getTemplateState(template: Template): TemplateState {
+  return template.state || 'published';
+}
+
+/**
+ * The template as inspectors see it, or null if it was never published.
+ * Rows from before lifecycles existed are live exactly as stored.
+ */
+export function getPublishedTemplate(template: Template): Template | null {
+  if (template.published) {
+    const { published_at, ...content } = template.published;
+    return { ...template, ...content };
+  }
+  return template.state ? null : template;
+}
+
+/**
+ * Whether the draft differs from what inspectors currently get
+ */
+export function hasUnpublishedChanges(template: Template): boolean {
+  const published = getPublishedTemplate(template);
+  return !published || published.version !== template.version;
+}
+
+/**
+ * Archived templates stay readable but aren't offered for new inspections
+ */
+export function isAvailableForInspections(template: Template): boolean {
+  return getTemplateState(template) === 'published' && getPublishedTemplate(template) !== null;
+}
+
+export function toPublishedSnapshot(template: Template, publishedAt: string = new Date().toISOString()): PublishedTemplate {
+  return {
+    name: template.name,
+    sections: template.sections,
+    field_definitions: template.field_definitions,
+    inspection_variants: template.inspection_variants,
+    version: template.version,
+    published_at: publishedAt
+  };
+}
+
+/**
+ * Columns to write alongside a draft edit. A row that predates lifecycles is
+ * live as stored, so its current content is frozen as the published version
+ * before the first draft edit lands on top of it.
+ */
+export function preserveLiveContent(current: Template | undefined): Partial<Template> {
+  if (!current || current.state) return {};
+  return { state: 'published', published: toPublishedSnapshot(current, current.updated_at) };
+}
@@ -0,0 +1,177 @@
+import {
+  Template,
+  TemplateUpdate,
+  TemplateSection,
+  FieldDefinition,
+  MergeConflict
+} from '../types';
+
+export interface MergeOutcome {
+  merged: Partial<TemplateUpdate>;
+  conflicts: MergeConflict[];
+}
+
+/**
+ * Structural equality for plain JSON values (the shape of our JSONB columns).
+ */
+export function isDeepEqual(a: any, b: any): boolean {
+  if (a === b) return true;
+  if (typeof a !== typeof b || a === null || b === null || typeof a !== 'object') {
+    return false;
+  }
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  if (Array.isArray(a)) {
+    return a.length === b.length && a.every((item, i) => isDeepEqual(item, b[i]));
+  }
+
+  const keysA = Object.keys(a).filter(key => a[key] !== undefined);
+  const keysB = Object.keys(b).filter(key => b[key] !== undefined);
+  if (keysA.length !== keysB.length) return false;
+  return keysA.every(key => isDeepEqual(a[key], b[key]));
+}
+
+/**
+ * Three-way merge of a user's update against the row that won the race.
+ *
+ * `base` is the template the user started editing from, `updates` is what they
+ * are trying to save and `current` is what is in the database now. Only the
+ * keys present in `updates` are merged; everything else already matches
+ * `current` and is left alone.
+ */
+export function mergeTemplateUpdate(
+  base: Template,
+  updates: Partial<TemplateUpdate>,
+  current: Template
+): MergeOutcome {
+  const merged: Partial<TemplateUpdate> = {};
+  const conflicts: MergeConflict[] = [];
+
+  (Object.keys(updates) as (keyof TemplateUpdate)[]).forEach(key => {
+    if (key === 'id' || key === 'version') return;
+
+    if (key === 'sections') {
+      merged.sections = mergeSections(
+        base.sections || [],
+        updates.sections || [],
+        current.sections || [],
+        conflicts
+      );
+      return;
+    }
+
+    if (key === 'field_definitions') {
+      merged.field_definitions = mergeKeyed<FieldDefinition>(
+        'field_definitions',
+        base.field_definitions || {},
+        updates.field_definitions || {},
+        current.field_definitions || {},
+        conflicts
+      );
+      return;
+    }
+
+    const value = mergeValue(key, (base as any)[key], (updates as any)[key], (current as any)[key], conflicts);
+    (merged as any)[key] = value;
+  });
+
+  return { merged, conflicts };
+}
+
+function mergeValue(path: string, base: any, ours: any, theirs: any, conflicts: MergeConflict[]): any {
+  if (isDeepEqual(ours, base)) return theirs;
+  if (isDeepEqual(theirs, base) || isDeepEqual(ours, theirs)) return ours;
+
+  conflicts.push({ path, base, ours, theirs });
+  return theirs;
+}
+
+/**
+ * Merge two id-keyed maps entry by entry, descending one level into each
+ * entry so edits to different properties of the same item don't clash.
+ */
+function mergeKeyed<T extends Record<string, any>>(
+  path: string,
+  base: Record<string, T>,
+  ours: Record<string, T>,
+  theirs: Record<string, T>,
+  conflicts: MergeConflict[]
+): Record<string, T> {
+  const result: Record<string, T> = {};
+  const ids = unique([...Object.keys(theirs), ...Object.keys(ours), ...Object.keys(base)]);
+
+  ids.forEach(id => {
+    const entry = mergeEntry(`${path}.${id}`, base[id], ours[id], theirs[id], conflicts);
+    if (entry !== undefined) {
+      result[id] = entry;
+    }
+  });
+
+  return result;
+}
+
+function mergeSections(
+  base: TemplateSection[],
+  ours: TemplateSection[],
+  theirs: TemplateSection[],
+  conflicts: MergeConflict[]
+): TemplateSection[] {
+  const byId = (sections: TemplateSection[]) =>
+    Object.fromEntries(sections.map(section => [section.id, section]));
+
+  const merged = mergeKeyed<TemplateSection>(
+    'sections',
+    byId(base),
+    byId(ours),
+    byId(theirs),
+    conflicts
+  );
+
+  // Keep the database's ordering and append sections that only we added
+  const ids = unique([...theirs.map(s => s.id), ...ours.map(s => s.id)]);
+  return ids.filter(id => merged[id]).map(id => merged[id]);
+}
+
+function mergeEntry<T extends Record<string, any>>(
+  path: string,
+  base: T | undefined,
+  ours: T | undefined,
+  theirs: T | undefined,
+  conflicts: MergeConflict[]
+): T | undefined {
+  if (isDeepEqual(ours, base)) return theirs;
+  if (isDeepEqual(theirs, base) || isDeepEqual(ours, theirs)) return ours;
+
+  // Added on both sides, or deleted on one side and edited on the other
+  if (!base || !ours || !theirs) {
+    conflicts.push({ path, base, ours, theirs });
+    return theirs;
+  }
+
+  const result: Record<string, any> = {};
+  unique([...Object.keys(theirs), ...Object.keys(ours), ...Object.keys(base)]).forEach(prop => {
+    const value = prop === 'fields'
+      ? mergeFieldIds(base.fields || [], ours.fields || [], theirs.fields || [])
+      : mergeValue(`${path}.${prop}`, base[prop], ours[prop], theirs[prop], conflicts);
+    if (value !== undefined) {
+      result[prop] = value;
+    }
+  });
+
+  return result as T;
+}
+
+/**
+ * A section's field list merges as a set: removals and additions from both
+ * sides are applied, with the database's ordering taking precedence.
+ */
+function mergeFieldIds(base: string[], ours: string[], theirs: string[]): string[] {
+  const removedByUs = base.filter(id => !ours.includes(id));
+  const addedByUs = ours.filter(id => !base.includes(id));
+
+  return unique([...theirs.filter(id => !removedByUs.includes(id)), ...addedByUs]);
+}
+
+function unique<T>(items: T[]): T[] {
+  return Array.from(new Set(items));
+}
@@ -0,0 +1,142 @@
+import { Template, TemplateFilter, TemplatePage, TemplateSort, TemplateSortKey, TemplateState } from '../types';
+import { getTemplateState } from './templateLifecycle';
+
+const SORT_KEYS: TemplateSortKey[] = ['name', 'updated_at', 'update_count'];
+const STATES: TemplateState[] = ['draft', 'published', 'archived'];
+
+/**
+ * Lower-cased words of `text`, with accents removed so "déjà" finds "deja"
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+/**
+ * Whether every word of `query` starts a word of the template's name, one
+ * of its section titles or one of its field labels
+ */
+export function matchesQuery(template: Template, query: string): boolean {
+  const words = tokenize(query);
+  if (words.length === 0) return true;
+
+  const searchable = tokenize([
+    template.name,
+    ...template.sections.map(section => section.title),
+    ...Object.values(template.field_definitions).map(field => field.label)
+  ].join(' '));
+  return words.every(word => searchable.some(candidate => candidate.startsWith(word)));
+}
+
+export function compareTemplates(sort: TemplateSort): (a: Template, b: Template) => number {
+  const descending = sort.startsWith('-');
+  const key = (descending ? sort.slice(1) : sort) as TemplateSortKey;
+  const byName = (a: Template, b: Template) => a.name.localeCompare(b.name) || a.id.localeCompare(b.id);
+
+  const byKey = (a: Template, b: Template): number => {
+    switch (key) {
+      case 'updated_at':
+        return Date.parse(a.updated_at) - Date.parse(b.updated_at);
+      case 'update_count':
+        return (a.update_count || 0) - (b.update_count || 0);
+      default:
+        return byName(a, b);
+    }
+  };
+
+  // Ties are always broken by name, so pages don't shuffle between requests
+  return (a, b) => (descending ? byKey(b, a) : byKey(a, b)) || byName(a, b);
+}
+
+/**
+ * The `updatedAfter` bound as a timestamp; a value that isn't a date
+ * filters nothing rather than everything
+ */
+export function updatedAfterTime(filter: TemplateFilter): number | undefined {
+  const time = filter.updatedAfter ? Date.parse(filter.updatedAfter) : NaN;
+  return isNaN(time) ? undefined : time;
+}
+
+/**
+ * Filter, sort and page templates the way getTemplates does
+ */
+export function searchTemplates(templates: Template[], filter: TemplateFilter = {}): TemplatePage {
+  const states = filter.state && (Array.isArray(filter.state) ? filter.state : [filter.state]);
+  const updatedAfter = updatedAfterTime(filter);
+
+  const matching = templates
+    .filter(template => !states || states.includes(getTemplateState(template)))
+    .filter(template => updatedAfter === undefined || Date.parse(template.updated_at) > updatedAfter)
+    .filter(template => matchesQuery(template, filter.query || ''))
+    .sort(compareTemplates(filter.sort || 'name'));
+
+  if (!filter.pageSize) {
+    return { templates: matching, total: matching.length, page: 1, pageSize: matching.length };
+  }
+
+  const { page, start } = pageStart(filter.page, filter.pageSize);
+  return {
+    templates: matching.slice(start, start + filter.pageSize),
+    total: matching.length,
+    page,
+    pageSize: filter.pageSize
+  };
+}
+
+/**
+ * The page to show (1-based, at least 1) and the 0-based index it starts at
+ */
+export function pageStart(page: number | undefined, pageSize: number): { page: number; start: number } {
+  const current = Math.max(1, Math.floor(page || 1));
+  return { page: current, start: (current - 1) * pageSize };
+}
+
+/**
+ * Read a filter from a URL query string, e.g. for a bookmarked search.
+ * Values that don't parse are ignored.
+ */
+export function parseTemplateFilter(search: string): TemplateFilter {
+  const params = new URLSearchParams(search);
+  const filter: TemplateFilter = {};
+
+  const query = params.get('q');
+  if (query) filter.query = query;
+
+  const states = (params.get('state') || '').split(',').filter((state): state is TemplateState =>
+    STATES.includes(state as TemplateState)
+  );
+  if (states.length > 0) filter.state = states.length === 1 ? states[0] : states;
+
+  const updatedAfter = params.get('updated_after') || undefined;
+  if (updatedAfterTime({ updatedAfter }) !== undefined) filter.updatedAfter = updatedAfter;
+
+  const sort = params.get('sort') || '';
+  if (SORT_KEYS.includes(sort.replace(/^-/, '') as TemplateSortKey)) filter.sort = sort as TemplateSort;
+
+  const page = Number(params.get('page'));
+  if (Number.isInteger(page) && page > 1) filter.page = page;
+
+  const pageSize = Number(params.get('page_size'));
+  if (Number.isInteger(pageSize) && pageSize > 0) filter.pageSize = pageSize;
+
+  return filter;
+}
+
+/**
+ * The URL query string (without "?") for a filter; the inverse of
+ * parseTemplateFilter. The organization is never put in the URL.
+ */
+export function formatTemplateFilter(filter: TemplateFilter): string {
+  const params = new URLSearchParams();
+  if (filter.query) params.set('q', filter.query);
+  if (filter.state) params.set('state', ([] as TemplateState[]).concat(filter.state).join(','));
+  if (filter.updatedAfter) params.set('updated_after', filter.updatedAfter);
+  if (filter.sort && filter.sort !== 'name') params.set('sort', filter.sort);
+  if (filter.page && filter.page > 1) params.set('page', String(filter.page));
+  if (filter.pageSize) params.set('page_size', String(filter.pageSize));
+  return params.toString();
+}
@@ -0,0 +1,148 @@
+import {
+  Template,
+  TemplateExportEnvelope,
+  ExportedTemplate,
+  TemplateImportError
+} from '../types';
+import { validateTemplateDefinition } from './validation';
+import { stripLibraryLinks } from './fieldLibrary';
+
+export const EXPORT_FORMAT = 'inspection-template';
+export const EXPORT_FORMAT_VERSION = 1;
+
+const CHECKSUM_PREFIX = 'fnv1a32:';
+
+/**
+ * Wrap a template in a versioned export envelope, leaving out everything
+ * that only makes sense in the organization it came from. Library content
+ * goes out as plain copies.
+ */
+export function exportTemplate(template: Template, exportedAt: Date = new Date()): TemplateExportEnvelope {
+  const { sections, field_definitions } = stripLibraryLinks(template);
+  const content: ExportedTemplate = {
+    id: template.id,
+    name: template.name,
+    sections,
+    field_definitions,
+    inspection_variants: template.inspection_variants || [],
+    version: template.version
+  };
+
+  return {
+    format: EXPORT_FORMAT,
+    format_version: EXPORT_FORMAT_VERSION,
+    exported_at: exportedAt.toISOString(),
+    source_org: template.organization_id,
+    checksum: templateChecksum(content),
+    template: content
+  };
+}
+
+/**
+ * Check an export envelope - from a file or already parsed - before
+ * importing it. Every problem found is listed on the thrown error.
+ */
+export function parseTemplateExport(input: unknown): TemplateExportEnvelope {
+  let envelope: any = input;
+  if (typeof input === 'string') {
+    try {
+      envelope = JSON.parse(input);
+    } catch (error) {
+      throw new TemplateImportError('Export is not valid JSON', [(error as Error).message]);
+    }
+  }
+
+  if (!isObject(envelope)) {
+    throw new TemplateImportError('Export is not a template envelope', ['Expected a JSON object']);
+  }
+
+  const problems: string[] = [];
+  if (envelope.format !== EXPORT_FORMAT) {
+    problems.push(`Unknown format "${envelope.format}"`);
+  }
+  if (!Number.isInteger(envelope.format_version) || envelope.format_version < 1) {
+    problems.push('format_version must be a positive integer');
+  } else if (envelope.format_version > EXPORT_FORMAT_VERSION) {
+    problems.push(`format_version ${envelope.format_version} is newer than supported (${EXPORT_FORMAT_VERSION})`);
+  }
+  if (typeof envelope.source_org !== 'string') {
+    problems.push('source_org is missing');
+  }
+  problems.push(...templateProblems(envelope.template));
+
+  if (problems.length === 0 && envelope.checksum !== templateChecksum(envelope.template)) {
+    problems.push('Checksum does not match the template; the export was modified or truncated');
+  }
+
+  if (problems.length > 0) {
+    throw new TemplateImportError(`Invalid template export: ${problems.join('; ')}`, problems);
+  }
+  return envelope as TemplateExportEnvelope;
+}
+
+export function templateChecksum(template: ExportedTemplate): string {
+  return CHECKSUM_PREFIX + fnv1a(stableStringify(template));
+}
+
+function templateProblems(template: any): string[] {
+  if (!isObject(template)) {
+    return ['template is missing'];
+  }
+
+  const problems: string[] = [];
+  if (typeof template.id !== 'string' || !template.id) problems.push('template.id is missing');
+  if (typeof template.name !== 'string' || !template.name) problems.push('template.name is missing');
+  if (typeof template.version !== 'string') problems.push('template.version is missing');
+
+  if (!Array.isArray(template.sections)) {
+    problems.push('template.sections must be an array');
+  } else {
+    template.sections.forEach((section: any, index: number) => {
+      if (!isObject(section) || typeof section.id !== 'string' || !Array.isArray(section.fields)) {
+        problems.push(`template.sections[${index}] needs an id and a fields list`);
+      }
+    });
+  }
+
+  if (!isObject(template.field_definitions)) {
+    problems.push('template.field_definitions must be an object');
+  } else {
+    validateTemplateDefinition(template.field_definitions)
+      .forEach(issue => problems.push(`${issue.fieldId}: ${issue.message}`));
+  }
+
+  if (template.inspection_variants !== undefined && !Array.isArray(template.inspection_variants)) {
+    problems.push('template.inspection_variants must be an array');
+  }
+  return problems;
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * JSON with object keys sorted, so equal templates always hash the same
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (isObject(value)) {
+    const entries = Object.keys(value)
+      .filter(key => value[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function fnv1a(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(16).padStart(8, '0');
+}
@@ -0,0 +1,304 @@
+import {
+  Template,
+  FieldDefinition,
+  FieldType,
+  ValidationRule,
+  ComparisonOperator,
+  InspectionAnswers,
+  ResponseValue,
+  FieldValidationError,
+  ValidationResult,
+  TemplateDefinitionIssue
+} from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Field types each rule kind can be attached to
+ */
+const RULE_FIELD_TYPES: Record<ValidationRule['kind'], FieldType[]> = {
+  min: ['number'],
+  max: ['number'],
+  minLength: ['text'],
+  maxLength: ['text'],
+  pattern: ['text'],
+  dateRange: ['date'],
+  compareField: ['number', 'date']
+};
+
+const OPERATOR_LABELS: Record<'number' | 'date', Record<ComparisonOperator, string>> = {
+  number: {
+    eq: 'equal to',
+    neq: 'different from',
+    lt: 'less than',
+    lte: 'at most',
+    gt: 'greater than',
+    gte: 'at least'
+  },
+  date: {
+    eq: 'the same day as',
+    neq: 'a different day from',
+    lt: 'before',
+    lte: 'on or before',
+    gt: 'after',
+    gte: 'on or after'
+  }
+};
+
+export interface ValidateOptions {
+  /** Reference point for relative date rules; defaults to now */
+  now?: Date;
+}
+
+/**
+ * Validate a set of answers against a template's field definitions.
+ * Rules other than `required` are skipped for empty answers.
+ */
+export function validateResponse(
+  template: Template,
+  answers: InspectionAnswers,
+  options: ValidateOptions = {}
+): ValidationResult {
+  const errors: Record<string, FieldValidationError[]> = {};
+
+  Object.values(template.field_definitions).forEach(field => {
+    const fieldErrors = validateField(field, answers, template, options);
+    if (fieldErrors.length > 0) {
+      errors[field.id] = fieldErrors;
+    }
+  });
+
+  return { valid: Object.keys(errors).length === 0, errors };
+}
+
+/**
+ * Check that a template's rules make sense before it is saved: bounds in
+ * order, regexes that compile, rules on the right field types and
+ * cross-field references that exist.
+ */
+export function validateTemplateDefinition(
+  fieldDefinitions: Record<string, FieldDefinition>
+): TemplateDefinitionIssue[] {
+  const issues: TemplateDefinitionIssue[] = [];
+  const issue = (fieldId: string, message: string) => issues.push({ fieldId, message });
+
+  Object.entries(fieldDefinitions).forEach(([fieldId, field]) => {
+    if (field.type === 'select' && (!field.options || field.options.length === 0)) {
+      issue(fieldId, `"${field.label}" is a select field with no options`);
+    }
+
+    if (!Array.isArray(field.validation || [])) {
+      issue(fieldId, `"${field.label}" has malformed validation rules`);
+      return;
+    }
+    const rules = (field.validation || []).filter(rule => {
+      if (rule && typeof rule === 'object') return true;
+      issue(fieldId, `"${field.label}" has a malformed validation rule`);
+      return false;
+    });
+
+    rules.forEach(rule => {
+      const allowedTypes = RULE_FIELD_TYPES[rule.kind];
+      if (!allowedTypes) {
+        issue(fieldId, `Unknown validation rule "${(rule as any).kind}"`);
+        return;
+      }
+      if (!allowedTypes.includes(field.type)) {
+        issue(fieldId, `Rule "${rule.kind}" cannot be used on ${field.type} field "${field.label}"`);
+        return;
+      }
+
+      switch (rule.kind) {
+        case 'min':
+        case 'max':
+          if (typeof rule.value !== 'number' || !Number.isFinite(rule.value)) {
+            issue(fieldId, `"${rule.kind}" must be a number`);
+          }
+          break;
+        case 'minLength':
+        case 'maxLength':
+          if (!Number.isInteger(rule.value) || rule.value < 0) {
+            issue(fieldId, `"${rule.kind}" must be a non-negative whole number`);
+          }
+          break;
+        case 'pattern':
+          try {
+            new RegExp(rule.pattern, rule.flags);
+          } catch (err) {
+            issue(fieldId, `Pattern "${rule.pattern}" is not a valid regular expression`);
+          }
+          break;
+        case 'dateRange':
+          if (rule.minDaysFromToday === undefined && rule.maxDaysFromToday === undefined) {
+            issue(fieldId, 'Date range needs a minimum or a maximum');
+          }
+          break;
+        case 'compareField': {
+          const other = fieldDefinitions[rule.field];
+          if (!other) {
+            issue(fieldId, `Rule refers to unknown field "${rule.field}"`);
+          } else if (other.type !== field.type) {
+            issue(fieldId, `Cannot compare ${field.type} field with ${other.type} field "${other.label}"`);
+          } else if (rule.field === fieldId) {
+            issue(fieldId, 'A field cannot be compared with itself');
+          }
+          break;
+        }
+      }
+    });
+
+    const bound = (kind: ValidationRule['kind']) =>
+      (rules.find(rule => rule.kind === kind) as { value?: number } | undefined)?.value;
+
+    const min = bound('min');
+    const max = bound('max');
+    if (min !== undefined && max !== undefined && min > max) {
+      issue(fieldId, `Minimum ${min} is greater than maximum ${max}`);
+    }
+
+    const minLength = bound('minLength');
+    const maxLength = bound('maxLength');
+    if (minLength !== undefined && maxLength !== undefined && minLength > maxLength) {
+      issue(fieldId, `Minimum length ${minLength} is greater than maximum length ${maxLength}`);
+    }
+
+    const range = rules.find(rule => rule.kind === 'dateRange') as
+      Extract<ValidationRule, { kind: 'dateRange' }> | undefined;
+    if (
+      range?.minDaysFromToday !== undefined &&
+      range.maxDaysFromToday !== undefined &&
+      range.minDaysFromToday > range.maxDaysFromToday
+    ) {
+      issue(fieldId, 'Date range minimum is after its maximum');
+    }
+  });
+
+  return issues;
+}
+
+export function isEmptyAnswer(value: ResponseValue | undefined): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+function validateField(
+  field: FieldDefinition,
+  answers: InspectionAnswers,
+  template: Template,
+  options: ValidateOptions
+): FieldValidationError[] {
+  const value = answers[field.id];
+  const error = (rule: FieldValidationError['rule'], message: string): FieldValidationError[] =>
+    [{ fieldId: field.id, rule, message }];
+
+  if (isEmptyAnswer(value)) {
+    return field.required ? error('required', `${field.label} is required`) : [];
+  }
+
+  const typeError = checkType(field, value!);
+  if (typeError) {
+    return error('type', typeError);
+  }
+
+  if (field.type === 'select' && field.options && !field.options.includes(value as string)) {
+    return error('options', `${field.label} must be one of: ${field.options.join(', ')}`);
+  }
+
+  const errors: FieldValidationError[] = [];
+  (field.validation || []).forEach(rule => {
+    const message = checkRule(rule, field, value!, answers, template, options);
+    if (message) {
+      errors.push({ fieldId: field.id, rule: rule.kind, message: rule.message || message });
+    }
+  });
+  return errors;
+}
+
+function checkType(field: FieldDefinition, value: ResponseValue): string | null {
+  switch (field.type) {
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value) ? null : `${field.label} must be a number`;
+    case 'checkbox':
+      return typeof value === 'boolean' ? null : `${field.label} must be checked or unchecked`;
+    case 'date':
+      return typeof value === 'string' && !isNaN(Date.parse(value)) ? null : `${field.label} must be a date`;
+    case 'text':
+    case 'select':
+      return typeof value === 'string' ? null : `${field.label} must be text`;
+  }
+}
+
+function checkRule(
+  rule: ValidationRule,
+  field: FieldDefinition,
+  value: ResponseValue,
+  answers: InspectionAnswers,
+  template: Template,
+  options: ValidateOptions
+): string | null {
+  switch (rule.kind) {
+    case 'min':
+      return (value as number) < rule.value ? `${field.label} must be at least ${rule.value}` : null;
+    case 'max':
+      return (value as number) > rule.value ? `${field.label} must be at most ${rule.value}` : null;
+    case 'minLength':
+      return (value as string).length < rule.value
+        ? `${field.label} must be at least ${rule.value} characters`
+        : null;
+    case 'maxLength':
+      return (value as string).length > rule.value
+        ? `${field.label} must be at most ${rule.value} characters`
+        : null;
+    case 'pattern':
+      return new RegExp(rule.pattern, rule.flags).test(value as string)
+        ? null
+        : `${field.label} is not in the expected format`;
+    case 'dateRange': {
+      const days = daysFromToday(value as string, options.now || new Date());
+      if (rule.minDaysFromToday !== undefined && days < rule.minDaysFromToday) {
+        return `${field.label} is too far in the past`;
+      }
+      if (rule.maxDaysFromToday !== undefined && days > rule.maxDaysFromToday) {
+        return `${field.label} is too far in the future`;
+      }
+      return null;
+    }
+    case 'compareField': {
+      const other = answers[rule.field];
+      const otherField = template.field_definitions[rule.field];
+      if (isEmptyAnswer(other) || !otherField) return null;
+
+      // Dates are compared by calendar day, as their labels say
+      const [a, b] = field.type === 'date'
+        ? [calendarDay(new Date(value as string)), calendarDay(new Date(other as string))]
+        : [value as number, other as number];
+      return compare(a, b, rule.operator)
+        ? null
+        : `${field.label} must be ${OPERATOR_LABELS[field.type as 'number' | 'date'][rule.operator]} ${otherField.label}`;
+    }
+  }
+}
+
+function compare(a: number, b: number, operator: ComparisonOperator): boolean {
+  switch (operator) {
+    case 'eq': return a === b;
+    case 'neq': return a !== b;
+    case 'lt': return a < b;
+    case 'lte': return a <= b;
+    case 'gt': return a > b;
+    case 'gte': return a >= b;
+  }
+}
+
+/**
+ * Whole calendar days between today and a YYYY-MM-DD date, in UTC
+ */
+function daysFromToday(date: string, now: Date): number {
+  return Math.round((calendarDay(new Date(date)) - calendarDay(now)) / DAY_MS);
+}
+
+/**
+ * Midnight UTC on the day of `date`
+ */
+function calendarDay(date: Date): number {
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
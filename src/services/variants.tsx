@@ -0,0 +1,189 @@
+import {
+  Template,
+  FieldDefinition,
+  Condition,
+  ConditionOperator,
+  InspectionContext,
+  InspectionVariant,
+  VariantMatch,
+  VariantOverlap,
+  EffectiveTemplate
+} from '../types';
+import { isDeepEqual } from './templateMerge';
+
+export interface ConditionResult {
+  matched: boolean;
+  reasons: string[];
+}
+
+/**
+ * Evaluate a condition against an inspection context, explaining the outcome.
+ */
+export function evaluateCondition(condition: Condition | undefined, context: InspectionContext): ConditionResult {
+  if (!condition) {
+    return { matched: true, reasons: ['no conditions'] };
+  }
+
+  if ('all' in condition) {
+    const results = condition.all.map(c => evaluateCondition(c, context));
+    const failed = results.filter(r => !r.matched);
+    return failed.length === 0
+      ? { matched: true, reasons: results.flatMap(r => r.reasons) }
+      : { matched: false, reasons: failed.flatMap(r => r.reasons) };
+  }
+
+  if ('any' in condition) {
+    const results = condition.any.map(c => evaluateCondition(c, context));
+    const passed = results.find(r => r.matched);
+    return passed
+      ? { matched: true, reasons: passed.reasons }
+      : { matched: false, reasons: results.flatMap(r => r.reasons) };
+  }
+
+  if ('not' in condition) {
+    const inner = evaluateCondition(condition.not, context);
+    return { matched: !inner.matched, reasons: inner.reasons.map(reason => `not (${reason})`) };
+  }
+
+  const actual = context[condition.attribute];
+  const matched = compareAttribute(actual, condition.operator, condition.value);
+  const expected = condition.operator === 'exists' ? '' : ` ${JSON.stringify(condition.value)}`;
+  return {
+    matched,
+    reasons: [`${condition.attribute} ${condition.operator}${expected} (was ${JSON.stringify(actual)})`]
+  };
+}
+
+/**
+ * Resolve the template an inspector actually fills in for a given context.
+ *
+ * Matching variants are applied in precedence order: lower `priority` first,
+ * then less specific conditions before more specific ones, then declaration
+ * order. Later variants win where two override the same field property
+ * differently; every such clash is reported in `overlaps`.
+ */
+export function resolveEffectiveTemplate(template: Template, context: InspectionContext): EffectiveTemplate {
+  const variants = template.inspection_variants || [];
+
+  const matches: VariantMatch[] = variants.map(variant => ({
+    variantId: variant.id,
+    name: variant.name,
+    ...evaluateCondition(variant.conditions, context)
+  }));
+
+  const ordered = variants
+    .map((variant, index) => ({ variant, index }))
+    .filter(({ index }) => matches[index].matched)
+    .sort((a, b) =>
+      (a.variant.priority || 0) - (b.variant.priority || 0) ||
+      specificity(a.variant.conditions) - specificity(b.variant.conditions) ||
+      a.index - b.index
+    )
+    .map(({ variant }) => variant);
+
+  return {
+    template: applyOverrides(template, ordered),
+    matches,
+    applied: ordered.map(variant => variant.id),
+    overlaps: findOverlaps(ordered)
+  };
+}
+
+/**
+ * The template with one variant's overrides applied, whatever its
+ * conditions. Throws if the template has no such variant.
+ */
+export function applyVariant(template: Template, variantId: string): Template {
+  const variant = (template.inspection_variants || []).find(v => v.id === variantId);
+  if (!variant) {
+    throw new Error(`Template ${template.id} has no variant "${variantId}"`);
+  }
+  return applyOverrides(template, [variant]);
+}
+
+function applyOverrides(template: Template, variants: InspectionVariant[]): Template {
+  const fieldDefinitions: Record<string, FieldDefinition> = { ...template.field_definitions };
+  const hidden = new Set<string>();
+
+  variants.forEach(variant => {
+    Object.entries(variant.fieldOverrides || {}).forEach(([fieldId, override]) => {
+      if (!fieldDefinitions[fieldId]) return;
+
+      const { hidden: hide, ...changes } = override;
+      if (hide !== undefined) {
+        hide ? hidden.add(fieldId) : hidden.delete(fieldId);
+      }
+      fieldDefinitions[fieldId] = { ...fieldDefinitions[fieldId], ...changes, id: fieldId };
+    });
+  });
+
+  hidden.forEach(fieldId => delete fieldDefinitions[fieldId]);
+
+  // Variants have been applied, so the effective template carries none
+  const { inspection_variants, ...rest } = template;
+  return {
+    ...rest,
+    field_definitions: fieldDefinitions,
+    sections: template.sections.map(section => ({
+      ...section,
+      fields: section.fields.filter(fieldId => !hidden.has(fieldId))
+    }))
+  };
+}
+
+function findOverlaps(variants: InspectionVariant[]): VariantOverlap[] {
+  const seen = new Map<string, { fieldId: string; property: string; variantIds: string[]; values: any[] }>();
+
+  variants.forEach(variant => {
+    Object.entries(variant.fieldOverrides || {}).forEach(([fieldId, override]) => {
+      Object.entries(override).forEach(([property, value]) => {
+        const key = `${fieldId}\u0000${property}`;
+        const entry = seen.get(key) || { fieldId, property, variantIds: [], values: [] };
+        entry.variantIds.push(variant.id);
+        entry.values.push(value);
+        seen.set(key, entry);
+      });
+    });
+  });
+
+  return Array.from(seen.values()).filter(entry =>
+    entry.values.some(value => !isDeepEqual(value, entry.values[0]))
+  );
+}
+
+function compareAttribute(actual: InspectionContext[string], operator: ConditionOperator, expected: any): boolean {
+  switch (operator) {
+    case 'exists':
+      return actual !== undefined && actual !== null && actual !== '';
+    case 'eq':
+      return actual === expected;
+    case 'neq':
+      return actual !== expected;
+    case 'in':
+      return Array.isArray(expected) && expected.includes(actual as string | number);
+    case 'notIn':
+      return Array.isArray(expected) && !expected.includes(actual as string | number);
+    case 'lt':
+      return actual !== undefined && actual < expected;
+    case 'lte':
+      return actual !== undefined && actual <= expected;
+    case 'gt':
+      return actual !== undefined && actual > expected;
+    case 'gte':
+      return actual !== undefined && actual >= expected;
+  }
+}
+
+/**
+ * Number of attribute comparisons a condition makes; a rough measure of how
+ * narrowly a variant targets inspections
+ */
+function specificity(condition: Condition | undefined): number {
+  if (!condition) return 0;
+  if ('all' in condition) return condition.all.reduce((sum, c) => sum + specificity(c), 0);
+  if ('any' in condition) {
+    return condition.any.length > 0 ? Math.min(...condition.any.map(specificity)) : 0;
+  }
+  if ('not' in condition) return specificity(condition.not);
+  return 1;
+}
@@ -0,0 +1,145 @@
+import {
+  Template,
+  FieldDefinition,
+  VersionBump,
+  VersionChange,
+  VersionChangeReason
+} from '../types';
+import { isDeepEqual } from './templateMerge';
+
+const BUMP_RANK: Record<VersionBump, number> = { patch: 0, minor: 1, major: 2 };
+
+/**
+ * Work out how a template edit should move its semantic version.
+ *
+ * Major: changes that can invalidate existing responses - removed fields,
+ * changed field types, optional fields made required, removed select options.
+ * Minor: additive or behavioural changes - new fields, sections and options,
+ * relaxed requirements, validation and variant changes.
+ * Patch: everything else, such as renames and reordering.
+ */
+export function classifyTemplateChange(before: Template, after: Template): VersionChange {
+  const reasons: VersionChangeReason[] = [];
+  const reason = (bump: VersionBump, message: string, target?: string) =>
+    reasons.push({ bump, message, target });
+
+  const oldFields = before.field_definitions || {};
+  const newFields = after.field_definitions || {};
+
+  Object.entries(oldFields).forEach(([fieldId, oldField]) => {
+    const newField = newFields[fieldId];
+    if (!newField) {
+      reason('major', `Field "${oldField.label}" was removed`, fieldId);
+    } else {
+      classifyFieldChange(oldField, newField, reason);
+    }
+  });
+  Object.entries(newFields).forEach(([fieldId, newField]) => {
+    if (!oldFields[fieldId]) {
+      reason('minor', `Field "${newField.label}" was added`, fieldId);
+    }
+  });
+
+  const oldSections = new Map(before.sections.map(section => [section.id, section]));
+  const newSections = new Map(after.sections.map(section => [section.id, section]));
+
+  oldSections.forEach((oldSection, sectionId) => {
+    const newSection = newSections.get(sectionId);
+    if (!newSection) {
+      reason('minor', `Section "${oldSection.title}" was removed`, sectionId);
+      return;
+    }
+    if (oldSection.title !== newSection.title) {
+      reason('patch', `Section "${oldSection.title}" was renamed to "${newSection.title}"`, sectionId);
+    }
+    if (!isDeepEqual([...oldSection.fields].sort(), [...newSection.fields].sort())) {
+      reason('minor', `Fields in section "${newSection.title}" changed`, sectionId);
+    } else if (!isDeepEqual(oldSection.fields, newSection.fields) || oldSection.order !== newSection.order) {
+      reason('patch', `Section "${newSection.title}" was reordered`, sectionId);
+    }
+  });
+  newSections.forEach((newSection, sectionId) => {
+    if (!oldSections.has(sectionId)) {
+      reason('minor', `Section "${newSection.title}" was added`, sectionId);
+    }
+  });
+
+  if (before.name !== after.name) {
+    reason('patch', `Template renamed to "${after.name}"`);
+  }
+  if (!isDeepEqual(before.inspection_variants || [], after.inspection_variants || [])) {
+    reason('minor', 'Inspection variants changed');
+  }
+
+  const bump = reasons.reduce<VersionBump>(
+    (highest, r) => BUMP_RANK[r.bump] > BUMP_RANK[highest] ? r.bump : highest,
+    'patch'
+  );
+  return { bump, reasons };
+}
+
+/**
+ * Order dotted version strings numerically (1.0.10 after 1.0.9)
+ */
+export function compareVersions(a: string, b: string): number {
+  const partsA = a.split('.').map(part => parseInt(part) || 0);
+  const partsB = b.split('.').map(part => parseInt(part) || 0);
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    const diff = (partsA[i] || 0) - (partsB[i] || 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+/**
+ * Apply a bump to a major.minor.patch version string
+ */
+export function bumpVersion(version: string, bump: VersionBump): string {
+  const [major, minor, patch] = version.split('.').map(part => parseInt(part) || 0);
+  switch (bump) {
+    case 'major':
+      return `${major + 1}.0.0`;
+    case 'minor':
+      return `${major}.${(minor || 0) + 1}.0`;
+    case 'patch':
+      return `${major}.${minor || 0}.${(patch || 0) + 1}`;
+  }
+}
+
+function classifyFieldChange(
+  oldField: FieldDefinition,
+  newField: FieldDefinition,
+  reason: (bump: VersionBump, message: string, target?: string) => void
+): void {
+  const fieldId = newField.id;
+  const label = newField.label;
+
+  if (oldField.type !== newField.type) {
+    reason('major', `Field "${label}" changed type from ${oldField.type} to ${newField.type}`, fieldId);
+  }
+
+  if (!oldField.required && newField.required) {
+    reason('major', `Field "${label}" is now required`, fieldId);
+  } else if (oldField.required && !newField.required) {
+    reason('minor', `Field "${label}" is now optional`, fieldId);
+  }
+
+  const oldOptions = oldField.options || [];
+  const newOptions = newField.options || [];
+  const removed = oldOptions.filter(option => !newOptions.includes(option));
+  const added = newOptions.filter(option => !oldOptions.includes(option));
+  if (removed.length > 0) {
+    reason('major', `Field "${label}" no longer offers ${removed.map(o => `"${o}"`).join(', ')}`, fieldId);
+  }
+  if (added.length > 0) {
+    reason('minor', `Field "${label}" now offers ${added.map(o => `"${o}"`).join(', ')}`, fieldId);
+  }
+
+  if (!isDeepEqual(oldField.validation || [], newField.validation || [])) {
+    reason('minor', `Validation rules for "${label}" changed`, fieldId);
+  }
+
+  if (oldField.label !== newField.label) {
+    reason('patch', `Field "${oldField.label}" was relabeled to "${newField.label}"`, fieldId);
+  }
+}
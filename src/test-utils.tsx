@@ -2,134 +2,349 @@
  * Test utilities and mock implementations
  */
 
-import { SupabaseClient, QueryBuilder } from './types';
+import {
+  SupabaseClient,
+  QueryBuilder,
+  QueryResult,
+  SelectOptions,
+  UpsertOptions,
+  OrderOptions,
+  JsonPatchError,
+  RealtimeChannel,
+  RealtimeChangePayload,
+  RealtimeEvent
+} from './types';
+import { applyPatch, validatePatch, PATCHABLE_COLUMNS } from './services/jsonPatch';
+import { validateTemplateDefinition } from './services/validation';
+import { preserveLiveContent, getPublishedTemplate, toPublishedSnapshot } from './services/templateLifecycle';
+
+export const TEMPLATES_TABLE = 'template_library';
+const HISTORY_TABLE = 'template_history';
+
+const DEFAULT_LEASE_TTL_MS = 30000;
+
+/**
+ * The signed-in user a mock client acts as. Clients without one act with the
+ * service role and bypass row-level security.
+ */
+export interface MockAuth {
+  orgId: string;
+  userId?: string;
+}
+
+/**
+ * Row-level security policy: whether `auth` may see and write `row`
+ */
+export type RowPolicy = (row: any, auth: MockAuth) => boolean;
+
+/**
+ * Default policy for every table: rows carrying an organization_id belong
+ * to that organization only
+ */
+export const organizationPolicy: RowPolicy = (row, auth) =>
+  row.organization_id === undefined || row.organization_id === auth.orgId;
+
+const RLS_VIOLATION = '42501';
+
+interface MockLease {
+  holder: string;
+  token: number;
+  expiresAt: number;
+}
 
 /**
  * Mock database storage
+ *
+ * Rows are kept per table and keyed by id. The id-only helpers (set, get,
+ * update, ...) default to the template_library table.
  */
 export class MockDatabase {
-  private storage = new Map<string, any>();
-  private locks = new Map<string, boolean>();
+  private tables = new Map<string, Map<string, any>>();
+  private policies = new Map<string, RowPolicy>();
+  private locks = new Map<string, MockLease>();
+  private fencingTokens = new Map<string, number>();
+  private online = true;
+  private changeListeners = new Set<(payload: RealtimeChangePayload) => void>();
+  private nextRowId = 1;
+  private now: () => number;
+
+  constructor(options: { now?: () => number } = {}) {
+    this.now = options.now || Date.now;
+  }
+
+  /**
+   * Simulate losing (or regaining) the network connection
+   */
+  setOnline(online: boolean) {
+    this.online = online;
+  }
+
+  isOnline(): boolean {
+    return this.online;
+  }
 
-  set(id: string, data: any) {
-    this.storage.set(id, { ...data });
+  set(id: string, data: any, table: string = TEMPLATES_TABLE) {
+    const old = this.get(id, table);
+    this.table(table).set(id, { ...data });
+    this.emit(table, old ? 'UPDATE' : 'INSERT', this.get(id, table), old);
   }
 
-  get(id: string) {
-    const data = this.storage.get(id);
+  get(id: string, table: string = TEMPLATES_TABLE) {
+    const data = this.table(table).get(id);
     return data ? { ...data } : null;
   }
 
-  update(id: string, updates: any, whereConditions?: any): boolean {
-    const existing = this.get(id);
+  all(table: string = TEMPLATES_TABLE): any[] {
+    return Array.from(this.table(table).values()).map(data => ({ ...data }));
+  }
+
+  /**
+   * Insert a new row, generating an id if it has none. Returns null when a
+   * row with the same id already exists.
+   */
+  insert(table: string, data: any): any | null {
+    const id = data.id ?? `${table}-${this.nextRowId++}`;
+    if (this.table(table).has(id)) return null;
+
+    this.set(id, { ...data, id }, table);
+    return this.get(id, table);
+  }
+
+  delete(id: string, table: string = TEMPLATES_TABLE): boolean {
+    const old = this.get(id, table);
+    if (!old) return false;
+    this.table(table).delete(id);
+    this.emit(table, 'DELETE', null, old);
+    return true;
+  }
+
+  /**
+   * Replace the row-level security policy for a table
+   */
+  setRowPolicy(table: string, policy: RowPolicy) {
+    this.policies.set(table, policy);
+  }
+
+  /**
+   * Whether a client signed in as `auth` may see or write `row`
+   */
+  canAccess(table: string, row: any, auth?: MockAuth): boolean {
+    if (!auth || !row) return true;
+    const policy = this.policies.get(table) || organizationPolicy;
+    return policy(row, auth);
+  }
+
+  /**
+   * Listen for row changes, as a realtime subscription would see them
+   */
+  onChange(listener: (payload: RealtimeChangePayload) => void): () => void {
+    this.changeListeners.add(listener);
+    return () => {
+      this.changeListeners.delete(listener);
+    };
+  }
+
+  private table(name: string): Map<string, any> {
+    if (!this.tables.has(name)) {
+      this.tables.set(name, new Map());
+    }
+    return this.tables.get(name)!;
+  }
+
+  private emit(table: string, eventType: RealtimeChangePayload['eventType'], row: any, old: any) {
+    const payload: RealtimeChangePayload = {
+      eventType,
+      table,
+      new: row,
+      old,
+      commit_timestamp: new Date().toISOString()
+    };
+    this.changeListeners.forEach(listener => listener(payload));
+  }
+
+  update(id: string, updates: any, whereConditions?: any, table: string = TEMPLATES_TABLE): boolean {
+    const existing = this.get(id, table);
     if (!existing) return false;
 
+    // Writes to a leased template must carry the current lease's token
+    const { fencing_token, ...values } = updates;
+    if (table === TEMPLATES_TABLE && this.checkFencingToken(id, fencing_token)) {
+      return false;
+    }
+
     // Check version if optimistic locking is used
     if (whereConditions?.version && existing.version !== whereConditions.version) {
       return false;
     }
+    const { version, ...filters } = whereConditions || {};
+    if (Object.entries(filters).some(([column, value]) => existing[column] !== value)) {
+      return false;
+    }
 
-    this.set(id, { ...existing, ...updates });
+    this.set(id, { ...existing, ...values }, table);
     return true;
   }
 
-  acquireLock(id: string): boolean {
-    if (this.locks.get(id)) return false;
-    this.locks.set(id, true);
-    return true;
+  /**
+   * Grant a lease unless another holder has an unexpired one
+   */
+  acquireLock(id: string, holder: string = 'anonymous', ttlMs: number = DEFAULT_LEASE_TTL_MS): MockLease | null {
+    const current = this.getLease(id);
+    if (current && current.holder !== holder) return null;
+
+    const token = (this.fencingTokens.get(id) || 0) + 1;
+    this.fencingTokens.set(id, token);
+
+    const lease = { holder, token, expiresAt: this.now() + ttlMs };
+    this.locks.set(id, lease);
+    return { ...lease };
   }
 
-  releaseLock(id: string): void {
-    this.locks.delete(id);
+  /**
+   * Extend a lease. Only the current, unexpired lease can be renewed.
+   */
+  renewLock(id: string, holder: string, token: number, ttlMs: number = DEFAULT_LEASE_TTL_MS): MockLease | null {
+    const current = this.getLease(id);
+    if (!current || current.holder !== holder || current.token !== token) return null;
+
+    current.expiresAt = this.now() + ttlMs;
+    return { ...current };
+  }
+
+  releaseLock(id: string, token?: number): void {
+    const current = this.locks.get(id);
+    if (current && (token === undefined || current.token === token)) {
+      this.locks.delete(id);
+    }
+  }
+
+  getLease(id: string): MockLease | null {
+    const lease = this.locks.get(id);
+    if (!lease || lease.expiresAt <= this.now()) return null;
+    return lease;
+  }
+
+  /**
+   * Why a write with this fencing token must be rejected, or null if it may
+   * proceed. Tokens from superseded or expired leases are always stale.
+   */
+  checkFencingToken(id: string, token?: number): string | null {
+    const lease = this.getLease(id);
+    if (token === undefined) {
+      return lease ? `Template ${id} is locked by ${lease.holder}` : null;
+    }
+    if (!lease || lease.token !== token) {
+      return `Lock token ${token} for template ${id} is no longer valid`;
+    }
+    return null;
   }
 
   clear() {
-    this.storage.clear();
+    this.tables.clear();
     this.locks.clear();
+    this.fencingTokens.clear();
   }
 }
 
 /**
- * Create a mock Supabase client for testing
+ * Narrow a row to a select() column list such as 'id, version'
+ */
+function pickColumns(row: any, columns?: string): any {
+  if (!columns || columns.trim() === '*') return row;
+
+  const picked: any = {};
+  columns.split(',').map(column => column.trim()).forEach(column => {
+    if (column in row) picked[column] = row[column];
+  });
+  return picked;
+}
+
+function rlsViolation(table: string) {
+  return { code: RLS_VIOLATION, message: `Row-level security policy for table "${table}" denied access` };
+}
+
+/**
+ * Create a mock Supabase client for testing. With `auth`, the client is
+ * subject to row-level security: rows it may not access are left out of
+ * listings, and reading or writing one by id is rejected.
  */
-export function createMockSupabase(db: MockDatabase): SupabaseClient {
+export function createMockSupabase(db: MockDatabase, options: { auth?: MockAuth } = {}): SupabaseClient {
+  const { auth } = options;
+  const denied = (table: string, row: any) => !db.canAccess(table, row, auth);
+
   return {
     from(table: string): QueryBuilder {
-      let query: any = { table };
-      let chainedOps: any[] = [];
+      const query: MockQuery = { action: 'select', filters: [], orders: [] };
+      const filter = (op: MockFilter['op'], column: string, value: any): QueryBuilder => {
+        query.filters.push({ op, column, value });
+        return builder;
+      };
+      const write = (action: MockQuery['action'], values?: any): QueryBuilder => {
+        query.action = action;
+        query.values = values;
+        return builder;
+      };
 
       const builder: QueryBuilder = {
-        select(columns?: string): QueryBuilder {
-          chainedOps.push({ op: 'select', columns });
+        // After a write, select() only picks the columns returned
+        select(columns?: string, selectOptions?: SelectOptions): QueryBuilder {
+          query.columns = columns;
+          query.selectOptions = selectOptions;
           return builder;
         },
 
-        update(values: any): QueryBuilder {
-          chainedOps.push({ op: 'update', values });
+        update: values => write('update', values),
+        insert: values => write('insert', values),
+        upsert(values: any, upsertOptions?: UpsertOptions): QueryBuilder {
+          query.upsertOptions = upsertOptions;
+          return write('upsert', values);
+        },
+        delete: () => write('delete'),
+
+        eq: (column, value) => filter('eq', column, value),
+        neq: (column, value) => filter('neq', column, value),
+        in: (column, values) => filter('in', column, values),
+        gt: (column, value) => filter('gt', column, value),
+        gte: (column, value) => filter('gte', column, value),
+        lt: (column, value) => filter('lt', column, value),
+        lte: (column, value) => filter('lte', column, value),
+        ilike: (column, pattern) => filter('ilike', column, pattern),
+
+        order(column: string, orderOptions: OrderOptions = {}): QueryBuilder {
+          query.orders.push({ column, ...orderOptions });
           return builder;
         },
 
-        insert(values: any): QueryBuilder {
-          chainedOps.push({ op: 'insert', values });
+        limit(count: number): QueryBuilder {
+          query.limit = count;
           return builder;
         },
 
-        eq(column: string, value: any): QueryBuilder {
-          chainedOps.push({ op: 'eq', column, value });
+        range(from: number, to: number): QueryBuilder {
+          query.range = [from, to];
           return builder;
         },
 
         single(): QueryBuilder {
-          chainedOps.push({ op: 'single' });
+          query.cardinality = 'single';
           return builder;
         },
 
-        then(resolve: (result: { data?: any; error?: any }) => void): void {
+        maybeSingle(): QueryBuilder {
+          query.cardinality = 'maybeSingle';
+          return builder;
+        },
+
+        then(resolve: (result: QueryResult) => void): void {
           // Simulate async database operation
           setTimeout(() => {
+            if (!db.isOnline()) {
+              resolve({ error: { message: 'TypeError: Failed to fetch' } });
+              return;
+            }
+
             try {
-              let result: any = null;
-              let error: any = null;
-
-              // Process the chained operations
-              const selectOp = chainedOps.find(op => op.op === 'select');
-              const updateOp = chainedOps.find(op => op.op === 'update');
-              const eqOps = chainedOps.filter(op => op.op === 'eq');
-
-              // Get the ID from eq operations
-              const idOp = eqOps.find(op => op.column === 'id');
-              if (!idOp) {
-                error = new Error('No ID specified');
-                resolve({ error });
-                return;
-              }
-
-              const id = idOp.value;
-
-              if (updateOp) {
-                // Handle update operation
-                const whereConditions: any = {};
-                eqOps.forEach(op => {
-                  if (op.column !== 'id') {
-                    whereConditions[op.column] = op.value;
-                  }
-                });
-
-                const success = db.update(id, updateOp.values, whereConditions);
-                if (success) {
-                  result = db.get(id);
-                } else {
-                  error = { code: 'PGRST116', message: 'No rows updated' };
-                }
-              } else if (selectOp) {
-                // Handle select operation
-                result = db.get(id);
-                if (!result) {
-                  error = new Error('Not found');
-                }
-              }
-
-              resolve({ data: result, error });
+              resolve(runQuery(db, table, query, row => denied(table, row)));
             } catch (err) {
               resolve({ error: err });
             }
@@ -140,23 +355,385 @@ export function createMockSupabase(db: MockDatabase): SupabaseClient {
       return builder;
     },
 
+    channel(name: string): RealtimeChannel {
+      return createMockChannel(db, auth);
+    },
+
     async rpc(functionName: string, params?: any): Promise<{ data?: any; error?: any }> {
+      if (!db.isOnline()) {
+        return { error: { message: 'TypeError: Failed to fetch' } };
+      }
+
+      // Runs with the definer's rights and applies the sharing policy itself
+      if (functionName === 'get_shared_template') {
+        return getSharedTemplate(db, params, auth);
+      }
+
+      if (params?.template_id && denied(TEMPLATES_TABLE, db.get(params.template_id))) {
+        return { error: rlsViolation(TEMPLATES_TABLE) };
+      }
+
       // Simulate RPC calls for locking
       if (functionName === 'acquire_template_lock') {
-        const success = db.acquireLock(params.template_id);
-        return { data: success, error: success ? null : new Error('Lock unavailable') };
+        const lease = db.acquireLock(params.template_id, params.holder, params.ttl_ms);
+        return lease
+          ? { data: toLeaseRow(params.template_id, lease), error: null }
+          : { error: { code: 'LOCK_HELD', message: 'Lock unavailable' } };
+      }
+
+      if (functionName === 'renew_template_lock') {
+        const lease = db.renewLock(params.template_id, params.holder, params.token, params.ttl_ms);
+        return lease
+          ? { data: toLeaseRow(params.template_id, lease), error: null }
+          : { error: { code: 'LEASE_INVALID', message: 'Lease expired or superseded' } };
       }
 
       if (functionName === 'release_template_lock') {
-        db.releaseLock(params.template_id);
+        db.releaseLock(params.template_id, params.token);
         return { data: true, error: null };
       }
 
+      if (functionName === 'patch_template') {
+        return patchTemplate(db, params);
+      }
+
       return { error: new Error(`Unknown RPC function: ${functionName}`) };
     }
   };
 }
 
+interface MockFilter {
+  op: 'eq' | 'neq' | 'in' | 'gt' | 'gte' | 'lt' | 'lte' | 'ilike';
+  column: string;
+  value: any;
+}
+
+interface MockQuery {
+  action: 'select' | 'insert' | 'upsert' | 'update' | 'delete';
+  values?: any;
+  columns?: string;
+  selectOptions?: SelectOptions;
+  upsertOptions?: UpsertOptions;
+  filters: MockFilter[];
+  orders: ({ column: string } & OrderOptions)[];
+  limit?: number;
+  range?: [number, number];
+  cardinality?: 'single' | 'maybeSingle';
+}
+
+/**
+ * Run a built query against one table of the database
+ */
+function runQuery(db: MockDatabase, table: string, query: MockQuery, denied: (row: any) => boolean): QueryResult {
+  if (query.action === 'insert' || query.action === 'upsert') {
+    return writeRows(db, table, query, denied);
+  }
+
+  // A row addressed by id that the client may not access is refused rather
+  // than left out, and writes to it must hold its lease
+  const idFilter = query.filters.find(f => f.op === 'eq' && f.column === 'id');
+  const addressed = idFilter ? db.get(idFilter.value, table) : null;
+  if (addressed && denied(addressed)) {
+    return { error: rlsViolation(table) };
+  }
+
+  const matching = db.all(table).filter(row => !denied(row) && query.filters.every(f => matchesFilter(row, f)));
+
+  if (query.action === 'select') {
+    const sorted = [...matching].sort((a, b) => compareRows(a, b, query.orders));
+    const start = query.range ? query.range[0] : 0;
+    let end = query.range ? query.range[1] + 1 : sorted.length;
+    if (query.limit !== undefined) end = Math.min(end, start + query.limit);
+    return respond(sorted.slice(start, end), query, matching.length);
+  }
+
+  if (query.action === 'delete') {
+    matching.forEach(row => db.delete(row.id, table));
+    return respond(matching, query, matching.length);
+  }
+
+  const values = query.values;
+  if (table === TEMPLATES_TABLE) {
+    for (const row of addressed ? [addressed] : matching) {
+      const fencingError = db.checkFencingToken(row.id, values.fencing_token);
+      if (fencingError) {
+        return { error: { code: 'LEASE_INVALID', message: fencingError } };
+      }
+    }
+  }
+  // Rows can't be moved out of reach either
+  if (matching.some(row => denied({ ...row, ...values }))) {
+    return { error: rlsViolation(table) };
+  }
+  matching.forEach(row => db.update(row.id, values, undefined, table));
+  const updated = matching.map(row => db.get(row.id, table));
+  return respond(updated, query, updated.length);
+}
+
+/**
+ * Insert rows, or with upsert update the ones that conflict on the
+ * onConflict column. Nothing is written if any row is refused.
+ */
+function writeRows(db: MockDatabase, table: string, query: MockQuery, denied: (row: any) => boolean): QueryResult {
+  const rows: any[] = Array.isArray(query.values) ? query.values : [query.values];
+  const key = query.upsertOptions?.onConflict || 'id';
+  const existing = rows.map(row =>
+    query.action === 'upsert' && row[key] !== undefined ? db.all(table).find(candidate => candidate[key] === row[key]) : undefined
+  );
+
+  for (const [i, row] of rows.entries()) {
+    const current = existing[i];
+    if (denied(row) || (current && (denied(current) || denied({ ...current, ...row })))) {
+      return { error: rlsViolation(table) };
+    }
+    const duplicate = query.action === 'insert' && row.id !== undefined
+      && (db.get(row.id, table) || rows.slice(0, i).some(other => other.id === row.id));
+    if (duplicate) {
+      return { error: { code: '23505', message: 'duplicate key value violates unique constraint' } };
+    }
+    const fencingError = current && table === TEMPLATES_TABLE && !query.upsertOptions?.ignoreDuplicates
+      ? db.checkFencingToken(current.id, row.fencing_token)
+      : null;
+    if (fencingError) {
+      return { error: { code: 'LEASE_INVALID', message: fencingError } };
+    }
+  }
+
+  const written = rows.flatMap((row, i) => {
+    const current = existing[i];
+    if (!current) return [db.insert(table, row)];
+    if (query.upsertOptions?.ignoreDuplicates) return [];
+    db.update(current.id, { ...row, id: current.id }, undefined, table);
+    return [db.get(current.id, table)];
+  });
+  return respond(written, query, written.length);
+}
+
+/**
+ * Shape the affected rows as the client returns them. Writes return their
+ * rows too, as if followed by select().
+ */
+function respond(rows: any[], query: MockQuery, count: number): QueryResult {
+  const result: QueryResult = { error: null };
+  if (query.selectOptions?.count === 'exact') {
+    result.count = count;
+  }
+  if (query.selectOptions?.head) {
+    return { ...result, data: null };
+  }
+
+  const data = rows.map(row => pickColumns(row, query.columns));
+  if (!query.cardinality) {
+    return { ...result, data };
+  }
+  if (data.length > 1 || (data.length === 0 && query.cardinality === 'single')) {
+    return { error: { code: 'PGRST116', message: 'JSON object requested, multiple (or no) rows returned' } };
+  }
+  return { ...result, data: data[0] ?? null };
+}
+
+/**
+ * Whether a row passes a filter. As in SQL, comparisons with a missing
+ * (null) value never match.
+ */
+function matchesFilter(row: any, filter: MockFilter): boolean {
+  const value = row[filter.column];
+  if (value === null || value === undefined) return false;
+
+  switch (filter.op) {
+    case 'eq':
+      return value === filter.value;
+    case 'neq':
+      return value !== filter.value;
+    case 'in':
+      return filter.value.includes(value);
+    case 'gt':
+      return value > filter.value;
+    case 'gte':
+      return value >= filter.value;
+    case 'lt':
+      return value < filter.value;
+    case 'lte':
+      return value <= filter.value;
+    case 'ilike':
+      return typeof value === 'string' && likePattern(filter.value).test(value);
+  }
+}
+
+function likePattern(pattern: string): RegExp {
+  const source = Array.from(pattern).map(char =>
+    char === '%' ? '.*' : char === '_' ? '.' : char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  ).join('');
+  return new RegExp(`^${source}$`, 'is');
+}
+
+/**
+ * Compare rows by each order() column in turn. Nulls sort last ascending
+ * and first descending unless nullsFirst says otherwise.
+ */
+function compareRows(a: any, b: any, orders: MockQuery['orders']): number {
+  for (const { column, ascending = true, nullsFirst = !ascending } of orders) {
+    const x = a[column];
+    const y = b[column];
+    const xNull = x === null || x === undefined;
+    const yNull = y === null || y === undefined;
+    if (xNull || yNull) {
+      if (xNull && yNull) continue;
+      return xNull === nullsFirst ? -1 : 1;
+    }
+    // Text sorts by collation, as in the database
+    const order = typeof x === 'string' && typeof y === 'string' ? x.localeCompare(y) : x < y ? -1 : x > y ? 1 : 0;
+    if (order !== 0) {
+      return (order < 0) === ascending ? -1 : 1;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Server side of the get_shared_template RPC: a template as published, for
+ * its own organization and the ones it is shared with. `version` picks an
+ * earlier version from its history. Drafts and the row's other columns stay
+ * private.
+ */
+function getSharedTemplate(db: MockDatabase, params: any, auth?: MockAuth): { data?: any; error?: any } {
+  const row = db.get(params.template_id);
+  const orgId = auth?.orgId ?? params.organization_id;
+  const visible = row && (row.organization_id === orgId || (row.shared_with || []).includes(orgId));
+  if (!visible || (auth && params.organization_id && params.organization_id !== auth.orgId)) {
+    return { error: rlsViolation(TEMPLATES_TABLE) };
+  }
+
+  const published = getPublishedTemplate(row);
+  const content = !published ? null
+    : !params.version || params.version === published.version ? published
+    : db.all(HISTORY_TABLE).find(entry => entry.template_id === row.id && entry.version === params.version)?.snapshot;
+  if (!content) {
+    return { error: { code: 'PGRST116', message: `Template ${row.id} has no published version ${params.version || ''}`.trim() } };
+  }
+
+  const shared = {
+    id: row.id,
+    name: content.name,
+    sections: content.sections,
+    field_definitions: content.field_definitions,
+    inspection_variants: content.inspection_variants,
+    version: content.version,
+    updated_at: content.updated_at,
+    organization_id: row.organization_id,
+    state: 'published'
+  };
+  return { data: { ...shared, published: toPublishedSnapshot(shared as any, content.updated_at) }, error: null };
+}
+
+function toLeaseRow(templateId: string, lease: MockLease) {
+  return {
+    template_id: templateId,
+    holder: lease.holder,
+    token: lease.token,
+    expires_at: new Date(lease.expiresAt).toISOString()
+  };
+}
+
+/**
+ * Realtime channel backed by MockDatabase change events. Events are delivered
+ * asynchronously, after the write that caused them has resolved.
+ */
+function createMockChannel(db: MockDatabase, auth?: MockAuth): RealtimeChannel {
+  const handlers: { event: RealtimeEvent; table: string; callback: (payload: RealtimeChangePayload) => void }[] = [];
+  let unsubscribe: (() => void) | null = null;
+
+  const channel: RealtimeChannel = {
+    on(event, filter, callback) {
+      handlers.push({ event, table: filter.table, callback });
+      return channel;
+    },
+
+    subscribe() {
+      if (!unsubscribe) {
+        unsubscribe = db.onChange(payload => {
+          setTimeout(() => {
+            if (!unsubscribe) return;
+            if (!db.canAccess(payload.table, payload.new || payload.old, auth)) return;
+            handlers
+              .filter(h => h.table === payload.table && (h.event === '*' || h.event === payload.eventType))
+              .forEach(h => h.callback(payload));
+          }, 0);
+        });
+      }
+      return channel;
+    },
+
+    unsubscribe() {
+      unsubscribe?.();
+      unsubscribe = null;
+    }
+  };
+
+  return channel;
+}
+
+/**
+ * Server side of the patch_template RPC: validate the patch, apply it to the
+ * JSONB columns and write the result under the usual version guard.
+ */
+function patchTemplate(db: MockDatabase, params: any): { data?: any; error?: any } {
+  const existing = db.get(params.template_id);
+  if (!existing) {
+    return { error: { code: 'PGRST116', message: 'Template not found' } };
+  }
+  const fencingError = db.checkFencingToken(params.template_id, params.fencing_token);
+  if (fencingError) {
+    return { error: { code: 'LEASE_INVALID', message: fencingError } };
+  }
+  if (existing.version !== params.base_version) {
+    return { error: { code: 'PGRST116', message: 'Template version mismatch' } };
+  }
+
+  let patched: any;
+  try {
+    validatePatch(params.operations);
+    const columns = Object.fromEntries(PATCHABLE_COLUMNS.map(column => [column, existing[column]]));
+    patched = applyPatch(columns, params.operations);
+  } catch (err) {
+    if (err instanceof JsonPatchError) {
+      return {
+        error: {
+          code: err.testFailed ? 'PATCH_TEST_FAILED' : 'PATCH_INVALID',
+          message: err.message,
+          path: err.path
+        }
+      };
+    }
+    throw err;
+  }
+
+  const issues = validateTemplateDefinition(patched.field_definitions || {});
+  if (issues.length > 0) {
+    return {
+      error: {
+        code: 'TEMPLATE_INVALID',
+        message: `Invalid field definitions: ${issues.map(i => i.message).join('; ')}`,
+        issues
+      }
+    };
+  }
+
+  const updates = {
+    ...patched,
+    ...preserveLiveContent(existing),
+    version: params.new_version,
+    updated_at: new Date().toISOString(),
+    last_user_update: params.author ?? null,
+    fencing_token: params.fencing_token
+  };
+  if (!db.update(params.template_id, updates, { version: params.base_version })) {
+    return { error: { code: 'PGRST116', message: 'Template version mismatch' } };
+  }
+
+  return { data: db.get(params.template_id), error: null };
+}
+
 /**
  * Helper to create test templates
  */
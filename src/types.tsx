@@ -7,22 +7,167 @@ export interface TemplateSection {
   title: string;
   fields: string[];
   order: number;
+  /** Set when the section is a library blueprint; its title and fields come from there */
+  library?: LibraryLink;
 }
 
+export type FieldType = 'text' | 'number' | 'checkbox' | 'select' | 'date';
+
+/**
+ * Declarative validation rules for a field. Each rule applies to the field
+ * types listed next to it; `message` overrides the default error text.
+ * Select answers are always checked against the field's `options`.
+ */
+export type ValidationRule =
+  // number
+  | { kind: 'min'; value: number; message?: string }
+  | { kind: 'max'; value: number; message?: string }
+  // text
+  | { kind: 'minLength'; value: number; message?: string }
+  | { kind: 'maxLength'; value: number; message?: string }
+  | { kind: 'pattern'; pattern: string; flags?: string; message?: string }
+  // date, in whole days relative to today (negative = past)
+  | { kind: 'dateRange'; minDaysFromToday?: number; maxDaysFromToday?: number; message?: string }
+  // number or date: compare against another field's answer
+  | { kind: 'compareField'; field: string; operator: ComparisonOperator; message?: string };
+
+export type ComparisonOperator = 'eq' | 'neq' | 'lt' | 'lte' | 'gt' | 'gte';
+
 export interface FieldDefinition {
   id: string;
-  type: 'text' | 'number' | 'checkbox' | 'select' | 'date';
+  type: FieldType;
   label: string;
   required: boolean;
-  validation?: any;
+  validation?: ValidationRule[];
   options?: string[];
+  /** Set when the definition comes from the field library */
+  library?: LibraryLink;
+}
+
+/**
+ * Points a template's field or section at one version of a library item.
+ * Stored templates keep only the link; the content is filled in on load.
+ */
+export interface LibraryLink {
+  item_id: string;
+  version: number;
+  /** For fields of a section blueprint: which of the blueprint's fields */
+  field_id?: string;
+}
+
+export type LibraryItemKind = 'field' | 'section';
+
+export interface SectionBlueprint {
+  title: string;
+  fields: FieldDefinition[];
+}
+
+/**
+ * One immutable version of a reusable field definition or section blueprint.
+ * Saving an item again adds a new version rather than changing this one.
+ */
+export interface LibraryItem {
+  /** `<organization_id>:<item_id>@<version>` */
+  id: string;
+  item_id: string;
+  version: number;
+  kind: LibraryItemKind;
+  name: string;
+  organization_id: string;
+  field?: FieldDefinition;
+  section?: SectionBlueprint;
+  created_at: string;
+  author?: string;
+}
+
+/**
+ * A newer library version a template could move one of its links to
+ */
+export interface LibraryUpgrade {
+  templateId: string;
+  kind: LibraryItemKind;
+  /** The template's field or section that links to the item */
+  targetId: string;
+  itemId: string;
+  name: string;
+  fromVersion: number;
+  toVersion: number;
+}
+
+export type ResponseValue = string | number | boolean | null;
+
+export type InspectionAnswers = Record<string, ResponseValue | undefined>;
+
+export interface FieldValidationError {
+  fieldId: string;
+  rule: ValidationRule['kind'] | 'required' | 'type' | 'options';
+  message: string;
+}
+
+export interface ValidationResult {
+  valid: boolean;
+  errors: Record<string, FieldValidationError[]>;
+}
+
+export interface TemplateDefinitionIssue {
+  fieldId: string;
+  message: string;
+}
+
+/**
+ * Attributes of the inspection being performed, e.g. asset type, site, region
+ */
+export interface InspectionContext {
+  assetType?: string;
+  site?: string;
+  region?: string;
+  [attribute: string]: string | number | boolean | undefined;
 }
 
+export type ConditionOperator = 'eq' | 'neq' | 'in' | 'notIn' | 'lt' | 'lte' | 'gt' | 'gte' | 'exists';
+
+export type Condition =
+  | { all: Condition[] }
+  | { any: Condition[] }
+  | { not: Condition }
+  | { attribute: string; operator: ConditionOperator; value?: string | number | boolean | (string | number)[] };
+
+/**
+ * Changes a variant makes to one field. `hidden` drops the field entirely.
+ */
+export type FieldOverride = Partial<Omit<FieldDefinition, 'id'>> & { hidden?: boolean };
+
 export interface InspectionVariant {
   id: string;
   name: string;
-  conditions: any;
-  fieldOverrides: Record<string, any>;
+  /** Omitted conditions match every inspection */
+  conditions?: Condition;
+  fieldOverrides: Record<string, FieldOverride>;
+  /** Higher priorities are applied later and win on overlap; defaults to 0 */
+  priority?: number;
+}
+
+export interface VariantMatch {
+  variantId: string;
+  name: string;
+  matched: boolean;
+  reasons: string[];
+}
+
+export interface VariantOverlap {
+  fieldId: string;
+  property: string;
+  variantIds: string[];
+  values: any[];
+}
+
+export interface EffectiveTemplate {
+  template: Template;
+  /** Every variant that was evaluated, with why it did or didn't match */
+  matches: VariantMatch[];
+  /** Ids of the matching variants, in the order their overrides were applied */
+  applied: string[];
+  overlaps: VariantOverlap[];
 }
 
 export interface TemplateUpdate {
@@ -34,6 +179,35 @@ export interface TemplateUpdate {
   version?: string;
 }
 
+/**
+ * RFC 6902 JSON Patch operations against a template's columns
+ */
+export type JsonPatchOperation =
+  | { op: 'add'; path: string; value: any }
+  | { op: 'remove'; path: string }
+  | { op: 'replace'; path: string; value: any }
+  | { op: 'move'; from: string; path: string }
+  | { op: 'copy'; from: string; path: string }
+  | { op: 'test'; path: string; value: any };
+
+/**
+ * Lifecycle of a template. Edits always land in the draft (the row's own
+ * columns); inspectors only ever see the last published snapshot.
+ */
+export type TemplateState = 'draft' | 'published' | 'archived';
+
+/**
+ * The content inspectors get, frozen when the draft was last published
+ */
+export interface PublishedTemplate {
+  name: string;
+  sections: TemplateSection[];
+  field_definitions: Record<string, FieldDefinition>;
+  inspection_variants?: InspectionVariant[];
+  version: string;
+  published_at: string;
+}
+
 export interface Template {
   id: string;
   name: string;
@@ -42,22 +216,378 @@ export interface Template {
   inspection_variants?: InspectionVariant[];
   version: string;
   updated_at: string;
-  last_user_update?: string;
+  last_user_update?: string | null;
   organization_id: string;
   update_count?: number;
+  /** Rows saved before lifecycles existed have no state and count as published */
+  state?: TemplateState;
+  published?: PublishedTemplate;
+  archived_at?: string | null;
+  /** Template this one inherits from; only `overrides` is stored for it */
+  base_template_id?: string | null;
+  /** Version of the base the overrides are resolved against */
+  base_version?: string;
+  overrides?: TemplateOverrides;
+  /** Other organizations whose templates may inherit from this one's published versions */
+  shared_with?: string[];
+}
+
+/**
+ * What an inheriting template changes about its base. Base sections keep
+ * their fields and order; a child can only hide or relabel inherited fields
+ * and add sections of its own after them.
+ */
+export interface TemplateOverrides {
+  added_sections?: TemplateSection[];
+  /** Definitions of the fields in `added_sections` */
+  added_fields?: Record<string, FieldDefinition>;
+  hidden_fields?: string[];
+  /** New labels for inherited fields, by field id */
+  relabeled_fields?: Record<string, string>;
+}
+
+export type InheritedValueStatus = 'inherited' | 'overridden' | 'added';
+
+/**
+ * Where each section and field of an inheriting template comes from
+ */
+export interface InheritanceStatus {
+  /** The base content the template is currently resolved against */
+  base: Template;
+  sections: Record<string, InheritedValueStatus>;
+  fields: Record<string, InheritedValueStatus>;
+  hiddenFields: string[];
+}
+
+/**
+ * Tells the owner of an inheriting template that its base has a newer
+ * version, and what the template would look like on top of it
+ */
+export interface BaseUpdateNotice {
+  templateId: string;
+  templateName: string;
+  /** Whoever last edited the inheriting template */
+  owner?: string;
+  baseTemplateId: string;
+  fromBaseVersion?: string;
+  toBaseVersion: string;
+  merged: Template;
+  change: VersionChange;
+  /** Overrides that no longer apply cleanly to the new base */
+  issues: TemplateDefinitionIssue[];
+}
+
+/**
+ * Who a service is acting for. Every read and write is confined to the
+ * organization, and writes are attributed to the user.
+ */
+export interface ServiceContext {
+  orgId: string;
+  userId: string;
 }
 
-export interface CacheEntry {
-  data: any;
+/**
+ * A user's role within one organization
+ */
+export type Role = 'viewer' | 'editor' | 'publisher' | 'admin';
+
+export type TemplateAction = 'view' | 'edit' | 'publish' | 'archive';
+
+export type TemplatePermissions = Record<TemplateAction, boolean>;
+
+export interface OrganizationMember {
+  organization_id: string;
+  user_id: string;
+  role: Role;
+}
+
+export type TemplateSortKey = 'name' | 'updated_at' | 'update_count';
+
+/**
+ * A sort key, ascending, or prefixed with "-" for descending
+ */
+export type TemplateSort = TemplateSortKey | `-${TemplateSortKey}`;
+
+export interface TemplateFilter {
+  state?: TemplateState | TemplateState[];
+  /** Words that must all appear in the name, a section title or a field label */
+  query?: string;
+  /** Organization to list; a service bound to a context may only list its own */
+  orgId?: string;
+  /** Only templates updated after this ISO timestamp */
+  updatedAfter?: string;
+  /** Defaults to name */
+  sort?: TemplateSort;
+  /** 1-based; only applies together with pageSize */
+  page?: number;
+  /** Omit to get every matching template on one page */
+  pageSize?: number;
+}
+
+/**
+ * One page of templates, with how many matched in total
+ */
+export interface TemplatePage {
+  templates: Template[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+/**
+ * Immutable snapshot appended to template_history on every saved version
+ */
+export interface TemplateHistoryEntry {
+  id: string;
+  template_id: string;
+  version: string;
+  author?: string;
+  created_at: string;
+  update?: Partial<TemplateUpdate>;
+  operations?: JsonPatchOperation[];
+  reverted_to_version?: string;
+  /** Copied from the template so history is scoped like the template itself */
+  organization_id?: string;
+  snapshot: Template;
+}
+
+/**
+ * Time-limited exclusive hold on a template. `token` increases with every
+ * grant, so writes carrying an older token can be told apart and rejected.
+ */
+export interface TemplateLease {
+  templateId: string;
+  holder: string;
+  token: number;
+  expiresAt: string;
+}
+
+export interface CacheEntry<T = any> {
+  data: T;
   version?: string;
-  timestamp?: number;
+  /** When the entry was stored (ms since epoch) */
+  timestamp: number;
+  /** After this the entry is stale and must be revalidated */
+  expiresAt: number;
+}
+
+export interface CacheStats {
+  hits: number;
+  /** Reads answered with an expired entry while it was being refreshed */
+  staleHits: number;
+  misses: number;
+  evictions: number;
+  invalidations: number;
+  size: number;
+}
+
+export interface MergeConflict {
+  path: string;
+  base: any;
+  ours: any;
+  theirs: any;
+}
+
+export type VersionBump = 'major' | 'minor' | 'patch';
+
+export interface VersionChangeReason {
+  bump: VersionBump;
+  /** Field or section the change applies to, if any */
+  target?: string;
+  message: string;
+}
+
+/**
+ * How far a save moves the template's semantic version, and why
+ */
+export interface VersionChange {
+  bump: VersionBump;
+  reasons: VersionChangeReason[];
 }
 
 export interface UpdateResult {
   success: boolean;
   data?: Template;
   newVersion?: string;
+  versionChange?: VersionChange;
+  error?: Error;
+  merged?: boolean;
+  conflicts?: MergeConflict[];
+  queued?: boolean;
+}
+
+/**
+ * Minimal key/value storage, compatible with window.localStorage
+ */
+export interface StorageAdapter {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+export type OutboxStatus = 'pending' | 'failed' | 'conflict';
+
+export interface OutboxEntry {
+  id: string;
+  templateId: string;
+  kind: 'update' | 'patch';
+  updates?: Partial<TemplateUpdate>;
+  base?: Template;
+  operations?: JsonPatchOperation[];
+  baseVersion?: string;
+  queuedAt: string;
+  attempts: number;
+  status: OutboxStatus;
+  error?: string;
+  conflicts?: MergeConflict[];
+}
+
+export type InspectionResponseStatus = 'in_progress' | 'submitted';
+
+/**
+ * Answers captured against one exact template version
+ */
+export interface InspectionResponse {
+  id: string;
+  template_id: string;
+  template_version: string;
+  /** The template's organization; responses are only visible within it */
+  organization_id: string;
+  answers: InspectionAnswers;
+  /** Context the inspection ran in, deciding which variants applied */
+  context?: InspectionContext;
+  status: InspectionResponseStatus;
+  inspector?: string;
+  /** Optimistic-locking counter, independent of the template's version */
+  version: number;
+  created_at: string;
+  updated_at: string;
+  submitted_at?: string;
+  /** Template version the answers were originally captured against, once migrated */
+  migrated_from_version?: string;
+}
+
+export interface InspectionResponseFilter {
+  templateId?: string;
+  templateVersion?: string;
+  status?: InspectionResponseStatus;
+}
+
+export interface ResponseSaveResult {
+  success: boolean;
+  data?: InspectionResponse;
   error?: Error;
+  /** Per-field problems that blocked a submit */
+  errors?: Record<string, FieldValidationError[]>;
+}
+
+/**
+ * Explicit conversion of an answer when its field changes between versions
+ */
+export type ValueTransform =
+  | { kind: 'toText' }
+  | { kind: 'toNumber' }
+  | { kind: 'renameOptions'; renames: Record<string, string> }
+  | { kind: 'drop' };
+
+export interface FieldMapping {
+  /** Field id in the older version */
+  from: string;
+  /** Field id in the newer version */
+  to: string;
+  transform?: ValueTransform;
+}
+
+/**
+ * Mappings an author declared for moving responses between two versions.
+ * Fields without a declared mapping are matched by id, then by label.
+ */
+export interface ResponseMigrationPlan {
+  template_id: string;
+  from_version: string;
+  to_version: string;
+  mappings: FieldMapping[];
+}
+
+export type MigrationIssueKind =
+  | 'field_removed'
+  | 'type_changed'
+  | 'option_removed'
+  | 'unconvertible'
+  | 'missing_required';
+
+export interface MigrationIssue {
+  fieldId: string;
+  kind: MigrationIssueKind;
+  message: string;
+  value?: ResponseValue;
+}
+
+export interface ResponseMigrationReport {
+  responseId: string;
+  fromVersion: string;
+  toVersion: string;
+  /** The answers as they read in the target version */
+  answers: InspectionAnswers;
+  issues: MigrationIssue[];
+  /** Whether the upgraded response was saved; only clean migrations are */
+  migrated: boolean;
+}
+
+/**
+ * Portable copy of a template for moving it between environments and
+ * organizations.
+ *
+ * - `format` is always "inspection-template"; `format_version` is bumped
+ *   whenever the envelope or template layout changes incompatibly.
+ * - `source_org` names the exporting organization for the record only;
+ *   nothing org-specific is kept in `template` itself.
+ * - `checksum` is "fnv1a32:" followed by the hash of `template` serialized
+ *   with sorted keys, so any edit to the payload is detected on import.
+ */
+export interface TemplateExportEnvelope {
+  format: 'inspection-template';
+  format_version: number;
+  exported_at: string;
+  source_org: string;
+  checksum: string;
+  template: ExportedTemplate;
+}
+
+/**
+ * The template content that travels: no organization, author, lease or
+ * lifecycle state
+ */
+export type ExportedTemplate = Pick<
+  Template,
+  'id' | 'name' | 'sections' | 'field_definitions' | 'inspection_variants' | 'version'
+>;
+
+export type ImportItemKind = 'template' | 'name' | 'field';
+
+export interface TemplateImportReport {
+  success: boolean;
+  /** The created template */
+  template?: Template;
+  created: { kind: ImportItemKind; id: string }[];
+  renamed: { kind: ImportItemKind; from: string; to: string }[];
+  skipped: { kind: ImportItemKind; id: string; reason: string }[];
+  error?: Error;
+}
+
+export type TemplateJobStatus = 'queued' | 'running' | 'retrying' | 'dead';
+
+export interface TemplateJob {
+  id: string;
+  templateId: string;
+  /** Higher priorities run first */
+  priority: number;
+  status: TemplateJobStatus;
+  attempts: number;
+  enqueuedAt: string;
+  /** Earliest time (ms since epoch) the job may run again after a failure */
+  runAt: number;
+  lastError?: string;
 }
 
 export class VersionConflictError extends Error {
@@ -67,6 +597,100 @@ export class VersionConflictError extends Error {
   }
 }
 
+export class MergeConflictError extends VersionConflictError {
+  conflicts: MergeConflict[];
+
+  constructor(message: string, conflicts: MergeConflict[]) {
+    super(message);
+    this.name = 'MergeConflictError';
+    this.conflicts = conflicts;
+  }
+}
+
+export class TemplateValidationError extends Error {
+  issues: TemplateDefinitionIssue[];
+
+  constructor(message: string, issues: TemplateDefinitionIssue[]) {
+    super(message);
+    this.name = 'TemplateValidationError';
+    this.issues = issues;
+  }
+}
+
+export class ResponseValidationError extends Error {
+  errors: Record<string, FieldValidationError[]>;
+
+  constructor(message: string, errors: Record<string, FieldValidationError[]>) {
+    super(message);
+    this.name = 'ResponseValidationError';
+    this.errors = errors;
+  }
+}
+
+export class LockUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LockUnavailableError';
+  }
+}
+
+export class LeaseExpiredError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LeaseExpiredError';
+  }
+}
+
+/**
+ * A read or write reached across organizations. Raised by the service's own
+ * checks and for row-level security violations (Postgres code 42501).
+ */
+export class TenantIsolationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TenantIsolationError';
+  }
+}
+
+export class TemplateImportError extends Error {
+  problems: string[];
+
+  constructor(message: string, problems: string[]) {
+    super(message);
+    this.name = 'TemplateImportError';
+    this.problems = problems;
+  }
+}
+
+export class PermissionDeniedError extends Error {
+  action: TemplateAction;
+
+  constructor(message: string, action: TemplateAction) {
+    super(message);
+    this.name = 'PermissionDeniedError';
+    this.action = action;
+  }
+}
+
+export class NetworkError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NetworkError';
+  }
+}
+
+export class JsonPatchError extends Error {
+  path: string;
+  testFailed: boolean;
+
+  constructor(message: string, path: string, testFailed: boolean = false) {
+    super(message);
+    this.name = 'JsonPatchError';
+    this.path = path;
+    this.testFailed = testFailed;
+  }
+}
+
 export class UpdateFailedError extends Error {
   constructor(message: string) {
     super(message);
@@ -80,13 +704,77 @@ export class UpdateFailedError extends Error {
 export interface SupabaseClient {
   from(table: string): QueryBuilder;
   rpc(functionName: string, params?: any): Promise<{ data?: any; error?: any }>;
+  channel(name: string): RealtimeChannel;
+}
+
+export type RealtimeEvent = 'INSERT' | 'UPDATE' | 'DELETE' | '*';
+
+export interface RealtimeChangePayload<T = any> {
+  eventType: Exclude<RealtimeEvent, '*'>;
+  table: string;
+  new: T | null;
+  old: T | null;
+  commit_timestamp: string;
+}
+
+export interface RealtimeChannel {
+  on(
+    event: RealtimeEvent,
+    filter: { table: string },
+    callback: (payload: RealtimeChangePayload) => void
+  ): RealtimeChannel;
+  subscribe(): RealtimeChannel;
+  unsubscribe(): void;
+}
+
+export interface QueryResult {
+  data?: any;
+  error?: any;
+  /** Rows matching the filters, ignoring limit and range; only with select's count option */
+  count?: number | null;
+}
+
+export interface SelectOptions {
+  count?: 'exact';
+  /** Only count the rows; data is null */
+  head?: boolean;
+}
+
+export interface UpsertOptions {
+  /** Column identifying an existing row; defaults to id */
+  onConflict?: string;
+  /** Leave existing rows untouched instead of updating them */
+  ignoreDuplicates?: boolean;
+}
+
+export interface OrderOptions {
+  ascending?: boolean;
+  /** Defaults to nulls last when ascending, first when descending */
+  nullsFirst?: boolean;
 }
 
 export interface QueryBuilder {
-  select(columns?: string): QueryBuilder;
+  select(columns?: string, options?: SelectOptions): QueryBuilder;
   update(values: any): QueryBuilder;
   insert(values: any): QueryBuilder;
+  upsert(values: any, options?: UpsertOptions): QueryBuilder;
+  delete(): QueryBuilder;
   eq(column: string, value: any): QueryBuilder;
+  neq(column: string, value: any): QueryBuilder;
+  in(column: string, values: any[]): QueryBuilder;
+  gt(column: string, value: any): QueryBuilder;
+  gte(column: string, value: any): QueryBuilder;
+  lt(column: string, value: any): QueryBuilder;
+  lte(column: string, value: any): QueryBuilder;
+  /** Case-insensitive LIKE: % matches any run of characters, _ any one */
+  ilike(column: string, pattern: string): QueryBuilder;
+  order(column: string, options?: OrderOptions): QueryBuilder;
+  limit(count: number): QueryBuilder;
+  /** Rows `from` through `to`, both inclusive and 0-based */
+  range(from: number, to: number): QueryBuilder;
+  /** Exactly one row as data; anything else is a PGRST116 error */
   single(): QueryBuilder;
-  then(resolve: (result: { data?: any; error?: any }) => void): void;
+  /** One row or null as data; several rows are a PGRST116 error */
+  maybeSingle(): QueryBuilder;
+  then(resolve: (result: QueryResult) => void): void;
 }
\ No newline at end of file
@@ -0,0 +1,172 @@
+/**
+ * Importing field definitions from CSV
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { parseCsv, previewFieldCsv, applyFieldCsv } from '../src/services/csvImport';
+import { TemplateService } from '../src/services/TemplateService';
+import { FieldCsvImport } from '../src/components/FieldCsvImport';
+import { Template, TemplateValidationError } from '../src/types';
+import { MockDatabase, createMockSupabase, createTestTemplate } from '../src/test-utils';
+
+const template = createTestTemplate() as Template;
+
+const CSV = [
+  'Section Title,Field Label,Type,Required,Options',
+  'General Information,Location,text,yes,',
+  'Checks,Condition,select,Y,"Good|Needs work, soon|Poor"',
+  'Checks,Guard fitted,Checkbox,,'
+].join('\n');
+
+describe('parseCsv', () => {
+  test('should handle quoted cells and blank lines', () => {
+    expect(parseCsv('a,"b, c","say ""hi"""\r\n\r\n"multi\nline",x,\n')).toEqual([
+      ['a', 'b, c', 'say "hi"'],
+      ['multi\nline', 'x', '']
+    ]);
+  });
+});
+
+describe('previewFieldCsv', () => {
+  test('should build sections and fields for a new template', () => {
+    const preview = previewFieldCsv(CSV);
+
+    expect(preview.errors).toEqual([]);
+    expect(preview.sections).toEqual([
+      { id: 'section-general-information', title: 'General Information', fields: ['field-location'], order: 0 },
+      { id: 'section-checks', title: 'Checks', fields: ['field-condition', 'field-guard-fitted'], order: 1 }
+    ]);
+    expect(preview.field_definitions['field-condition']).toEqual({
+      id: 'field-condition',
+      type: 'select',
+      label: 'Condition',
+      required: true,
+      options: ['Good', 'Needs work, soon', 'Poor']
+    });
+    expect(preview.field_definitions['field-guard-fitted']).toMatchObject({ type: 'checkbox', required: false });
+  });
+
+  test('should report every bad row with its line and column', () => {
+    const preview = previewFieldCsv([
+      'Section,Label,Type,Required,Options',
+      'Checks,Pressure,decimal,yes,',
+      'Checks,Condition,select,yes,',
+      'Checks,Notes,text,maybe,',
+      ',Serial,number,no,',
+      'Checks,Valid,number,no,'
+    ].join('\n'));
+
+    expect(preview.errors).toEqual([
+      { row: 2, column: 'type', message: 'Unknown type "decimal"; expected one of text, number, checkbox, select, date' },
+      { row: 3, column: 'options', message: 'Select fields need at least one option' },
+      { row: 4, column: 'required', message: '"maybe" is not yes or no' },
+      { row: 5, column: 'section', message: 'Section title is missing' }
+    ]);
+    expect(preview.rows.map(row => row.field.label)).toEqual(['Valid']);
+  });
+
+  test('should require the section, label and type columns', () => {
+    expect(previewFieldCsv('Label,Required\nName,yes').errors).toEqual([
+      { row: 1, message: 'Missing columns: section, type' }
+    ]);
+  });
+
+  test('should append to matching sections and avoid existing ids', () => {
+    const target = {
+      ...template,
+      field_definitions: { ...template.field_definitions, 'field-equipment-name': template.field_definitions['field-1'] }
+    };
+    const preview = previewFieldCsv([
+      'Section,Label,Type',
+      'general information,Equipment Name,text',
+      'Sign-off,Inspector,text'
+    ].join('\n'), target);
+
+    expect(preview.rows.map(row => [row.field.id, row.sectionTitle, row.newSection])).toEqual([
+      ['field-equipment-name-2', 'General Information', false],
+      ['field-inspector', 'Sign-off', true]
+    ]);
+
+    const { update, errors } = applyFieldCsv(target, preview);
+    expect(errors).toEqual([]);
+    expect(update.sections.map(section => [section.title, section.fields, section.order])).toEqual([
+      ['General Information', ['field-1', 'field-2', 'field-equipment-name-2'], 1],
+      ['Sign-off', ['field-inspector'], 2]
+    ]);
+    expect(Object.keys(update.field_definitions)).toEqual([
+      'field-1', 'field-2', 'field-equipment-name', 'field-equipment-name-2', 'field-inspector'
+    ]);
+  });
+
+  test('should report rows whose section has since been removed', () => {
+    const preview = previewFieldCsv('Section,Label,Type\nGeneral Information,Serial,text', template);
+
+    const { update, errors } = applyFieldCsv({ ...template, sections: [] }, preview);
+
+    expect(errors).toEqual([{ row: 2, column: 'section', message: 'Section "General Information" is no longer in the template' }]);
+    expect(update.sections).toEqual([]);
+  });
+
+  test('should flag rows that add fields to an inherited section', () => {
+    const heir = {
+      ...template,
+      base_template_id: 'base',
+      sections: [...template.sections, { id: 'own', title: 'Site', fields: [], order: 2 }],
+      overrides: { added_sections: [{ id: 'own', title: 'Site', fields: [], order: 2 }] }
+    } as Template;
+
+    const preview = previewFieldCsv('Section,Label,Type\nGeneral Information,Serial,text\nSite,Gate,text', heir);
+
+    expect(preview.errors.map(error => [error.row, error.column])).toEqual([[2, 'section']]);
+    expect(preview.rows.map(row => row.field.label)).toEqual(['Gate']);
+  });
+});
+
+describe('CSV import', () => {
+  test('should create a template and save the fields through updateTemplate', async () => {
+    const db = new MockDatabase();
+    const service = new TemplateService(createMockSupabase(db));
+    const preview = previewFieldCsv(CSV);
+
+    const created = await service.createTemplate('Forklift checklist', { organizationId: 'org-123' });
+    const saved = await service.updateTemplate(created.data!.id, applyFieldCsv(created.data!, preview).update, created.data!);
+
+    expect(saved.success).toBe(true);
+    const row = db.get(created.data!.id) as Template;
+    expect(row).toMatchObject({ name: 'Forklift checklist', state: 'draft', organization_id: 'org-123' });
+    expect(row.sections.map(section => section.title)).toEqual(['General Information', 'Checks']);
+    expect(Object.keys(row.field_definitions)).toHaveLength(3);
+  });
+
+  test('should only create a template once its content is valid', async () => {
+    const db = new MockDatabase();
+    const service = new TemplateService(createMockSupabase(db));
+    const { update } = applyFieldCsv({ sections: [], field_definitions: {} }, previewFieldCsv(CSV));
+    update.field_definitions['field-condition'].options = [];
+
+    const rejected = await service.createTemplate('Forklift checklist', { organizationId: 'org-123', content: update });
+
+    expect(rejected.error).toBeInstanceOf(TemplateValidationError);
+    expect(db.all()).toEqual([]);
+
+    delete update.field_definitions['field-condition'].options;
+    update.field_definitions['field-condition'].type = 'text';
+    const created = await service.createTemplate('Forklift checklist', { organizationId: 'org-123', content: update });
+    expect((db.get(created.data!.id) as Template).sections.map(section => section.title)).toEqual(['General Information', 'Checks']);
+  });
+
+  test('should preview rows and errors before importing', () => {
+    const html = renderToStaticMarkup(createElement(FieldCsvImport, {
+      template,
+      onImport: async () => ({ success: true }),
+      onCancel: () => {},
+      initialText: `${CSV}\nChecks,Torque,float,no,`
+    }));
+
+    expect(html).toContain('Row 5 (type): Unknown type &quot;float&quot;');
+    expect(html).toContain('<td>Checks (new)</td>');
+    expect(html).toMatch(/<button[^>]*disabled=""[^>]*>Import 3 fields<\/button>/);
+  });
+});
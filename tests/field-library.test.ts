@@ -0,0 +1,223 @@
+/**
+ * Shared library of field definitions and section blueprints
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { TemplateService } from '../src/services/TemplateService';
+import {
+  insertLibraryItem,
+  resolveLibraryReferences,
+  toStoredLibraryContent,
+  findLibraryUpgrades,
+  applyLibraryUpgrade,
+  unlinkLibraryItem
+} from '../src/services/fieldLibrary';
+import { diffTemplate } from '../src/services/jsonPatch';
+import { TemplateEditor } from '../src/components/TemplateEditor';
+import { Template, LibraryItem, ServiceContext } from '../src/types';
+import { MockDatabase, createMockSupabase, createTestTemplate } from '../src/test-utils';
+
+const template = createTestTemplate() as Template;
+
+const serialItem = (version: number, label: string): LibraryItem => ({
+  id: `org-123:serial@${version}`,
+  item_id: 'serial',
+  version,
+  kind: 'field',
+  name: 'Equipment Serial Number',
+  organization_id: 'org-123',
+  field: { id: 'serial', type: 'text', label, required: true, validation: [{ kind: 'maxLength', value: 20 }] },
+  created_at: '2024-05-01T00:00:00.000Z'
+});
+
+const signOff: LibraryItem = {
+  id: 'org-123:sign-off@1',
+  item_id: 'sign-off',
+  version: 1,
+  kind: 'section',
+  name: 'Sign-off',
+  organization_id: 'org-123',
+  section: {
+    title: 'Sign-off',
+    fields: [
+      { id: 'inspector', type: 'text', label: 'Inspector', required: true },
+      { id: 'signed', type: 'date', label: 'Date signed', required: true }
+    ]
+  },
+  created_at: '2024-05-01T00:00:00.000Z'
+};
+
+describe('fieldLibrary', () => {
+  test('should insert linked fields and sections and store only the links', () => {
+    const withField = { ...template, ...insertLibraryItem(template, serialItem(1, 'Serial number')) };
+    const withBoth = { ...withField, ...insertLibraryItem(withField, signOff) };
+
+    expect(withBoth.sections[0].fields).toEqual(['field-1', 'field-2', 'field-serial']);
+    expect(withBoth.sections[1]).toMatchObject({
+      id: 'section-sign-off',
+      title: 'Sign-off',
+      fields: ['section-sign-off.inspector', 'section-sign-off.signed'],
+      order: 2
+    });
+
+    const stored = toStoredLibraryContent(withBoth, [serialItem(1, 'Serial number'), signOff]);
+    expect(stored.field_definitions['field-serial']).toEqual({ id: 'field-serial', library: { item_id: 'serial', version: 1 } });
+    expect(stored.sections[1]).toEqual({
+      id: 'section-sign-off', title: 'Sign-off', fields: [], order: 2, library: { item_id: 'sign-off', version: 1 }
+    });
+    expect(Object.keys(stored.field_definitions)).toEqual(['field-1', 'field-2', 'field-serial']);
+
+    expect(resolveLibraryReferences(stored, [serialItem(1, 'Serial number'), signOff])).toEqual({
+      sections: withBoth.sections,
+      field_definitions: withBoth.field_definitions
+    });
+  });
+
+  test('should store linked content that was changed in the template as a copy', () => {
+    const linked = { ...template, ...insertLibraryItem(template, serialItem(1, 'Serial number')) };
+    linked.field_definitions['field-serial'] = { ...linked.field_definitions['field-serial'], required: false };
+
+    const stored = toStoredLibraryContent(linked, [serialItem(1, 'Serial number')]);
+
+    expect(stored.field_definitions['field-serial']).toEqual({
+      id: 'field-serial', type: 'text', label: 'Serial number', required: false, validation: [{ kind: 'maxLength', value: 20 }]
+    });
+  });
+
+  test('should offer and apply newer versions', () => {
+    const linked = { ...template, ...insertLibraryItem(template, serialItem(1, 'Serial number')) };
+
+    const [upgrade] = findLibraryUpgrades(linked, [serialItem(2, 'Equipment serial no.'), signOff]);
+    expect(upgrade).toEqual({
+      templateId: template.id,
+      kind: 'field',
+      targetId: 'field-serial',
+      itemId: 'serial',
+      name: 'Equipment Serial Number',
+      fromVersion: 1,
+      toVersion: 2
+    });
+
+    const upgraded = applyLibraryUpgrade(linked, serialItem(2, 'Equipment serial no.'));
+    expect(upgraded.field_definitions['field-serial']).toMatchObject({
+      label: 'Equipment serial no.',
+      library: { item_id: 'serial', version: 2 }
+    });
+  });
+
+  test('should unlink a section together with its fields', () => {
+    const linked = { ...template, ...insertLibraryItem(template, signOff) };
+
+    const unlinked = unlinkLibraryItem(linked, 'section-sign-off');
+
+    expect(unlinked.sections[1].library).toBeUndefined();
+    expect(unlinked.field_definitions['section-sign-off.inspector']).toEqual({
+      ...signOff.section!.fields[0],
+      id: 'section-sign-off.inspector'
+    });
+  });
+});
+
+describe('TemplateService field library', () => {
+  let db: MockDatabase;
+  let service: TemplateService;
+
+  beforeEach(() => {
+    db = new MockDatabase();
+    service = new TemplateService(createMockSupabase(db));
+    db.set(template.id, template);
+  });
+
+  const saveSerial = (label: string, itemId?: string) => service.saveLibraryItem({
+    item_id: itemId,
+    kind: 'field',
+    name: 'Equipment Serial Number',
+    field: { id: 'serial', type: 'text', label, required: true }
+  }, { organizationId: 'org-123' });
+
+  test('should version library items and list the latest', async () => {
+    const first = await saveSerial('Serial number');
+    const second = await saveSerial('Equipment serial no.', first.item_id);
+
+    expect(first).toMatchObject({ id: 'org-123:equipment-serial-number@1', version: 1 });
+    expect(second).toMatchObject({ id: 'org-123:equipment-serial-number@2', version: 2 });
+    expect((await service.getLibraryItems()).map(item => item.id)).toEqual(['org-123:equipment-serial-number@2']);
+  });
+
+  test('should keep each organization\'s items apart', async () => {
+    const serviceFor = (context: ServiceContext) => {
+      db.set(`member-${context.userId}`, { organization_id: context.orgId, user_id: context.userId, role: 'editor' }, 'organization_members');
+      return new TemplateService(createMockSupabase(db, { auth: context }), { context });
+    };
+    const north = serviceFor({ orgId: 'org-north', userId: 'nina' });
+    const south = serviceFor({ orgId: 'org-south', userId: 'sam' });
+    const input = { kind: 'field' as const, name: 'Equipment Serial Number', field: { id: 'serial', type: 'text' as const, label: 'Serial', required: true } };
+
+    const ours = await north.saveLibraryItem(input);
+    const theirs = await south.saveLibraryItem(input);
+
+    expect(ours).toMatchObject({ id: 'org-north:equipment-serial-number@1', item_id: 'equipment-serial-number', version: 1 });
+    expect(theirs).toMatchObject({ id: 'org-south:equipment-serial-number@1', item_id: 'equipment-serial-number', version: 1 });
+    expect((await south.getLibraryItems()).map(item => item.id)).toEqual(['org-south:equipment-serial-number@1']);
+
+    // Even without row-level security, another organization's versions don't count
+    const again = { ...input, item_id: 'equipment-serial-number' };
+    expect((await service.saveLibraryItem(again, { organizationId: 'org-south' })).version).toBe(2);
+    expect((await service.saveLibraryItem(again, { organizationId: 'org-north' })).version).toBe(2);
+  });
+
+  test('should store links and resolve them on load', async () => {
+    const item = await saveSerial('Serial number');
+    const linked = insertLibraryItem(template, item);
+
+    const result = await service.updateTemplate(template.id, linked, template);
+
+    expect(result.success).toBe(true);
+    expect(result.data!.field_definitions['field-equipment-serial-number'].label).toBe('Serial number');
+    expect(db.get(template.id).field_definitions['field-equipment-serial-number']).toEqual({
+      id: 'field-equipment-serial-number',
+      library: { item_id: 'equipment-serial-number', version: 1 }
+    });
+
+    const reloaded = await new TemplateService(createMockSupabase(db)).getTemplate(template.id);
+    expect(reloaded!.field_definitions['field-equipment-serial-number']).toMatchObject({ type: 'text', required: true });
+  });
+
+  test('should offer library updates to linking templates', async () => {
+    const item = await saveSerial('Serial number');
+    const saved = await service.updateTemplate(template.id, insertLibraryItem(template, item), template);
+    await saveSerial('Equipment serial no.', item.item_id);
+
+    const upgrades = await service.getLibraryUpgrades();
+    expect(upgrades).toMatchObject([{ templateId: template.id, fromVersion: 1, toVersion: 2 }]);
+
+    // Patches from the editor are applied locally and stored as links too
+    const [latest] = await service.getLibraryItems();
+    const upgraded = applyLibraryUpgrade(saved.data!, latest);
+    const patched = await service.patchTemplate(template.id, diffTemplate(saved.data!, upgraded), saved.data!.version);
+
+    expect(patched.success).toBe(true);
+    expect(patched.data!.field_definitions['field-equipment-serial-number'].label).toBe('Equipment serial no.');
+    expect(db.get(template.id).field_definitions['field-equipment-serial-number'].library.version).toBe(2);
+    expect(await service.getLibraryUpgrades(template.id)).toEqual([]);
+  });
+});
+
+describe('TemplateEditor field library', () => {
+  test('should mark linked content and offer upgrades and the picker', () => {
+    const linked = { ...template, ...insertLibraryItem(template, serialItem(1, 'Serial number')) };
+    const html = renderToStaticMarkup(createElement(TemplateEditor, {
+      template: linked,
+      library: [serialItem(2, 'Equipment serial no.'), signOff],
+      onUpdate: async () => ({ success: true }),
+      onBack: () => {}
+    }));
+
+    expect(html).toContain('field-serial<span class="library-badge">Library: Equipment Serial Number v1</span>');
+    expect(html).toContain('Equipment Serial Number: version 1 → 2<button>Upgrade</button>');
+    expect(html).toContain('<option value="sign-off">Sign-off (section, version 1)</option>');
+    expect(html).toContain('<button>Unlink</button>');
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * InspectionForm rendering and input handling
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import {
+  InspectionForm,
+  InspectionFormState,
+  InspectionFormAction,
+  initialInspectionFormState,
+  inspectionFormReducer
+} from '../src/components/InspectionForm';
+import { TemplateList } from '../src/components/TemplateList';
+import { resolveEffectiveTemplate } from '../src/services/variants';
+import { Template, ResponseValidationError } from '../src/types';
+import { createTestTemplate } from '../src/test-utils';
+
+const template = createTestTemplate({
+  sections: [
+    { id: 'section-2', title: 'Checks', fields: ['field-3', 'field-4', 'field-5'], order: 2 },
+    { id: 'section-1', title: 'General Information', fields: ['field-1', 'field-2'], order: 1 }
+  ],
+  field_definitions: {
+    'field-1': { id: 'field-1', type: 'text', label: 'Equipment Name', required: true },
+    'field-2': { id: 'field-2', type: 'number', label: 'Serial Number', required: false },
+    'field-3': { id: 'field-3', type: 'select', label: 'Condition', required: true, options: ['Good', 'Poor'] },
+    'field-4': { id: 'field-4', type: 'checkbox', label: 'Guard fitted', required: false },
+    'field-5': { id: 'field-5', type: 'date', label: 'Next service', required: false }
+  },
+  inspection_variants: [
+    {
+      id: 'offshore',
+      name: 'Offshore',
+      conditions: { attribute: 'site', operator: 'eq', value: 'offshore' },
+      fieldOverrides: { 'field-2': { required: true }, 'field-5': { hidden: true } }
+    }
+  ]
+}) as Template;
+
+const render = (props: object = {}) =>
+  renderToStaticMarkup(createElement(InspectionForm, { template, onSubmit: () => {}, ...props }));
+
+describe('InspectionForm', () => {
+  test('should render sections in order', () => {
+    const html = render();
+    expect(html.indexOf('General Information')).toBeLessThan(html.indexOf('Checks'));
+  });
+
+  test('should render an input for each field type', () => {
+    const html = render();
+
+    expect(html).toContain('id="field-field-1" type="text"');
+    expect(html).toContain('id="field-field-2" type="number"');
+    expect(html).toContain('id="field-field-4" type="checkbox"');
+    expect(html).toContain('id="field-field-5" type="date"');
+    expect(html).toMatch(/<select id="field-field-3"[^>]*>.*<option value="Good">Good<\/option><option value="Poor">Poor<\/option>/);
+  });
+
+  test('should mark required fields', () => {
+    const html = render();
+    const markers = html.match(/class="required-marker"/g) || [];
+
+    expect(markers).toHaveLength(2);
+  });
+
+  test('should apply variant overrides for the inspection context', () => {
+    const html = render({ context: { site: 'offshore' } });
+
+    expect(html.match(/class="required-marker"/g)).toHaveLength(3);
+    expect(html).not.toContain('Next service');
+  });
+
+  test('should prefill initial responses', () => {
+    const html = render({ initialResponses: { 'field-1': 'Pump 7', 'field-3': 'Poor' } });
+
+    expect(html).toContain('value="Pump 7"');
+    expect(html).toMatch(/<option value="Poor" selected="">/);
+  });
+});
+
+describe('InspectionForm input', () => {
+  const run = (state: InspectionFormState, ...actions: InspectionFormAction[]) =>
+    actions.reduce(inspectionFormReducer, state);
+
+  test('should block submit until required answers are given, clearing errors as fields change', () => {
+    let state = run(initialInspectionFormState(template), { type: 'submit', template });
+
+    expect(Object.keys(state.errors).sort()).toEqual(['field-1', 'field-3']);
+    expect(state.submitted).toBeUndefined();
+
+    state = run(state, { type: 'change', fieldId: 'field-1', value: 'Pump 7' });
+    expect(Object.keys(state.errors)).toEqual(['field-3']);
+
+    state = run(state, { type: 'change', fieldId: 'field-3', value: 'Good' }, { type: 'submit', template });
+    expect(state.errors).toEqual({});
+    expect(state.submitted).toEqual({ 'field-1': 'Pump 7', 'field-3': 'Good', 'field-4': false });
+  });
+
+  test('should validate and submit only what the inspection\'s variant shows', () => {
+    const offshore = resolveEffectiveTemplate(template, { site: 'offshore' }).template;
+    const filled = run(
+      initialInspectionFormState(template, { 'field-1': 'Pump 7', 'field-3': 'Poor', 'field-5': '2030-01-01' }),
+      { type: 'submit', template: offshore }
+    );
+
+    expect(Object.keys(filled.errors)).toEqual(['field-2']);
+
+    const submitted = run(filled, { type: 'change', fieldId: 'field-2', value: 42 }, { type: 'submit', template: offshore });
+    expect(submitted.submitted).toEqual({ 'field-1': 'Pump 7', 'field-2': 42, 'field-3': 'Poor', 'field-4': false });
+  });
+
+  test('should show why a submit was refused and let it be retried', () => {
+    const valid = run(
+      initialInspectionFormState(template, { 'field-1': 'Pump 7', 'field-3': 'Good' }),
+      { type: 'submit', template }
+    );
+    const errors = { 'field-1': [{ fieldId: 'field-1', rule: 'pattern' as const, message: 'Use the asset tag' }] };
+
+    const refused = run(valid, {
+      type: 'rejected',
+      result: { success: false, error: new ResponseValidationError('Response is incomplete or invalid', errors), errors }
+    });
+
+    expect(refused).toMatchObject({ errors, submitError: 'Response is incomplete or invalid' });
+    expect(refused.submitted).toBeUndefined();
+    expect(run(refused, { type: 'submit', template }).submitted).toEqual(valid.submitted);
+  });
+});
+
+describe('TemplateList inspections', () => {
+  test('should offer inspections only of templates in use', () => {
+    const published = { ...template, state: 'published' as const, published: { ...template, published_at: template.updated_at } };
+    const html = renderToStaticMarkup(createElement(TemplateList, {
+      templates: [published, { ...published, id: 'old', state: 'archived' as const }, { ...template, id: 'new', state: 'draft' as const }],
+      onSelectTemplate: () => {},
+      onStartInspection: () => {}
+    }));
+
+    expect(html.match(/<button>Start inspection<\/button>/g)).toHaveLength(1);
+  });
+});
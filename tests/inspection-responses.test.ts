@@ -0,0 +1,196 @@
+/**
+ * Storing inspection responses against exact template versions
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { TemplateService } from '../src/services/TemplateService';
+import { InspectionResponseService } from '../src/services/InspectionResponseService';
+import {
+  Template,
+  ServiceContext,
+  VersionConflictError,
+  ResponseValidationError,
+  UpdateFailedError,
+  TenantIsolationError
+} from '../src/types';
+import { MockDatabase, createMockSupabase, createTestTemplate } from '../src/test-utils';
+
+describe('InspectionResponseService', () => {
+  let db: MockDatabase;
+  let templates: TemplateService;
+  let responses: InspectionResponseService;
+  let base: Template;
+
+  beforeEach(() => {
+    db = new MockDatabase();
+    const supabase = createMockSupabase(db);
+    templates = new TemplateService(supabase);
+    responses = new InspectionResponseService(supabase, templates);
+
+    base = createTestTemplate() as Template;
+    db.set(base.id, base);
+  });
+
+  test('should record the template id and version a response was started against', async () => {
+    const { data } = await responses.startResponse(base.id, '1.0.0', { inspector: 'sam@example.com' });
+
+    expect(data).toMatchObject({
+      template_id: base.id,
+      template_version: '1.0.0',
+      status: 'in_progress',
+      version: 1,
+      answers: {}
+    });
+    expect(db.get(data!.id, 'inspection_responses')).toMatchObject({ organization_id: 'org-123' });
+  });
+
+  test('should refuse to start a response against a version the template never had', async () => {
+    const result = await responses.startResponse(base.id, '9.0.0');
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBeInstanceOf(UpdateFailedError);
+    expect(db.all('inspection_responses')).toEqual([]);
+  });
+
+  test('should only start responses against the published version of an available template', async () => {
+    await templates.updateTemplate(base.id, { name: 'Renamed' }, base);
+
+    const draft = await responses.startResponse(base.id, '1.0.1');
+    await templates.archiveTemplate(base.id);
+    const archived = await responses.startResponse(base.id, '1.0.0');
+
+    expect(draft.error?.message).toBe(`Version 1.0.1 of template ${base.id} is not the published version`);
+    expect(archived.error?.message).toBe(`Template ${base.id} is not available for new inspections`);
+    expect(db.all('inspection_responses')).toEqual([]);
+  });
+
+  test('should merge partial saves and bump the response version', async () => {
+    const { data: started } = await responses.startResponse(base.id, '1.0.0');
+
+    const first = await responses.saveProgress(started!.id, { 'field-1': 'Pump 7' }, 1);
+    const second = await responses.saveProgress(started!.id, { 'field-2': 42 }, 2);
+
+    expect(first.data?.version).toBe(2);
+    expect(second.data?.answers).toEqual({ 'field-1': 'Pump 7', 'field-2': 42 });
+    expect(second.data?.version).toBe(3);
+  });
+
+  test('should reject saves based on a stale response version', async () => {
+    const { data: started } = await responses.startResponse(base.id, '1.0.0');
+    await responses.saveProgress(started!.id, { 'field-1': 'Mine' }, 1);
+
+    const stale = await responses.saveProgress(started!.id, { 'field-1': 'Theirs' }, 1);
+
+    expect(stale.success).toBe(false);
+    expect(stale.error).toBeInstanceOf(VersionConflictError);
+    expect(db.get(started!.id, 'inspection_responses').answers['field-1']).toBe('Mine');
+  });
+
+  test('should refuse to submit without the required fields of its template version', async () => {
+    const { data: started } = await responses.startResponse(base.id, '1.0.0');
+
+    const result = await responses.submitResponse(started!.id, 1, { 'field-2': 7 });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBeInstanceOf(ResponseValidationError);
+    expect(Object.keys(result.errors!)).toEqual(['field-1']);
+    expect(db.get(started!.id, 'inspection_responses').status).toBe('in_progress');
+  });
+
+  test('should validate against the captured version, not the latest one', async () => {
+    const { data: started } = await responses.startResponse(base.id, '1.0.0');
+
+    // Serial number becomes required after the inspection started
+    await templates.updateTemplate(base.id, {
+      field_definitions: {
+        ...base.field_definitions,
+        'field-2': { ...base.field_definitions['field-2'], required: true }
+      }
+    }, base);
+
+    const result = await responses.submitResponse(started!.id, 1, { 'field-1': 'Pump 7' });
+
+    expect(result.success).toBe(true);
+    expect(result.data?.status).toBe('submitted');
+    expect(result.data?.submitted_at).toBeTruthy();
+  });
+
+  test('should not change submitted responses', async () => {
+    const { data: started } = await responses.startResponse(base.id, '1.0.0', { answers: { 'field-1': 'Pump 7' } });
+    await responses.submitResponse(started!.id, 1);
+
+    const result = await responses.saveProgress(started!.id, { 'field-1': 'Changed' }, 2);
+
+    expect(result.error).toBeInstanceOf(UpdateFailedError);
+  });
+
+  test('should start and submit inspections without a database during development', async () => {
+    const offline = new InspectionResponseService();
+
+    const { data: started } = await offline.startResponse('template-1', '1.0.0', { answers: { field1: 'Pump 7' } });
+    const submitted = await offline.submitResponse(started!.id, started!.version);
+
+    expect(started).toMatchObject({ template_id: 'template-1', status: 'in_progress', answers: { field1: 'Pump 7' } });
+    expect(submitted).toMatchObject({ success: true, data: { id: started!.id, status: 'submitted', version: 2 } });
+  });
+
+  test('should list and filter responses by template and version', async () => {
+    const other = createTestTemplate({ id: 'other-template' }) as Template;
+    db.set(other.id, other);
+    await responses.startResponse(base.id, '1.0.0');
+    await templates.updateTemplate(base.id, { name: 'Renamed' }, base);
+    await templates.publishTemplate(base.id);
+    await responses.startResponse(base.id, '1.0.1');
+    await responses.startResponse(other.id, '1.0.0');
+
+    expect(await responses.listResponses()).toHaveLength(3);
+    expect(await responses.listResponses({ templateId: base.id })).toHaveLength(2);
+    const pinned = await responses.listResponses({ templateId: base.id, templateVersion: '1.0.1' });
+    expect(pinned.map(r => r.template_version)).toEqual(['1.0.1']);
+    expect(await responses.listResponses({ status: 'submitted' })).toHaveLength(0);
+  });
+});
+
+describe('InspectionResponseService tenant isolation', () => {
+  let db: MockDatabase;
+  const alice: ServiceContext = { orgId: 'org-a', userId: 'alice' };
+  const bob: ServiceContext = { orgId: 'org-b', userId: 'bob' };
+
+  const serviceFor = (context: ServiceContext) => {
+    db.set(`member-${context.userId}`, { organization_id: context.orgId, user_id: context.userId, role: 'editor' }, 'organization_members');
+    const supabase = createMockSupabase(db, { auth: context });
+    return new InspectionResponseService(supabase, undefined, { context });
+  };
+
+  beforeEach(() => {
+    db = new MockDatabase();
+    db.set('ours', createTestTemplate({ id: 'ours', organization_id: 'org-a' }));
+  });
+
+  test('should keep responses within the template\'s organization', async () => {
+    const { data: started } = await serviceFor(alice).startResponse('ours', '1.0.0', { answers: { 'field-1': 'Pump 7' } });
+    const theirs = serviceFor(bob);
+
+    expect(started!.organization_id).toBe('org-a');
+    expect(await theirs.getResponse(started!.id)).toBeNull();
+    expect(await theirs.listResponses()).toEqual([]);
+    expect((await theirs.saveProgress(started!.id, { 'field-1': 'Tampered' }, 1)).error).toBeInstanceOf(UpdateFailedError);
+    expect(db.get(started!.id, 'inspection_responses').answers['field-1']).toBe('Pump 7');
+  });
+
+  test('should not start responses against another organization\'s template', async () => {
+    const result = await serviceFor(bob).startResponse('ours', '1.0.0');
+
+    expect(result.error).toBeInstanceOf(TenantIsolationError);
+    expect(db.all('inspection_responses')).toEqual([]);
+  });
+
+  test('should keep declared migrations within the template\'s organization', async () => {
+    const plan = { template_id: 'ours', from_version: '1.0.0', to_version: '1.0.1', mappings: [] };
+
+    await serviceFor(alice).declareMigration(plan);
+    await expect(serviceFor(bob).declareMigration(plan)).rejects.toBeInstanceOf(TenantIsolationError);
+
+    expect(db.all('response_migrations')).toMatchObject([{ organization_id: 'org-a' }]);
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * JSON Patch (RFC 6902) template updates
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { TemplateService } from '../src/services/TemplateService';
+import { applyPatch, diffTemplate, validatePatch } from '../src/services/jsonPatch';
+import { JsonPatchError, MergeConflictError, Template } from '../src/types';
+import { MockDatabase, createMockSupabase, createTestTemplate } from '../src/test-utils';
+
+describe('JSON Patch', () => {
+  describe('applyPatch', () => {
+    const doc = { sections: [{ id: 'a' }, { id: 'b' }], field_definitions: { 'x/y': { label: 'XY' } } };
+
+    test('should apply operations without mutating the input', () => {
+      const result = applyPatch(doc, [
+        { op: 'add', path: '/sections/-', value: { id: 'c' } },
+        { op: 'remove', path: '/sections/0' },
+        { op: 'replace', path: '/field_definitions/x~1y/label', value: 'Renamed' },
+        { op: 'copy', from: '/field_definitions/x~1y', path: '/field_definitions/z' },
+        { op: 'move', from: '/sections/0', path: '/sections/1' }
+      ]);
+
+      expect(result).toEqual({
+        sections: [{ id: 'c' }, { id: 'b' }],
+        field_definitions: { 'x/y': { label: 'Renamed' }, z: { label: 'Renamed' } }
+      });
+      expect(doc.sections).toHaveLength(2);
+    });
+
+    test('should reject failed tests and missing paths', () => {
+      expect(() => applyPatch(doc, [{ op: 'test', path: '/sections/0/id', value: 'b' }]))
+        .toThrow(JsonPatchError);
+      expect(() => applyPatch(doc, [{ op: 'remove', path: '/sections/5' }]))
+        .toThrow('does not exist');
+    });
+
+    test('should only allow patchable columns', () => {
+      expect(() => validatePatch([{ op: 'replace', path: '/version', value: '9.9.9' }]))
+        .toThrow('not a patchable template column');
+    });
+  });
+
+  describe('TemplateService.patchTemplate', () => {
+    let db: MockDatabase;
+    let service: TemplateService;
+    let base: Template;
+
+    beforeEach(() => {
+      db = new MockDatabase();
+      service = new TemplateService(createMockSupabase(db));
+      base = createTestTemplate() as Template;
+      db.set(base.id, base);
+    });
+
+    test('should apply a diff built from the editor state', async () => {
+      const edited: Template = {
+        ...base,
+        field_definitions: {
+          ...base.field_definitions,
+          'field-2': { ...base.field_definitions['field-2'], label: 'Serial #' }
+        }
+      };
+
+      const result = await service.patchTemplate(base.id, diffTemplate(base, edited), base.version);
+
+      expect(result.success).toBe(true);
+      expect(result.newVersion).toBe('1.0.1');
+      expect(db.get(base.id).field_definitions['field-2'].label).toBe('Serial #');
+    });
+
+    test('should rebase onto a newer version when sibling fields changed', async () => {
+      db.update(base.id, {
+        version: '1.0.1',
+        field_definitions: {
+          ...base.field_definitions,
+          'field-1': { ...base.field_definitions['field-1'], label: 'Asset Name' }
+        }
+      });
+
+      const result = await service.patchTemplate(base.id, [
+        { op: 'test', path: '/field_definitions/field-2/required', value: false },
+        { op: 'replace', path: '/field_definitions/field-2/required', value: true }
+      ], base.version);
+
+      expect(result.success).toBe(true);
+      expect(result.merged).toBe(true);
+      const final = db.get(base.id);
+      expect(final.field_definitions['field-1'].label).toBe('Asset Name');
+      expect(final.field_definitions['field-2'].required).toBe(true);
+    });
+
+    test('should report a conflict when the tested value changed', async () => {
+      db.update(base.id, {
+        version: '1.0.1',
+        name: 'Renamed elsewhere'
+      });
+
+      const result = await service.patchTemplate(base.id, [
+        { op: 'test', path: '/name', value: base.name },
+        { op: 'replace', path: '/name', value: 'Mine' }
+      ], base.version);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBeInstanceOf(MergeConflictError);
+      expect(result.conflicts).toEqual([
+        { path: '/name', base: base.name, ours: 'Mine', theirs: 'Renamed elsewhere' }
+      ]);
+    });
+  });
+});
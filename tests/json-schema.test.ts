@@ -0,0 +1,133 @@
+/**
+ * JSON Schema generation for inspection responses
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import Ajv2020 from 'ajv/dist/2020';
+import addFormats from 'ajv-formats';
+import { templateToJsonSchema } from '../src/services/jsonSchema';
+import { validateResponse } from '../src/services/validation';
+import { Template, InspectionAnswers } from '../src/types';
+import { createTestTemplate } from '../src/test-utils';
+
+const template = createTestTemplate({
+  sections: [
+    { id: 'section-2', title: 'Checks', fields: ['condition', 'guard', 'next-service'], order: 2 },
+    { id: 'section-1', title: 'General', fields: ['field-1', 'field-2'], order: 1 }
+  ],
+  field_definitions: {
+    'next-service': {
+      id: 'next-service',
+      type: 'date',
+      label: 'Next service',
+      required: false,
+      validation: [{ kind: 'dateRange', minDaysFromToday: 0, maxDaysFromToday: 365 }]
+    },
+    'field-1': {
+      id: 'field-1',
+      type: 'text',
+      label: 'Equipment Name',
+      required: true,
+      validation: [{ kind: 'maxLength', value: 80 }, { kind: 'pattern', pattern: '^[A-Z]', flags: 'i' }]
+    },
+    'field-2': {
+      id: 'field-2',
+      type: 'number',
+      label: 'Serial Number',
+      required: false,
+      validation: [{ kind: 'min', value: 1 }, { kind: 'max', value: 99999 }]
+    },
+    'condition': { id: 'condition', type: 'select', label: 'Condition', required: true, options: ['Good', 'Poor'] },
+    'guard': { id: 'guard', type: 'checkbox', label: 'Guard fitted', required: false }
+  },
+  inspection_variants: [
+    {
+      id: 'offshore',
+      name: 'Offshore',
+      conditions: { attribute: 'site', operator: 'eq', value: 'offshore' },
+      fieldOverrides: { 'field-2': { required: true }, 'next-service': { hidden: true } }
+    }
+  ]
+}) as Template;
+
+describe('templateToJsonSchema', () => {
+  test('should describe the response object', () => {
+    expect(templateToJsonSchema(template)).toEqual({
+      $schema: 'https://json-schema.org/draft/2020-12/schema',
+      $id: 'urn:inspection-template:test-template-123:1.0.0',
+      title: 'Test Template',
+      type: 'object',
+      properties: {
+        'field-1': {
+          title: 'Equipment Name',
+          type: 'string',
+          minLength: 1,
+          maxLength: 80,
+          pattern: '^[A-Z]',
+          $comment: 'Pattern is matched with flags "i".'
+        },
+        'field-2': {
+          title: 'Serial Number',
+          anyOf: [{ type: 'number', minimum: 1, maximum: 99999 }, { enum: [null, ''] }]
+        },
+        'condition': { title: 'Condition', type: 'string', enum: ['Good', 'Poor'] },
+        'guard': { title: 'Guard fitted', anyOf: [{ type: 'boolean' }, { enum: [null, ''] }] },
+        'next-service': {
+          title: 'Next service',
+          anyOf: [{ type: 'string', format: 'date' }, { enum: [null, ''] }],
+          $comment: 'Must be no earlier than today and no later than 365 days after today.'
+        }
+      },
+      required: ['field-1', 'condition'],
+      additionalProperties: false
+    });
+  });
+
+  test('should list properties in section order', () => {
+    const schema = templateToJsonSchema(template);
+
+    expect(Object.keys(schema.properties as object)).toEqual(['field-1', 'field-2', 'condition', 'guard', 'next-service']);
+  });
+
+  test('should apply a variant\'s overrides', () => {
+    const schema = templateToJsonSchema(template, { variant: 'offshore' });
+
+    expect(schema.$id).toBe('urn:inspection-template:test-template-123:1.0.0:offshore');
+    expect(schema.required).toEqual(['field-1', 'field-2', 'condition']);
+    expect(schema.properties).not.toHaveProperty('next-service');
+    expect(() => templateToJsonSchema(template, { variant: 'missing' })).toThrow('no variant "missing"');
+  });
+
+  test('should accept exactly the responses validateResponse accepts', () => {
+    const ajv = new Ajv2020({ strict: false });
+    addFormats(ajv);
+    const matchesSchema = ajv.compile(templateToJsonSchema(template));
+    const today = new Date().toISOString().slice(0, 10);
+    const responses: InspectionAnswers[] = [
+      { 'field-1': 'Pump 7', 'condition': 'Good' },
+      { 'field-1': 'Pump 7', 'condition': 'Good', 'field-2': 12, 'guard': true, 'next-service': today },
+      { 'field-1': 'Pump 7', 'condition': 'Good', 'field-2': '', 'guard': '', 'next-service': '' },
+      { 'field-1': 'Pump 7', 'condition': 'Good', 'field-2': null, 'guard': null, 'next-service': null },
+      { 'field-1': '', 'condition': 'Good' },
+      { 'field-1': 'Pump 7', 'condition': 'Fair' },
+      { 'field-1': '7 pumps', 'condition': 'Good' },
+      { 'field-1': 'Pump 7', 'condition': 'Good', 'field-2': 0 },
+      { 'field-1': 'Pump 7', 'condition': 'Good', 'guard': 'yes' },
+      { 'condition': 'Good' }
+    ];
+
+    const verdicts = responses.map(answers => [validateResponse(template, answers).valid, matchesSchema(answers)]);
+
+    expect(verdicts.map(([ours]) => ours)).toEqual([true, true, true, true, false, false, false, false, false, false]);
+    verdicts.forEach(([ours, schema]) => expect(schema).toBe(ours));
+  });
+
+  test('should be deterministic regardless of definition key order', () => {
+    const reordered = {
+      ...template,
+      field_definitions: Object.fromEntries(Object.entries(template.field_definitions).reverse())
+    };
+
+    expect(JSON.stringify(templateToJsonSchema(reordered))).toBe(JSON.stringify(templateToJsonSchema(template)));
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Query semantics of the mock Supabase client
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { SupabaseClient } from '../src/types';
+import { MockDatabase, createMockSupabase, TEMPLATES_TABLE } from '../src/test-utils';
+
+const ITEMS = 'items';
+
+describe('createMockSupabase queries', () => {
+  let db: MockDatabase;
+  let client: SupabaseClient;
+
+  beforeEach(() => {
+    db = new MockDatabase();
+    client = createMockSupabase(db);
+    [
+      { id: 'a', name: 'Anchor bolt', size: 3, group: 'fixings' },
+      { id: 'b', name: 'Bracket', size: 10, group: 'fixings' },
+      { id: 'c', name: 'Cable tie', size: 1, group: 'electrical' },
+      { id: 'd', name: 'Duct', size: null, group: 'electrical' }
+    ].forEach(row => db.set(row.id, row, ITEMS));
+  });
+
+  const ids = (rows: any[]) => rows.map(row => row.id);
+
+  test('should filter with comparisons, lists and patterns', async () => {
+    expect(ids((await client.from(ITEMS).select('*').neq('group', 'fixings')).data)).toEqual(['c', 'd']);
+    expect(ids((await client.from(ITEMS).select('*').in('id', ['a', 'c', 'z'])).data)).toEqual(['a', 'c']);
+    expect(ids((await client.from(ITEMS).select('*').gt('size', 1).lte('size', 10)).data)).toEqual(['a', 'b']);
+    expect(ids((await client.from(ITEMS).select('*').gte('size', 3).lt('size', 10)).data)).toEqual(['a']);
+    expect(ids((await client.from(ITEMS).select('*').ilike('name', '%B%')).data)).toEqual(['a', 'b', 'c']);
+    expect(ids((await client.from(ITEMS).select('*').ilike('name', 'c_ble%')).data)).toEqual(['c']);
+    // Comparisons never match a null value
+    expect(ids((await client.from(ITEMS).select('*').neq('size', 3)).data)).toEqual(['b', 'c']);
+  });
+
+  test('should order, page and count', async () => {
+    const ordered = await client.from(ITEMS).select('id', { count: 'exact' }).order('size', { ascending: false }).range(1, 2);
+
+    expect(ordered).toEqual({ data: [{ id: 'b' }, { id: 'a' }], count: 4, error: null });
+    expect(ids((await client.from(ITEMS).select('*').order('size').limit(2)).data)).toEqual(['c', 'a']);
+    expect(ids((await client.from(ITEMS).select('*').order('size', { nullsFirst: true })).data)).toEqual(['d', 'c', 'a', 'b']);
+    expect(ids((await client.from(ITEMS).select('*').order('group').order('name', { ascending: false })).data))
+      .toEqual(['d', 'c', 'b', 'a']);
+    expect(await client.from(ITEMS).select('*', { count: 'exact', head: true }).eq('group', 'fixings'))
+      .toEqual({ data: null, count: 2, error: null });
+  });
+
+  test('should tell single from maybeSingle', async () => {
+    expect((await client.from(ITEMS).select('*').eq('id', 'z').maybeSingle())).toEqual({ data: null, error: null });
+    expect((await client.from(ITEMS).select('*').eq('id', 'z').single()).error.code).toBe('PGRST116');
+    expect((await client.from(ITEMS).select('*').eq('group', 'fixings').maybeSingle()).error.code).toBe('PGRST116');
+  });
+
+  test('should update and delete every matching row', async () => {
+    const updated = await client.from(ITEMS).update({ group: 'hardware' }).eq('group', 'fixings').select('id, group');
+    expect(updated.data).toEqual([{ id: 'a', group: 'hardware' }, { id: 'b', group: 'hardware' }]);
+
+    const deleted = await client.from(ITEMS).delete().lt('size', 5);
+    expect(ids(deleted.data)).toEqual(['a', 'c']);
+    expect(ids(db.all(ITEMS))).toEqual(['b', 'd']);
+  });
+
+  test('should insert or update on upsert', async () => {
+    const { data } = await client.from(ITEMS).upsert([
+      { id: 'a', size: 4 },
+      { id: 'e', name: 'Eye bolt', size: 6, group: 'fixings' }
+    ]);
+
+    expect(data).toEqual([
+      { id: 'a', name: 'Anchor bolt', size: 4, group: 'fixings' },
+      { id: 'e', name: 'Eye bolt', size: 6, group: 'fixings' }
+    ]);
+    expect((await client.from(ITEMS).insert({ id: 'e', name: 'Again' })).error.code).toBe('23505');
+
+    await client.from(ITEMS).upsert({ id: 'other', name: 'Bracket', size: 11 }, { onConflict: 'name', ignoreDuplicates: true });
+    expect(db.get('b', ITEMS).size).toBe(10);
+    expect(db.get('other', ITEMS)).toBeNull();
+  });
+
+  test('should keep row-level security and leases on the new writes', async () => {
+    db.set('t-1', { id: 't-1', name: 'Ours', organization_id: 'org-a' });
+    db.set('t-2', { id: 't-2', name: 'Theirs', organization_id: 'org-b' });
+    const scoped = createMockSupabase(db, { auth: { orgId: 'org-a' } });
+
+    expect(ids((await scoped.from(TEMPLATES_TABLE).delete().neq('name', 'none')).data)).toEqual(['t-1']);
+    expect(db.get('t-2')).not.toBeNull();
+    expect((await scoped.from(TEMPLATES_TABLE).upsert({ id: 't-2', name: 'Hijacked' })).error.code).toBe('42501');
+
+    db.acquireLock('t-2', 'processor');
+    const leased = await client.from(TEMPLATES_TABLE).upsert({ id: 't-2', name: 'Stale' });
+    expect(leased.error.code).toBe('LEASE_INVALID');
+    expect(db.get('t-2').name).toBe('Theirs');
+  });
+});
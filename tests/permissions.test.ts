@@ -0,0 +1,120 @@
+/**
+ * Role-based template permissions
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { TemplateService } from '../src/services/TemplateService';
+import { permissionsFor } from '../src/services/permissions';
+import { TemplateEditor } from '../src/components/TemplateEditor';
+import { TemplateList } from '../src/components/TemplateList';
+import { Template, Role, PermissionDeniedError } from '../src/types';
+import { MockDatabase, createMockSupabase, createTestTemplate } from '../src/test-utils';
+
+describe('Template permissions', () => {
+  let db: MockDatabase;
+  let template: Template;
+
+  const serviceAs = (role: Role | null) => {
+    const context = { orgId: 'org-123', userId: `${role}-user` };
+    if (role) {
+      db.set(`member-${role}`, { organization_id: 'org-123', user_id: context.userId, role }, 'organization_members');
+    }
+    return new TemplateService(createMockSupabase(db, { auth: context }), { context });
+  };
+
+  beforeEach(() => {
+    db = new MockDatabase();
+    template = createTestTemplate() as Template;
+    db.set(template.id, template);
+  });
+
+  test('should let viewers read but not edit', async () => {
+    const service = serviceAs('viewer');
+
+    expect((await service.getTemplates()).templates).toHaveLength(1);
+    const result = await service.updateTemplate(template.id, { name: 'Renamed' }, template);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBeInstanceOf(PermissionDeniedError);
+    expect((result.error as PermissionDeniedError).action).toBe('edit');
+    expect(db.get(template.id).name).toBe('Test Template');
+  });
+
+  test('should let editors edit but not publish', async () => {
+    const service = serviceAs('editor');
+
+    expect((await service.updateTemplate(template.id, { name: 'Renamed' }, template)).success).toBe(true);
+    const publish = await service.publishTemplate(template.id);
+
+    expect(publish.error).toBeInstanceOf(PermissionDeniedError);
+  });
+
+  test('should reserve archiving for admins', async () => {
+    const publisher = await serviceAs('publisher').archiveTemplate(template.id);
+    const admin = await serviceAs('admin').archiveTemplate(template.id);
+
+    expect(publisher.error).toBeInstanceOf(PermissionDeniedError);
+    expect(admin.success).toBe(true);
+  });
+
+  test('should deny everything to non-members', async () => {
+    const service = serviceAs(null);
+
+    await expect(service.getTemplates()).rejects.toBeInstanceOf(PermissionDeniedError);
+    expect(await service.getPermissions()).toEqual({ view: false, edit: false, publish: false, archive: false });
+  });
+
+  test('should report the permissions of the bound role', async () => {
+    expect(await serviceAs('publisher').getPermissions()).toEqual({
+      view: true,
+      edit: true,
+      publish: true,
+      archive: false
+    });
+  });
+
+  describe('components', () => {
+    test('should render the editor read-only without edit rights', () => {
+      const html = renderToStaticMarkup(createElement(TemplateEditor, {
+        template,
+        onUpdate: async () => ({ success: true }),
+        onPublish: async () => ({ success: true }),
+        onBack: () => {},
+        permissions: permissionsFor('viewer')
+      }));
+
+      expect(html).toContain('View Draft');
+      expect(html).not.toContain('Save Changes');
+      expect(html).not.toContain('Publish');
+      expect(html).toMatch(/id="template-name"[^>]*disabled=""/);
+    });
+
+    test('should only offer actions the role allows in the editor', () => {
+      const html = renderToStaticMarkup(createElement(TemplateEditor, {
+        template,
+        onUpdate: async () => ({ success: true }),
+        onPublish: async () => ({ success: true }),
+        onArchive: async () => ({ success: true }),
+        onBack: () => {},
+        permissions: permissionsFor('publisher')
+      }));
+
+      expect(html).toContain('Save Changes');
+      expect(html).toContain('Publish');
+      expect(html).not.toContain('Archive');
+    });
+
+    test('should offer viewing instead of editing in the list', () => {
+      const html = renderToStaticMarkup(createElement(TemplateList, {
+        templates: [template],
+        onSelectTemplate: () => {},
+        permissions: permissionsFor('viewer')
+      }));
+
+      expect(html).toContain('View draft');
+      expect(html).not.toContain('Edit draft');
+    });
+  });
+});
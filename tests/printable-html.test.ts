@@ -0,0 +1,76 @@
+/**
+ * Printable HTML forms and reports
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { renderTemplateToHtml } from '../src/services/printableHtml';
+import { Template } from '../src/types';
+import { createTestTemplate } from '../src/test-utils';
+
+const template = createTestTemplate({
+  updated_at: '2024-05-01T09:30:00.000Z',
+  sections: [
+    { id: 'section-2', title: 'Checks', fields: ['field-3', 'field-4'], order: 2 },
+    { id: 'section-1', title: 'General Information', fields: ['field-1', 'field-2'], order: 1 }
+  ],
+  field_definitions: {
+    'field-1': { id: 'field-1', type: 'text', label: 'Equipment Name', required: true },
+    'field-2': { id: 'field-2', type: 'number', label: 'Serial Number', required: false },
+    'field-3': { id: 'field-3', type: 'select', label: 'Condition', required: true, options: ['Good', 'Poor'] },
+    'field-4': { id: 'field-4', type: 'checkbox', label: 'Guard <fitted>', required: false }
+  },
+  inspection_variants: [
+    {
+      id: 'offshore',
+      name: 'Offshore',
+      conditions: { attribute: 'site', operator: 'eq', value: 'offshore' },
+      fieldOverrides: { 'field-2': { required: true }, 'field-4': { hidden: true } }
+    }
+  ]
+}) as Template;
+
+describe('renderTemplateToHtml', () => {
+  test('should produce a self-contained document with print styles', () => {
+    const html = renderTemplateToHtml(template);
+
+    expect(html.startsWith('<!DOCTYPE html><html lang="en">')).toBe(true);
+    expect(html).toContain('<style>');
+    expect(html).toContain('@page');
+    expect(html).not.toMatch(/<link|<script/);
+  });
+
+  test('should render a blank form with sections in order', () => {
+    const html = renderTemplateToHtml(template);
+
+    expect(html.indexOf('General Information')).toBeLessThan(html.indexOf('Checks'));
+    expect(html).toContain('Equipment Name<span class="required"> *</span></span><span class="blank"></span>');
+    expect(html).toContain('<li><span class="box">☐</span>Good</li><li><span class="box">☐</span>Poor</li>');
+    expect(html).toContain('Guard &lt;fitted&gt;');
+  });
+
+  test('should fill in responses', () => {
+    const html = renderTemplateToHtml(template, {
+      responses: { 'field-1': 'Pump 7', 'field-3': 'Poor', 'field-4': true }
+    });
+
+    expect(html).toContain('<title>Test Template - Inspection Report</title>');
+    expect(html).toContain('<span class="value">Pump 7</span>');
+    expect(html).toContain('<span class="value">—</span>');
+    expect(html).toContain('<li><span class="box">☒</span>Poor</li>');
+    expect(html).toContain('<span class="box">☒</span>Yes');
+  });
+
+  test('should trace printouts to the template version', () => {
+    const html = renderTemplateToHtml(template, { responses: {} });
+
+    expect(html).toMatch(/<footer>Test Template · version 1\.0\.0 · last updated 2024-05-01T09:30:00\.000Z<\/footer>/);
+  });
+
+  test('should apply variants for the inspection context', () => {
+    const html = renderTemplateToHtml(template, { variantContext: { site: 'offshore' } });
+
+    expect(html).toContain('Variant: Offshore.');
+    expect(html).toContain('Serial Number<span class="required"> *</span>');
+    expect(html).not.toContain('Guard');
+  });
+});
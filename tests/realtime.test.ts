@@ -0,0 +1,130 @@
+/**
+ * Realtime change subscriptions
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { TemplateService } from '../src/services/TemplateService';
+import { TemplateFieldProcessor, initializeSupabase } from '../src/problem';
+import { applyTemplateChange, resolveTemplateChange, createTemplateChangeResolver } from '../src/contexts/TemplateContext';
+import { RealtimeChangePayload, SupabaseClient, Template } from '../src/types';
+import { MockDatabase, createMockSupabase, createTestTemplate, waitFor } from '../src/test-utils';
+
+describe('Realtime subscriptions', () => {
+  let db: MockDatabase;
+  let client: SupabaseClient;
+  let events: RealtimeChangePayload[];
+  let templates: Template[];
+
+  beforeEach(async () => {
+    db = new MockDatabase();
+    client = createMockSupabase(db);
+    db.set('test-template-123', createTestTemplate());
+
+    templates = (await new TemplateService(client).getTemplates()).templates;
+    events = [];
+    client
+      .channel('template_library_changes')
+      .on('*', { table: 'template_library' }, payload => {
+        events.push(payload);
+        templates = applyTemplateChange(templates, payload);
+      })
+      .subscribe();
+  });
+
+  test('should emit insert, update and delete events', async () => {
+    db.set('template-2', createTestTemplate({ id: 'template-2', name: 'Second' }));
+    db.update('template-2', { name: 'Second (edited)' });
+    db.delete('test-template-123');
+
+    await waitFor(() => events.length === 3);
+
+    expect(events.map(e => e.eventType)).toEqual(['INSERT', 'UPDATE', 'DELETE']);
+    expect(events[1].old.name).toBe('Second');
+    expect(templates.map(t => t.name)).toEqual(['Second (edited)']);
+  });
+
+  test('should only deliver the subscribed event types', async () => {
+    const updates: RealtimeChangePayload[] = [];
+    client.channel('updates').on('UPDATE', { table: 'template_library' }, p => updates.push(p)).subscribe();
+
+    db.set('template-2', createTestTemplate({ id: 'template-2' }));
+    db.update('template-2', { name: 'Changed' });
+
+    await waitFor(() => events.length === 2);
+    expect(updates.map(u => u.eventType)).toEqual(['UPDATE']);
+  });
+
+  test('should stop delivering after unsubscribe', async () => {
+    const received: RealtimeChangePayload[] = [];
+    const channel = client.channel('short-lived').on('*', { table: 'template_library' }, p => received.push(p)).subscribe();
+    channel.unsubscribe();
+
+    db.update('test-template-123', { name: 'Ignored' });
+
+    await waitFor(() => events.length === 1);
+    expect(received).toHaveLength(0);
+  });
+
+  test('should list inheriting templates resolved, not as stored', async () => {
+    const service = new TemplateService(client);
+    let live: Template[] = [];
+    client
+      .channel('resolved')
+      .on('*', { table: 'template_library' }, async payload => {
+        const change = await resolveTemplateChange(service, payload);
+        if (change) live = applyTemplateChange(live, change);
+      })
+      .subscribe();
+
+    db.set('heir', createTestTemplate({
+      id: 'heir',
+      name: 'Heir',
+      sections: [],
+      field_definitions: {},
+      base_template_id: 'test-template-123',
+      base_version: '1.0.0',
+      overrides: { relabeled_fields: { 'field-1': 'Truck' } }
+    }));
+
+    await waitFor(() => live.length === 1);
+    expect(live[0].sections).toHaveLength(1);
+    expect(live[0].field_definitions['field-1'].label).toBe('Truck');
+  });
+
+  test('should keep the latest change when resolutions finish out of order, and report failures', async () => {
+    const pending: Array<(template: Template) => void> = [];
+    const service = {
+      getTemplate: (id: string) => id === 'broken'
+        ? Promise.reject(new Error('offline'))
+        : new Promise<Template>(resolve => pending.push(resolve))
+    };
+    let live: Template[] = [];
+    const errors: unknown[] = [];
+    const resolve = createTemplateChangeResolver(service, change => { live = applyTemplateChange(live, change); }, e => errors.push(e));
+    const update = (template: Template): RealtimeChangePayload<Template> =>
+      ({ eventType: 'UPDATE', table: 'template_library', new: template, old: null, commit_timestamp: '' });
+    const older = createTestTemplate({ name: 'Older' }) as Template;
+    const newer = createTestTemplate({ name: 'Newer' }) as Template;
+
+    resolve(update(older));
+    resolve(update(newer));
+    resolve(update(createTestTemplate({ id: 'broken' }) as Template));
+    pending[1](newer);
+    pending[0](older);
+
+    await waitFor(() => errors.length === 1);
+    expect(live.map(template => template.name)).toEqual(['Newer']);
+  });
+
+  test('should reflect service and background processor writes', async () => {
+    const service = new TemplateService(client);
+    await service.updateTemplate('test-template-123', { name: 'Edited by user' });
+    await waitFor(() => templates[0].name === 'Edited by user');
+
+    initializeSupabase(client);
+    await new TemplateFieldProcessor().processTemplateFields('test-template-123');
+
+    await waitFor(() => (templates[0].field_definitions['field-1'] as any).processed === true);
+    expect(templates[0].name).toBe('Edited by user');
+  });
+});
@@ -0,0 +1,205 @@
+/**
+ * Migrating inspection responses between template versions
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { TemplateService } from '../src/services/TemplateService';
+import { InspectionResponseService } from '../src/services/InspectionResponseService';
+import { inferFieldMappings, migrateAnswers } from '../src/services/responseMigration';
+import { Template, FieldDefinition } from '../src/types';
+import { MockDatabase, createMockSupabase, createTestTemplate } from '../src/test-utils';
+
+const base = createTestTemplate() as Template;
+
+const withFields = (fields: Record<string, FieldDefinition>, version = '2.0.0'): Template => ({
+  ...base,
+  version,
+  sections: [{ ...base.sections[0], fields: Object.keys(fields) }],
+  field_definitions: fields
+});
+
+describe('responseMigration', () => {
+  test('should follow a field whose id changed but kept its label', () => {
+    const next = withFields({
+      'field-1': base.field_definitions['field-1'],
+      'serial': { id: 'serial', type: 'number', label: 'Serial number', required: false }
+    });
+
+    expect(inferFieldMappings(base, next)).toEqual([
+      { from: 'field-1', to: 'field-1' },
+      { from: 'field-2', to: 'serial' }
+    ]);
+  });
+
+  test('should apply declared transforms', () => {
+    const from = withFields({
+      'field-2': base.field_definitions['field-2'],
+      'condition': { id: 'condition', type: 'select', label: 'Condition', required: false, options: ['OK', 'Bad'] }
+    }, '1.0.0');
+    const to = withFields({
+      'field-2': { ...base.field_definitions['field-2'], type: 'text' },
+      'condition': { id: 'condition', type: 'select', label: 'Condition', required: false, options: ['Good', 'Poor'] }
+    });
+    const mappings = inferFieldMappings(from, to, [
+      { from: 'field-2', to: 'field-2', transform: { kind: 'toText' } },
+      { from: 'condition', to: 'condition', transform: { kind: 'renameOptions', renames: { OK: 'Good', Bad: 'Poor' } } }
+    ]);
+
+    const result = migrateAnswers({ 'field-2': 42, 'condition': 'Bad' }, from, to, mappings);
+
+    expect(result.issues).toEqual([]);
+    expect(result.answers).toEqual({ 'field-2': '42', 'condition': 'Poor' });
+  });
+
+  test('should report answers that cannot be carried over', () => {
+    const to = withFields({
+      'field-1': { ...base.field_definitions['field-1'], type: 'number' }
+    });
+
+    const result = migrateAnswers(
+      { 'field-1': 'Pump 7', 'field-2': 12 },
+      base,
+      to,
+      inferFieldMappings(base, to)
+    );
+
+    expect(result.answers).toEqual({});
+    expect(result.issues.map(issue => [issue.fieldId, issue.kind])).toEqual([
+      ['field-1', 'type_changed'],
+      ['field-2', 'field_removed']
+    ]);
+  });
+});
+
+describe('InspectionResponseService migrations', () => {
+  let db: MockDatabase;
+  let templates: TemplateService;
+  let responses: InspectionResponseService;
+
+  const edit = async (fields: Record<string, FieldDefinition>) => {
+    const current = db.get(base.id) as Template;
+    const result = await templates.updateTemplate(base.id, {
+      sections: [{ ...current.sections[0], fields: Object.keys(fields) }],
+      field_definitions: fields
+    }, current);
+    return result.newVersion!;
+  };
+
+  beforeEach(() => {
+    db = new MockDatabase();
+    const supabase = createMockSupabase(db);
+    templates = new TemplateService(supabase);
+    responses = new InspectionResponseService(supabase, templates);
+    db.set(base.id, { ...base });
+  });
+
+  test('should move a clean response onto the published version', async () => {
+    const { data: started } = await responses.startResponse(base.id, '1.0.0', {
+      answers: { 'field-1': 'Pump 7', 'field-2': 12 }
+    });
+    const version = await edit({
+      'field-1': base.field_definitions['field-1'],
+      'serial': { id: 'serial', type: 'number', label: 'Serial Number', required: false }
+    });
+    await templates.publishTemplate(base.id);
+
+    const report = await responses.migrateResponse(started!.id);
+
+    expect(report).toMatchObject({ fromVersion: '1.0.0', toVersion: version, issues: [], migrated: true });
+    const saved = db.get(started!.id, 'inspection_responses');
+    expect(saved.template_version).toBe(version);
+    expect(saved.migrated_from_version).toBe('1.0.0');
+    expect(saved.answers).toEqual({ 'field-1': 'Pump 7', 'serial': 12 });
+  });
+
+  test('should leave responses with issues untouched and report them', async () => {
+    const { data: started } = await responses.startResponse(base.id, '1.0.0', {
+      answers: { 'field-1': 'Pump 7', 'field-2': 12 }
+    });
+    const version = await edit({
+      'field-1': base.field_definitions['field-1'],
+      'site': { id: 'site', type: 'text', label: 'Site', required: true }
+    });
+
+    const report = await responses.migrateResponse(started!.id, version);
+
+    expect(report.migrated).toBe(false);
+    expect(report.issues.map(issue => [issue.fieldId, issue.kind])).toEqual([
+      ['field-2', 'field_removed'],
+      ['site', 'missing_required']
+    ]);
+    expect(db.get(started!.id, 'inspection_responses').template_version).toBe('1.0.0');
+  });
+
+  test('should carry answers through intermediate versions using declared plans', async () => {
+    const { data: started } = await responses.startResponse(base.id, '1.0.0', {
+      answers: { 'field-1': 'Pump 7', 'field-2': 12 }
+    });
+    const middle = await edit({
+      'field-1': base.field_definitions['field-1'],
+      'field-2': { ...base.field_definitions['field-2'], type: 'text' }
+    });
+    const latest = await edit({
+      'field-1': base.field_definitions['field-1'],
+      'serial': { id: 'serial', type: 'text', label: 'Serial', required: false }
+    });
+    await responses.declareMigration({
+      template_id: base.id,
+      from_version: '1.0.0',
+      to_version: middle,
+      mappings: [{ from: 'field-2', to: 'field-2', transform: { kind: 'toText' } }]
+    });
+    await responses.declareMigration({
+      template_id: base.id,
+      from_version: middle,
+      to_version: latest,
+      mappings: [{ from: 'field-2', to: 'serial' }]
+    });
+
+    const report = await responses.migrateResponse(started!.id, latest);
+
+    expect(report.issues).toEqual([]);
+    expect(report.answers).toEqual({ 'field-1': 'Pump 7', 'serial': '12' });
+  });
+
+  test('should migrate in bulk and report every response', async () => {
+    const { data: clean } = await responses.startResponse(base.id, '1.0.0', { answers: { 'field-1': 'Pump 7' } });
+    const { data: lossy } = await responses.startResponse(base.id, '1.0.0', {
+      answers: { 'field-1': 'Pump 8', 'field-2': 3 }
+    });
+    await edit({ 'field-1': base.field_definitions['field-1'] });
+    await templates.publishTemplate(base.id);
+
+    const reports = await responses.migrateResponses({ templateId: base.id });
+
+    expect(reports.map(report => [report.responseId, report.migrated])).toEqual([
+      [clean!.id, true],
+      [lossy!.id, false]
+    ]);
+  });
+
+  test('should upgrade lazily when reading', async () => {
+    const { data: started } = await responses.startResponse(base.id, '1.0.0', { answers: { 'field-1': 'Pump 7' } });
+    const version = await edit({
+      ...base.field_definitions,
+      'notes': { id: 'notes', type: 'text', label: 'Notes', required: false }
+    });
+
+    expect((await responses.getResponse(started!.id, { upgrade: true }))?.template_version).toBe('1.0.0');
+
+    await templates.publishTemplate(base.id);
+    const upgraded = await responses.getResponse(started!.id, { upgrade: true });
+
+    expect(upgraded?.template_version).toBe(version);
+    expect(upgraded?.answers).toEqual({ 'field-1': 'Pump 7' });
+  });
+
+  test('should read without upgrading while nothing is published', async () => {
+    const { data: started } = await responses.startResponse(base.id, '1.0.0', { answers: { 'field-1': 'Pump 7' } });
+    db.set(base.id, { ...base, state: 'draft' });
+
+    const response = await responses.getResponse(started!.id, { upgrade: true });
+
+    expect(response).toMatchObject({ id: started!.id, template_version: '1.0.0', version: 1 });
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * Versioned LRU cache and cached template reads
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { VersionedCache } from '../src/services/VersionedCache';
+import { TemplateService } from '../src/services/TemplateService';
+import { Template } from '../src/types';
+import { MockDatabase, createMockSupabase, createTestTemplate, waitFor } from '../src/test-utils';
+
+interface Row {
+  id: string;
+  version: string;
+  name?: string;
+}
+
+describe('VersionedCache', () => {
+  let clock: number;
+  let cache: VersionedCache<Row>;
+
+  beforeEach(() => {
+    clock = 0;
+    cache = new VersionedCache<Row>({
+      maxEntries: 2,
+      ttlMs: 1000,
+      staleWhileRevalidateMs: 500,
+      now: () => clock
+    });
+  });
+
+  test('should expire entries after their TTL', () => {
+    cache.set('a', { id: 'a', version: '1.0.0' });
+    cache.set('b', { id: 'b', version: '1.0.0' }, 5000);
+
+    clock = 1500;
+
+    expect(cache.get('a')).toBeUndefined();
+    expect(cache.get('b')).toEqual({ id: 'b', version: '1.0.0' });
+    expect(cache.getStats()).toMatchObject({ hits: 1, misses: 1 });
+  });
+
+  test('should evict the least recently used entry', () => {
+    cache.set('a', { id: 'a', version: '1.0.0' });
+    cache.set('b', { id: 'b', version: '1.0.0' });
+    cache.get('a');
+    cache.set('c', { id: 'c', version: '1.0.0' });
+
+    expect(cache.peek('a')).toBeDefined();
+    expect(cache.peek('b')).toBeUndefined();
+    expect(cache.getStats()).toMatchObject({ evictions: 1, size: 2 });
+  });
+
+  test('should serve stale entries while revalidating in the background', async () => {
+    let loads = 0;
+    const load = async () => ({ id: 'a', version: `1.0.${++loads}` });
+
+    cache.set('a', { id: 'a', version: '1.0.0' });
+    clock = 1200;
+
+    const stale = await cache.read('a', { load });
+    expect(stale.version).toBe('1.0.0');
+
+    await waitFor(() => cache.peek('a')?.version === '1.0.1');
+    expect(loads).toBe(1);
+    expect(cache.getStats().staleHits).toBe(1);
+  });
+
+  test('should load synchronously once past the stale window', async () => {
+    cache.set('a', { id: 'a', version: '1.0.0' });
+    clock = 2000;
+
+    const fresh = await cache.read('a', { load: async () => ({ id: 'a', version: '1.0.5' }) });
+
+    expect(fresh.version).toBe('1.0.5');
+    expect(cache.getStats().misses).toBe(1);
+  });
+
+  test('should reload when the version check disagrees', async () => {
+    cache.set('a', { id: 'a', version: '1.0.0', name: 'Cached' });
+
+    const row = await cache.read('a', {
+      load: async () => ({ id: 'a', version: '1.0.1', name: 'Current' }),
+      currentVersion: async () => '1.0.1'
+    });
+
+    expect(row.name).toBe('Current');
+    expect(cache.getStats()).toMatchObject({ hits: 0, misses: 1, invalidations: 1 });
+  });
+
+  test('should invalidate entries from realtime changes that make them out of date', () => {
+    cache.set('a', { id: 'a', version: '1.0.1' });
+    cache.set('b', { id: 'b', version: '1.0.0' });
+
+    const change = (eventType: 'UPDATE' | 'DELETE', row: Row) => cache.applyChange({
+      eventType,
+      table: 'template_library',
+      new: eventType === 'DELETE' ? null : row,
+      old: row,
+      commit_timestamp: new Date().toISOString()
+    });
+
+    change('UPDATE', { id: 'a', version: '1.0.1' });
+    change('UPDATE', { id: 'b', version: '1.0.1' });
+
+    expect(cache.peek('a')).toBeDefined();
+    expect(cache.peek('b')).toBeUndefined();
+
+    change('DELETE', { id: 'a', version: '1.0.1' });
+    expect(cache.peek('a')).toBeUndefined();
+  });
+
+  // A load whose result arrives only when the test says so
+  const deferredLoad = (data: Row) => {
+    let finish!: () => void;
+    const done = new Promise<void>(resolve => { finish = resolve; });
+    return { load: async () => { await done; return data; }, finish };
+  };
+
+  test('should not let a load that started before set() overwrite the newer value', async () => {
+    const slow = deferredLoad({ id: 'a', version: '1.0.1' });
+    const reading = cache.read('a', { load: slow.load });
+
+    cache.set('a', { id: 'a', version: '1.0.2' });
+    slow.finish();
+
+    expect((await reading).version).toBe('1.0.1');
+    expect(cache.peek('a')?.version).toBe('1.0.2');
+  });
+
+  test('should not cache a load that started before invalidate()', async () => {
+    const slow = deferredLoad({ id: 'a', version: '1.0.0', name: 'old' });
+    const reading = cache.read('a', { load: slow.load });
+
+    cache.invalidate('a');
+    // The next reader starts its own load rather than joining the outdated one
+    const next = cache.read('a', { load: async () => ({ id: 'a', version: '1.0.1', name: 'new' }) });
+    slow.finish();
+
+    expect((await reading).name).toBe('old');
+    expect((await next).name).toBe('new');
+    expect(cache.peek('a')?.data.name).toBe('new');
+  });
+});
+
+describe('TemplateService cached reads', () => {
+  let db: MockDatabase;
+  let service: TemplateService;
+  let base: Template;
+
+  beforeEach(() => {
+    db = new MockDatabase();
+    service = new TemplateService(createMockSupabase(db));
+    base = createTestTemplate() as Template;
+    db.set(base.id, base);
+  });
+
+  test('should answer repeated reads from the cache', async () => {
+    await service.getTemplate(base.id);
+    await service.getTemplate(base.id);
+
+    expect(service.getCacheStats()).toMatchObject({ hits: 1, misses: 1 });
+  });
+
+  test('should notice out-of-band writes when verifying the version', async () => {
+    await service.getTemplate(base.id);
+    db.update(base.id, { name: 'Changed elsewhere', version: '1.0.1' });
+
+    expect((await service.getTemplate(base.id))?.name).toBe('Test Template');
+    expect((await service.getTemplate(base.id, { verifyVersion: true }))?.name).toBe('Changed elsewhere');
+  });
+
+  test('should keep the cache current through its own writes', async () => {
+    await service.getTemplate(base.id);
+    await service.updateTemplate(base.id, { name: 'Saved' }, base);
+
+    const cached = await service.getTemplate(base.id, { verifyVersion: true });
+    expect(cached?.name).toBe('Saved');
+    expect(service.getCacheStats().misses).toBe(1);
+  });
+
+  test('should drop cached templates on realtime changes', async () => {
+    await service.getTemplate(base.id);
+    db.update(base.id, { name: 'Pushed', version: '1.0.1' });
+
+    service.handleRealtimeChange({
+      eventType: 'UPDATE',
+      table: 'template_library',
+      new: db.get(base.id),
+      old: base,
+      commit_timestamp: new Date().toISOString()
+    });
+
+    expect((await service.getTemplate(base.id))?.name).toBe('Pushed');
+  });
+});
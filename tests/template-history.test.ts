@@ -0,0 +1,129 @@
+/**
+ * Template version history, diff and revert
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { TemplateService } from '../src/services/TemplateService';
+import { Template, ServiceContext } from '../src/types';
+import { MockDatabase, createMockSupabase, createTestTemplate } from '../src/test-utils';
+
+describe('Template history', () => {
+  let db: MockDatabase;
+  let service: TemplateService;
+  let base: Template;
+
+  beforeEach(() => {
+    db = new MockDatabase();
+    service = new TemplateService(createMockSupabase(db));
+    base = createTestTemplate() as Template;
+    db.set(base.id, base);
+  });
+
+  const removeSerialField = (template: Template) => {
+    const { 'field-2': _removed, ...remaining } = template.field_definitions;
+    return {
+      sections: [{ ...template.sections[0], fields: ['field-1'] }],
+      field_definitions: remaining
+    };
+  };
+
+  test('should append a snapshot for every saved version', async () => {
+    await service.updateTemplate(base.id, { name: 'Renamed' }, base);
+    const renamed = db.get(base.id);
+    await service.patchTemplate(base.id, [
+      { op: 'replace', path: '/field_definitions/field-1/required', value: false }
+    ], renamed.version);
+
+    const history = await service.getTemplateHistory(base.id);
+
+    expect(history.map(h => h.version)).toEqual(['1.0.1', '1.1.0']);
+    expect(history[0].update).toEqual({ name: 'Renamed' });
+    expect(history[0].snapshot.name).toBe('Renamed');
+    expect(history[1].operations).toHaveLength(1);
+  });
+
+  test('should answer who removed a field and when', async () => {
+    await service.updateTemplate(base.id, { name: 'Renamed' }, base);
+    await service.updateTemplate(base.id, removeSerialField(db.get(base.id)), undefined, { author: 'inspector@example.com' });
+
+    const history = await service.getTemplateHistory(base.id);
+    const removal = history.find(h => !h.snapshot.field_definitions['field-2']);
+
+    expect(removal?.author).toBe('inspector@example.com');
+    expect(removal?.version).toBe('2.0.0');
+    expect(removal?.created_at).toBeTruthy();
+
+    const diff = await service.diffTemplateVersions(base.id, '1.0.1', '2.0.0');
+    expect(diff).toContainEqual({ op: 'remove', path: '/field_definitions/field-2' });
+  });
+
+  test('should credit each change to whoever made it', async () => {
+    const serviceAs = (userId: string) => {
+      const context: ServiceContext = { orgId: 'org-123', userId };
+      db.set(`member-${userId}`, { organization_id: 'org-123', user_id: userId, role: 'editor' }, 'organization_members');
+      return new TemplateService(createMockSupabase(db, { auth: context }), { context });
+    };
+
+    await serviceAs('alice').updateTemplate(base.id, { name: 'By Alice' }, base);
+    await serviceAs('bob').patchTemplate(base.id, [
+      { op: 'replace', path: '/field_definitions/field-1/required', value: false }
+    ], '1.0.1');
+    // Unbound services only know the author when told
+    await service.updateTemplate(base.id, { name: 'By a script' }, db.get(base.id));
+
+    const history = await service.getTemplateHistory(base.id);
+    expect(history.map(h => [h.version, h.author])).toEqual([
+      ['1.0.1', 'alice'],
+      ['1.1.0', 'bob'],
+      ['1.1.1', undefined]
+    ]);
+    expect(db.get(base.id).last_user_update).toBeNull();
+  });
+
+  test('should return the template as of an earlier version', async () => {
+    await service.updateTemplate(base.id, { name: 'Second' }, base);
+    await service.updateTemplate(base.id, { name: 'Third' });
+
+    expect((await service.getTemplateAt(base.id, '1.0.1'))?.name).toBe('Second');
+    expect((await service.getTemplateAt(base.id, '1.0.2'))?.name).toBe('Third');
+    expect(await service.getTemplateAt(base.id, '9.9.9')).toBeNull();
+  });
+
+  test('should revert as a new version', async () => {
+    await service.updateTemplate(base.id, { name: 'Keep me' }, base);
+    await service.updateTemplate(base.id, removeSerialField(db.get(base.id)));
+
+    const result = await service.revertTemplate(base.id, '1.0.1');
+
+    expect(result.success).toBe(true);
+    expect(result.newVersion).toBe('2.1.0');
+    const final = db.get(base.id);
+    expect(final.name).toBe('Keep me');
+    expect(final.field_definitions['field-2']).toBeTruthy();
+
+    const history = await service.getTemplateHistory(base.id);
+    expect(history[history.length - 1].reverted_to_version).toBe('1.0.1');
+  });
+
+  test('should fence off concurrent writes while reverting', async () => {
+    await service.updateTemplate(base.id, { name: 'Second' }, base);
+
+    // Another writer tries to save between our read of the current row and
+    // the revert write, without holding the lease
+    const originalUpdate = db.update.bind(db);
+    let racerWrote: boolean | null = null;
+    db.update = (id, updates, where, table) => {
+      if (racerWrote === null) {
+        racerWrote = originalUpdate(id, { name: 'Concurrent', version: '1.0.9' });
+      }
+      return originalUpdate(id, updates, where, table);
+    };
+
+    const result = await service.revertTemplate(base.id, '1.0.1');
+
+    expect(racerWrote).toBe(false);
+    expect(result.success).toBe(true);
+    expect(db.get(base.id).name).toBe('Second');
+    expect(db.get(base.id).version).toBe('1.0.2');
+  });
+});
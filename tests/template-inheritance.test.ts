@@ -0,0 +1,231 @@
+/**
+ * Templates that inherit from a base and store only their overrides
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { TemplateService } from '../src/services/TemplateService';
+import {
+  resolveInheritedTemplate,
+  extractOverrides,
+  describeInheritance,
+  findStaleOverrides
+} from '../src/services/templateInheritance';
+import { diffTemplate } from '../src/services/jsonPatch';
+import { TemplateEditor } from '../src/components/TemplateEditor';
+import { Template, TemplateValidationError, TenantIsolationError, ServiceContext } from '../src/types';
+import { MockDatabase, createMockSupabase, createTestTemplate } from '../src/test-utils';
+
+const base = createTestTemplate({ id: 'base', name: 'Forklift base' }) as Template;
+
+const child = createTestTemplate({
+  id: 'child',
+  name: 'Forklift (north site)',
+  sections: [],
+  field_definitions: {},
+  base_template_id: 'base',
+  base_version: '1.0.0',
+  overrides: {
+    hidden_fields: ['field-2'],
+    relabeled_fields: { 'field-1': 'Truck name' },
+    added_sections: [{ id: 'section-north', title: 'Site checks', fields: ['field-gate'], order: 5 }],
+    added_fields: { 'field-gate': { id: 'field-gate', type: 'checkbox', label: 'Gate closed', required: false } }
+  }
+}) as Template;
+
+describe('resolveInheritedTemplate', () => {
+  test('should hide, relabel and add on top of the base', () => {
+    const resolved = resolveInheritedTemplate(child, base);
+
+    expect(resolved).toMatchObject({ id: 'child', name: 'Forklift (north site)', base_template_id: 'base' });
+    expect(resolved.sections).toEqual([
+      { id: 'section-1', title: 'General Information', fields: ['field-1'], order: 1 },
+      { id: 'section-north', title: 'Site checks', fields: ['field-gate'], order: 5 }
+    ]);
+    expect(resolved.field_definitions['field-1']).toEqual({ ...base.field_definitions['field-1'], label: 'Truck name' });
+    expect(Object.keys(resolved.field_definitions)).toEqual(['field-1', 'field-gate']);
+  });
+
+  test('should recover the overrides from the resolved template', () => {
+    const resolved = resolveInheritedTemplate(child, base);
+
+    expect(extractOverrides(base, resolved)).toEqual({ overrides: child.overrides, issues: [] });
+  });
+
+  test('should report edits overrides cannot express', () => {
+    const resolved = resolveInheritedTemplate(child, base);
+    const { issues } = extractOverrides(base, {
+      sections: [{ ...resolved.sections[0], title: 'Renamed', fields: ['field-1', 'field-gate'] }],
+      field_definitions: { ...resolved.field_definitions, 'field-1': { ...resolved.field_definitions['field-1'], required: false } }
+    });
+
+    expect(issues.map(issue => issue.message)).toEqual([
+      'Equipment Name is inherited; only its label can be changed',
+      'Section "General Information" is inherited and can\'t be retitled or moved',
+      'Fields can\'t be added to or moved within inherited section "General Information"'
+    ]);
+  });
+
+  test('should describe where each value comes from', () => {
+    const status = describeInheritance(resolveInheritedTemplate(child, base), base);
+
+    expect(status.sections).toEqual({ 'section-1': 'inherited', 'section-north': 'added' });
+    expect(status.fields).toEqual({ 'field-1': 'overridden', 'field-gate': 'added' });
+    expect(status.hiddenFields).toEqual(['field-2']);
+  });
+
+  test('should flag overrides a new base version makes stale', () => {
+    const next = { ...base, field_definitions: { 'field-2': base.field_definitions['field-2'] } };
+
+    expect(findStaleOverrides(child.overrides, next).map(issue => issue.fieldId)).toEqual(['field-1']);
+  });
+});
+
+describe('TemplateService inheritance', () => {
+  let db: MockDatabase;
+  let service: TemplateService;
+
+  beforeEach(() => {
+    db = new MockDatabase();
+    service = new TemplateService(createMockSupabase(db));
+    db.set(base.id, base);
+  });
+
+  test('should create an heir that stores no content of its own', async () => {
+    const created = await service.createTemplate('North site', { organizationId: 'org-123', baseTemplateId: base.id });
+
+    expect(created.success).toBe(true);
+    expect(created.data!.sections).toEqual(base.sections);
+    const row = db.get(created.data!.id) as Template;
+    expect(row).toMatchObject({ base_template_id: 'base', base_version: '1.0.0', overrides: {}, sections: [] });
+  });
+
+  test('should save edits to an heir as overrides', async () => {
+    db.set(child.id, child);
+    const loaded = (await service.getTemplate(child.id))!;
+
+    const edited = {
+      ...loaded,
+      field_definitions: { ...loaded.field_definitions, 'field-1': { ...loaded.field_definitions['field-1'], label: 'Vehicle' } }
+    };
+    const result = await service.patchTemplate(child.id, diffTemplate(loaded, edited), loaded.version);
+
+    expect(result.success).toBe(true);
+    expect(result.data!.field_definitions['field-1'].label).toBe('Vehicle');
+    const row = db.get(child.id) as Template;
+    expect(row.overrides!.relabeled_fields).toEqual({ 'field-1': 'Vehicle' });
+    expect(row.field_definitions).toEqual({});
+  });
+
+  test('should refuse edits to inherited fields beyond their label', async () => {
+    db.set(child.id, child);
+    const loaded = (await service.getTemplate(child.id))!;
+
+    const result = await service.updateTemplate(child.id, {
+      field_definitions: { ...loaded.field_definitions, 'field-1': { ...loaded.field_definitions['field-1'], type: 'date' } }
+    }, loaded);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBeInstanceOf(TemplateValidationError);
+  });
+
+  test('should tell heirs about a new base version and rebase on request', async () => {
+    db.set(child.id, child);
+    await service.updateTemplate(base.id, {
+      sections: [{ ...base.sections[0], fields: ['field-1', 'field-2', 'field-3'] }],
+      field_definitions: {
+        ...base.field_definitions,
+        'field-3': { id: 'field-3', type: 'date', label: 'Last service', required: false }
+      }
+    }, base);
+    await service.publishTemplate(base.id);
+
+    const [notice] = await service.getBaseUpdates();
+    expect(notice).toMatchObject({ templateId: 'child', fromBaseVersion: '1.0.0', toBaseVersion: '1.1.0', issues: [] });
+    expect(notice.change.bump).toBe('minor');
+    expect(notice.merged.sections[0].fields).toEqual(['field-1', 'field-3']);
+    // Until then the heir stays on the base version it was on
+    expect((await service.getTemplate(child.id))!.sections[0].fields).toEqual(['field-1']);
+
+    const rebased = await service.rebaseTemplate(child.id);
+
+    expect(rebased).toMatchObject({ success: true, newVersion: '1.1.0' });
+    expect(rebased.data!.sections[0].fields).toEqual(['field-1', 'field-3']);
+    expect(db.get(child.id).base_version).toBe('1.1.0');
+    expect(await service.getBaseUpdates()).toEqual([]);
+  });
+});
+
+describe('TemplateService shared bases', () => {
+  let db: MockDatabase;
+  const hq: ServiceContext = { orgId: 'org-hq', userId: 'alice' };
+  const north: ServiceContext = { orgId: 'org-north', userId: 'bob' };
+  const south: ServiceContext = { orgId: 'org-south', userId: 'carol' };
+
+  const serviceFor = (context: ServiceContext) => {
+    db.set(`member-${context.userId}`, { organization_id: context.orgId, user_id: context.userId, role: 'admin' }, 'organization_members');
+    return new TemplateService(createMockSupabase(db, { auth: context }), { context, lease: { waitMs: 0 } });
+  };
+
+  beforeEach(() => {
+    db = new MockDatabase();
+    db.set(base.id, { ...base, organization_id: 'org-hq' });
+  });
+
+  test('should let an organization inherit from a base shared with it', async () => {
+    const owner = serviceFor(hq);
+    await owner.publishTemplate(base.id);
+    await owner.shareTemplate(base.id, ['org-north']);
+
+    const created = await serviceFor(north).createTemplate('North site', { baseTemplateId: base.id });
+
+    expect(created.success).toBe(true);
+    expect(created.data!.sections).toEqual(base.sections);
+    expect(db.get(created.data!.id)).toMatchObject({ organization_id: 'org-north', base_template_id: base.id, base_version: '1.0.0' });
+
+    const refused = await serviceFor(south).createTemplate('South site', { baseTemplateId: base.id });
+    expect(refused.error).toBeInstanceOf(TenantIsolationError);
+  });
+
+  test('should only show other organizations the published versions', async () => {
+    const owner = serviceFor(hq);
+    const heirs = serviceFor(north);
+    await owner.publishTemplate(base.id);
+    await owner.shareTemplate(base.id, ['org-north']);
+    const { data: heir } = await heirs.createTemplate('North site', { baseTemplateId: base.id });
+
+    // A draft edit stays private to the base's organization
+    await owner.updateTemplate(base.id, { sections: [{ ...base.sections[0], title: 'Draft title' }] }, db.get(base.id));
+    expect(await heirs.getBaseUpdates()).toEqual([]);
+
+    await owner.publishTemplate(base.id);
+    const [notice] = await heirs.getBaseUpdates();
+    expect(notice).toMatchObject({ templateId: heir!.id, fromBaseVersion: '1.0.0', toBaseVersion: '1.0.1' });
+
+    // Until it rebases, the heir resolves against the version it was on
+    const reloaded = await serviceFor(north).getTemplate(heir!.id);
+    expect(reloaded!.sections[0].title).toBe('General Information');
+
+    const rebased = await heirs.rebaseTemplate(heir!.id);
+    expect(rebased.data!.sections[0].title).toBe('Draft title');
+  });
+});
+
+describe('TemplateEditor inheritance', () => {
+  test('should mark inherited, overridden and added values', () => {
+    const resolved = resolveInheritedTemplate(child, base);
+    const html = renderToStaticMarkup(createElement(TemplateEditor, {
+      template: resolved,
+      inheritance: describeInheritance(resolved, base),
+      onUpdate: async () => ({ success: true }),
+      onBack: () => {}
+    }));
+
+    expect(html).toContain('Inherits from Forklift base (version 1.0.0)');
+    expect(html).toContain('field-1<span class="inheritance-badge overridden">Overridden</span>');
+    expect(html).toContain('field-gate<span class="inheritance-badge added">Added</span>');
+    expect(html).toContain('Hidden from the base');
+    expect(html).toContain('Serial Number<button>Restore</button>');
+  });
+});
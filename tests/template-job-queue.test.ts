@@ -0,0 +1,193 @@
+/**
+ * Job queue for background template processing
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { TemplateJobQueue } from '../src/services/TemplateJobQueue';
+import { TemplateService } from '../src/services/TemplateService';
+import { TemplateFieldProcessor, initializeSupabase } from '../src/problem';
+import { Template } from '../src/types';
+import { MockDatabase, createMockSupabase, createTestTemplate } from '../src/test-utils';
+
+const tick = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('Template job queue', () => {
+  let runs: string[];
+  let active: Set<string>;
+  let overlapped: boolean;
+
+  const recordingHandler = (durationMs = 20) => async (templateId: string) => {
+    if (active.has(templateId)) overlapped = true;
+    active.add(templateId);
+    runs.push(templateId);
+    await tick(durationMs);
+    active.delete(templateId);
+  };
+
+  beforeEach(() => {
+    runs = [];
+    active = new Set();
+    overlapped = false;
+  });
+
+  test('should collapse repeated triggers for a waiting template into one run', async () => {
+    const queue = new TemplateJobQueue(recordingHandler(), { concurrency: 1 });
+
+    queue.enqueue('busy');
+    queue.enqueue('t-1');
+    queue.enqueue('t-1');
+    const job = queue.enqueue('t-1', { priority: 5 });
+    await queue.onIdle();
+
+    expect(job.priority).toBe(5);
+    expect(runs).toEqual(['busy', 't-1']);
+  });
+
+  test('should run a template again when it is triggered mid-run, but never concurrently', async () => {
+    const queue = new TemplateJobQueue(recordingHandler(), { concurrency: 4 });
+
+    queue.enqueue('t-1');
+    await tick(5);
+    queue.enqueue('t-1');
+    queue.enqueue('t-1');
+    await queue.onIdle();
+
+    expect(runs).toEqual(['t-1', 't-1']);
+    expect(overlapped).toBe(false);
+  });
+
+  test('should start higher priority jobs first', async () => {
+    const queue = new TemplateJobQueue(recordingHandler(), { concurrency: 1 });
+
+    queue.enqueue('first');
+    queue.enqueue('low', { priority: 1 });
+    queue.enqueue('high', { priority: 10 });
+    queue.enqueue('medium', { priority: 5 });
+    await queue.onIdle();
+
+    expect(runs).toEqual(['first', 'high', 'medium', 'low']);
+  });
+
+  test('should respect the concurrency limit', async () => {
+    let peak = 0;
+    const queue = new TemplateJobQueue(async templateId => {
+      active.add(templateId);
+      peak = Math.max(peak, active.size);
+      await tick(10);
+      active.delete(templateId);
+    }, { concurrency: 2 });
+
+    ['a', 'b', 'c', 'd', 'e'].forEach(id => queue.enqueue(id));
+    await queue.onIdle();
+
+    expect(peak).toBe(2);
+  });
+
+  test('should retry failures with backoff', async () => {
+    const attemptTimes: number[] = [];
+    const queue = new TemplateJobQueue(async () => {
+      attemptTimes.push(Date.now());
+      if (attemptTimes.length < 3) throw new Error('transient');
+    }, { maxAttempts: 3, backoffMs: 20 });
+
+    queue.enqueue('t-1');
+    await queue.onIdle();
+
+    expect(attemptTimes).toHaveLength(3);
+    expect(attemptTimes[1] - attemptTimes[0]).toBeGreaterThanOrEqual(15);
+    expect(attemptTimes[2] - attemptTimes[1]).toBeGreaterThanOrEqual(35);
+    expect(queue.getDeadLetters()).toHaveLength(0);
+  });
+
+  test('should dead-letter jobs that keep failing and replay them on request', async () => {
+    let broken = true;
+    const queue = new TemplateJobQueue(async () => {
+      if (broken) throw new Error('processor exploded');
+    }, { maxAttempts: 2, backoffMs: 5 });
+
+    queue.enqueue('t-1', { priority: 3 });
+    await queue.onIdle();
+
+    const [dead] = queue.getDeadLetters();
+    expect(dead).toMatchObject({
+      templateId: 't-1',
+      status: 'dead',
+      attempts: 2,
+      priority: 3,
+      lastError: 'processor exploded'
+    });
+
+    broken = false;
+    const replayed = queue.replayDeadLetter(dead.id);
+    await queue.onIdle();
+
+    expect(replayed?.templateId).toBe('t-1');
+    expect(queue.getDeadLetters()).toHaveLength(0);
+  });
+
+  test('should process templates through the field processor', async () => {
+    const db = new MockDatabase();
+    initializeSupabase(createMockSupabase(db));
+    const template = createTestTemplate() as Template;
+    db.set(template.id, template);
+
+    const processor = new TemplateFieldProcessor();
+    const queue = new TemplateJobQueue(id => processor.processTemplateFields(id));
+
+    queue.enqueue(template.id);
+    queue.enqueue(template.id);
+    await queue.onIdle();
+
+    expect(db.get(template.id).processed_at).toBeDefined();
+    expect(queue.getJobs()).toHaveLength(0);
+  });
+
+  test('should process saved templates without moving their version', async () => {
+    const db = new MockDatabase();
+    const supabase = createMockSupabase(db);
+    initializeSupabase(supabase);
+    const template = createTestTemplate() as Template;
+    db.set(template.id, template);
+
+    const processor = new TemplateFieldProcessor();
+    const queue = new TemplateJobQueue(id => processor.processTemplateFields(id));
+    const service = new TemplateService(supabase, { jobs: queue });
+    const relabel = (base: Template, label: string) => ({
+      field_definitions: { ...base.field_definitions, 'field-1': { ...base.field_definitions['field-1'], label } }
+    });
+
+    const first = await service.updateTemplate(template.id, relabel(template, 'Asset name'), template);
+    await queue.onIdle();
+    expect(db.get(template.id)).toMatchObject({ version: '1.0.1', field_definitions: { 'field-1': { processed: true } } });
+
+    // The editor saves again from the version it got back
+    const second = await service.updateTemplate(template.id, relabel(first.data!, 'Asset tag'), first.data!);
+    await queue.onIdle();
+
+    expect(second).toMatchObject({ success: true, newVersion: '1.0.2' });
+    expect(second.merged).toBeFalsy();
+    const processed = db.get(template.id);
+    expect(processed.version).toBe('1.0.2');
+    expect(processed.field_definitions['field-1']).toMatchObject({ label: 'Asset tag', processed: true });
+    expect((await service.getTemplateHistory(template.id)).map(entry => entry.version)).toEqual(['1.0.1', '1.0.2']);
+  });
+
+  test('should leave heirs and fully processed templates alone', async () => {
+    const db = new MockDatabase();
+    initializeSupabase(createMockSupabase(db));
+    const processor = new TemplateFieldProcessor();
+    const heir = createTestTemplate({ id: 'heir', base_template_id: 'base', base_version: '1.0.0' });
+    const done = createTestTemplate({
+      id: 'done',
+      field_definitions: { 'field-1': { id: 'field-1', type: 'text', label: 'Name', required: true, processed: true } }
+    });
+    db.set(heir.id, heir);
+    db.set(done.id, done);
+
+    await processor.processTemplateFields(heir.id);
+    await processor.processTemplateFields(done.id);
+
+    expect(db.get(heir.id)).toEqual(heir);
+    expect(db.get(done.id)).toEqual(done);
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Lease-based template locks with fencing tokens
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { TemplateService } from '../src/services/TemplateService';
+import { acquireLease, renewLease, releaseLease, withLease } from '../src/services/templateLease';
+import { TemplateFieldProcessor, initializeSupabase } from '../src/problem';
+import { LockUnavailableError, LeaseExpiredError, VersionConflictError, SupabaseClient, Template } from '../src/types';
+import { MockDatabase, createMockSupabase, createTestTemplate } from '../src/test-utils';
+
+describe('Template leases', () => {
+  let clock: number;
+  let db: MockDatabase;
+  let supabase: SupabaseClient;
+  let base: Template;
+
+  beforeEach(() => {
+    clock = 1000;
+    db = new MockDatabase({ now: () => clock });
+    supabase = createMockSupabase(db);
+
+    base = createTestTemplate() as Template;
+    db.set(base.id, base);
+  });
+
+  test('should refuse a lease while another holder has it', async () => {
+    const lease = await acquireLease(supabase, base.id, 'editor-a', { ttlMs: 1000 });
+
+    await expect(
+      acquireLease(supabase, base.id, 'editor-b', { waitMs: 100 })
+    ).rejects.toBeInstanceOf(LockUnavailableError);
+
+    await releaseLease(supabase, lease);
+    const next = await acquireLease(supabase, base.id, 'editor-b');
+    expect(next.holder).toBe('editor-b');
+  });
+
+  test('should let a lease expire after its TTL', async () => {
+    await acquireLease(supabase, base.id, 'crashed-worker', { ttlMs: 1000 });
+
+    clock += 1001;
+    const lease = await acquireLease(supabase, base.id, 'editor-b', { waitMs: 0 });
+
+    expect(lease.holder).toBe('editor-b');
+  });
+
+  test('should extend a lease on renewal', async () => {
+    const lease = await acquireLease(supabase, base.id, 'editor-a', { ttlMs: 1000 });
+
+    clock += 800;
+    const renewed = await renewLease(supabase, lease, 1000);
+    clock += 800;
+
+    expect(renewed.token).toBe(lease.token);
+    expect(db.getLease(base.id)?.holder).toBe('editor-a');
+  });
+
+  test('should hand out a higher fencing token with every lease', async () => {
+    const first = await acquireLease(supabase, base.id, 'editor-a', { ttlMs: 1000 });
+    clock += 1001;
+    const second = await acquireLease(supabase, base.id, 'editor-b');
+
+    expect(second.token).toBeGreaterThan(first.token);
+    await expect(renewLease(supabase, first)).rejects.toBeInstanceOf(LeaseExpiredError);
+  });
+
+  test('should reject writes from a holder whose lease has lapsed', async () => {
+    const stale = await acquireLease(supabase, base.id, 'slow-worker', { ttlMs: 1000 });
+    clock += 1001;
+    await acquireLease(supabase, base.id, 'editor-b');
+
+    const { error } = await supabase
+      .from('template_library')
+      .update({ name: 'Stale write', fencing_token: stale.token })
+      .eq('id', base.id);
+
+    expect(error).toBeTruthy();
+    expect(db.get(base.id).name).toBe('Test Template');
+  });
+
+  test('should fail a save with LockUnavailableError while the lease stays taken', async () => {
+    await acquireLease(supabase, base.id, 'background-job');
+    const service = new TemplateService(supabase, { holder: 'editor-a', lease: { waitMs: 100 } });
+
+    const result = await service.updateTemplate(base.id, { name: 'Blocked' }, base);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBeInstanceOf(LockUnavailableError);
+    expect(db.get(base.id).name).toBe('Test Template');
+  });
+
+  test('should release the lease after a critical section throws', async () => {
+    await expect(
+      withLease(supabase, base.id, 'editor-a', async () => {
+        throw new Error('boom');
+      })
+    ).rejects.toThrow('boom');
+
+    expect(db.getLease(base.id)).toBeNull();
+  });
+
+  test('should not renew again once the critical section is over', async () => {
+    const renewals: number[] = [];
+    const slow: SupabaseClient = {
+      ...supabase,
+      rpc: async (functionName, params) => {
+        const result = await supabase.rpc(functionName, params);
+        if (functionName === 'renew_template_lock') {
+          renewals.push(Date.now());
+          // The answer to a renewal made inside the section arrives after it
+          await new Promise(resolve => setTimeout(resolve, 30));
+        }
+        return result;
+      }
+    };
+
+    await withLease(slow, base.id, 'editor-a', () => new Promise(resolve => setTimeout(resolve, 30)), { ttlMs: 40 });
+    await new Promise(resolve => setTimeout(resolve, 80));
+
+    expect(renewals).toHaveLength(1);
+  });
+
+  test('should serialize the background processor with user saves', async () => {
+    initializeSupabase(supabase);
+    const processor = new TemplateFieldProcessor();
+    const service = new TemplateService(supabase);
+
+    const processing = processor.processTemplateFields(base.id);
+    await new Promise(resolve => setTimeout(resolve, 30));
+    const saved = await service.updateTemplate(base.id, {
+      field_definitions: {
+        ...base.field_definitions,
+        'field-1': { ...base.field_definitions['field-1'], label: 'Renamed by user' }
+      }
+    }, base);
+    await processing;
+
+    expect(saved.success).toBe(true);
+    const final = db.get(base.id);
+    expect(final.processed_at).toBeDefined();
+    expect(final.field_definitions['field-1'].label).toBe('Renamed by user');
+  });
+
+  test('should process new fields only and not overwrite changes made around the lease', async () => {
+    initializeSupabase(supabase);
+    const processor = new TemplateFieldProcessor();
+
+    await processor.processTemplateFields(base.id);
+    const processed = db.get(base.id);
+    expect(processed).toMatchObject({ version: '1.0.0', field_definitions: { 'field-1': { processed: true } } });
+
+    await processor.processTemplateFields(base.id);
+    expect(db.get(base.id).processed_at).toBe(processed.processed_at);
+
+    db.set(base.id, base);
+    const processing = processor.processTemplateFields(base.id);
+    await new Promise(resolve => setTimeout(resolve, 30));
+    db.set(base.id, { ...db.get(base.id), name: 'Written without a lease', version: '1.1.0' });
+
+    await expect(processing).rejects.toBeInstanceOf(VersionConflictError);
+    expect(db.get(base.id)).toMatchObject({ name: 'Written without a lease', version: '1.1.0' });
+  });
+
+  test('should report a lapsed processor lease as such', async () => {
+    initializeSupabase(supabase);
+    const processing = new TemplateFieldProcessor().processTemplateFields(base.id);
+    await new Promise(resolve => setTimeout(resolve, 30));
+    clock += 31000;
+    await acquireLease(supabase, base.id, 'editor-b');
+
+    await expect(processing).rejects.toBeInstanceOf(LeaseExpiredError);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Draft, published and archived template lifecycle
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { TemplateService } from '../src/services/TemplateService';
+import {
+  getTemplateState,
+  getPublishedTemplate,
+  hasUnpublishedChanges,
+  isAvailableForInspections
+} from '../src/services/templateLifecycle';
+import { Template } from '../src/types';
+import { MockDatabase, createMockSupabase, createTestTemplate } from '../src/test-utils';
+
+describe('Template lifecycle', () => {
+  let db: MockDatabase;
+  let service: TemplateService;
+  let base: Template;
+
+  beforeEach(() => {
+    db = new MockDatabase();
+    service = new TemplateService(createMockSupabase(db));
+    base = createTestTemplate() as Template;
+    db.set(base.id, base);
+  });
+
+  test('should keep edits in the draft until published', async () => {
+    await service.updateTemplate(base.id, { name: 'Draft name' }, base);
+
+    const row = db.get(base.id) as Template;
+    expect(row.name).toBe('Draft name');
+    expect(getPublishedTemplate(row)?.name).toBe('Test Template');
+    expect(getPublishedTemplate(row)?.version).toBe('1.0.0');
+    expect(hasUnpublishedChanges(row)).toBe(true);
+  });
+
+  test('should freeze live content before the first patch to a pre-lifecycle row', async () => {
+    await service.patchTemplate(base.id, [
+      { op: 'replace', path: '/name', value: 'Patched draft' }
+    ], base.version);
+
+    expect(getPublishedTemplate(db.get(base.id))?.name).toBe('Test Template');
+  });
+
+  test('should promote the draft on publish without changing its version', async () => {
+    await service.updateTemplate(base.id, { name: 'Ready' }, base);
+
+    const result = await service.publishTemplate(base.id);
+
+    expect(result.success).toBe(true);
+    expect(result.newVersion).toBe('1.0.1');
+    const row = db.get(base.id) as Template;
+    expect(getTemplateState(row)).toBe('published');
+    expect(getPublishedTemplate(row)?.name).toBe('Ready');
+    expect(hasUnpublishedChanges(row)).toBe(false);
+  });
+
+  test('should not offer unpublished drafts for inspections', () => {
+    const draft = { ...base, state: 'draft' } as Template;
+
+    expect(getPublishedTemplate(draft)).toBeNull();
+    expect(isAvailableForInspections(draft)).toBe(false);
+  });
+
+  test('should archive without deleting content', async () => {
+    await service.updateTemplate(base.id, { name: 'Unreleased' }, base);
+
+    const result = await service.archiveTemplate(base.id);
+
+    expect(result.success).toBe(true);
+    const row = db.get(base.id) as Template;
+    expect(getTemplateState(row)).toBe('archived');
+    expect(row.archived_at).toBeTruthy();
+    expect(row.name).toBe('Unreleased');
+    expect(getPublishedTemplate(row)?.name).toBe('Test Template');
+    expect(isAvailableForInspections(row)).toBe(false);
+  });
+
+  test('should bring archived templates back on publish', async () => {
+    await service.archiveTemplate(base.id);
+    await service.publishTemplate(base.id);
+
+    const row = db.get(base.id) as Template;
+    expect(getTemplateState(row)).toBe('published');
+    expect(row.archived_at).toBeNull();
+  });
+
+  test('should filter templates by state', async () => {
+    db.set('draft-1', createTestTemplate({ id: 'draft-1', state: 'draft' }));
+    db.set('archived-1', createTestTemplate({ id: 'archived-1', state: 'archived' }));
+
+    const ids = async (state: any) => (await service.getTemplates({ state })).templates.map(t => t.id).sort();
+
+    expect(await ids('draft')).toEqual(['draft-1']);
+    expect(await ids('published')).toEqual([base.id]);
+    expect(await ids(['draft', 'archived'])).toEqual(['archived-1', 'draft-1']);
+    expect((await service.getTemplates()).total).toBe(3);
+  });
+});
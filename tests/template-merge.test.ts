@@ -0,0 +1,104 @@
+/**
+ * Three-way merge of concurrent template edits
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { TemplateService } from '../src/services/TemplateService';
+import { mergeTemplateUpdate } from '../src/services/templateMerge';
+import { MergeConflictError, Template } from '../src/types';
+import { MockDatabase, createMockSupabase, createTestTemplate } from '../src/test-utils';
+
+describe('Template merge on version conflict', () => {
+  let db: MockDatabase;
+  let userA: TemplateService;
+  let userB: TemplateService;
+  let base: Template;
+
+  beforeEach(() => {
+    db = new MockDatabase();
+    userA = new TemplateService(createMockSupabase(db));
+    userB = new TemplateService(createMockSupabase(db));
+
+    base = createTestTemplate() as Template;
+    db.set(base.id, base);
+  });
+
+  test('should merge edits to different fields', async () => {
+    const first = await userA.updateTemplate(base.id, {
+      field_definitions: {
+        ...base.field_definitions,
+        'field-1': { ...base.field_definitions['field-1'], label: 'Asset Name' }
+      }
+    }, base);
+    expect(first.success).toBe(true);
+
+    const second = await userB.updateTemplate(base.id, {
+      field_definitions: {
+        ...base.field_definitions,
+        'field-2': { ...base.field_definitions['field-2'], required: true }
+      }
+    }, base);
+
+    expect(second.success).toBe(true);
+    expect(second.merged).toBe(true);
+
+    const final = db.get(base.id);
+    expect(final.field_definitions['field-1'].label).toBe('Asset Name');
+    expect(final.field_definitions['field-2'].required).toBe(true);
+    expect(final.version).toBe('2.0.0');
+  });
+
+  test('should merge section edits and added fields', async () => {
+    await userA.updateTemplate(base.id, {
+      sections: [{ ...base.sections[0], title: 'General' }]
+    }, base);
+
+    const result = await userB.updateTemplate(base.id, {
+      sections: [
+        { ...base.sections[0], fields: [...base.sections[0].fields, 'field-3'] },
+        { id: 'section-2', title: 'Details', fields: [], order: 2 }
+      ]
+    }, base);
+
+    expect(result.success).toBe(true);
+    expect(result.data?.sections).toEqual([
+      { id: 'section-1', title: 'General', fields: ['field-1', 'field-2', 'field-3'], order: 1 },
+      { id: 'section-2', title: 'Details', fields: [], order: 2 }
+    ]);
+  });
+
+  test('should report overlapping edits as conflicts', async () => {
+    await userA.updateTemplate(base.id, {
+      field_definitions: {
+        ...base.field_definitions,
+        'field-1': { ...base.field_definitions['field-1'], label: 'Asset Name' }
+      }
+    }, base);
+
+    const result = await userB.updateTemplate(base.id, {
+      field_definitions: {
+        ...base.field_definitions,
+        'field-1': { ...base.field_definitions['field-1'], label: 'Equipment Label' }
+      }
+    }, base);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBeInstanceOf(MergeConflictError);
+    expect(result.conflicts?.map(c => c.path)).toEqual(['field_definitions.field-1.label']);
+    expect(db.get(base.id).field_definitions['field-1'].label).toBe('Asset Name');
+  });
+
+  test('should conflict when a field is removed on one side and edited on the other', () => {
+    const { 'field-2': _removed, ...remaining } = base.field_definitions;
+    const current = { ...base, field_definitions: remaining };
+
+    const outcome = mergeTemplateUpdate(base, {
+      field_definitions: {
+        ...base.field_definitions,
+        'field-2': { ...base.field_definitions['field-2'], label: 'Serial #' }
+      }
+    }, current);
+
+    expect(outcome.conflicts.map(c => c.path)).toEqual(['field_definitions.field-2']);
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Offline outbox for template edits
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { TemplateService } from '../src/services/TemplateService';
+import { TemplateOutbox, MemoryStorage } from '../src/services/TemplateOutbox';
+import { NetworkError, Template } from '../src/types';
+import { MockDatabase, createMockSupabase, createTestTemplate } from '../src/test-utils';
+
+describe('Template outbox', () => {
+  let db: MockDatabase;
+  let storage: MemoryStorage;
+  let service: TemplateService;
+  let outbox: TemplateOutbox;
+  let base: Template;
+
+  beforeEach(() => {
+    db = new MockDatabase();
+    storage = new MemoryStorage();
+    service = new TemplateService(createMockSupabase(db));
+    outbox = new TemplateOutbox(service, storage);
+
+    base = createTestTemplate() as Template;
+    db.set(base.id, base);
+  });
+
+  test('should classify connection failures as NetworkError', async () => {
+    db.setOnline(false);
+    const result = await service.updateTemplate(base.id, { name: 'Offline' }, base);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBeInstanceOf(NetworkError);
+  });
+
+  test('should queue edits while offline and replay them in order', async () => {
+    db.setOnline(false);
+
+    const first = await outbox.updateTemplate(base.id, { name: 'First' }, base);
+    const second = await outbox.updateTemplate(base.id, { name: 'Second' }, { ...base, name: 'First' });
+
+    expect(first.queued).toBe(true);
+    expect(second.queued).toBe(true);
+    expect(outbox.getStatus(base.id)).toBe('pending');
+    expect(db.get(base.id).name).toBe('Test Template');
+
+    db.setOnline(true);
+    await outbox.replay();
+
+    expect(outbox.getEntries()).toHaveLength(0);
+    expect(outbox.getStatus(base.id)).toBeUndefined();
+    expect(db.get(base.id).name).toBe('Second');
+  });
+
+  test('should survive a restart via the storage adapter', async () => {
+    db.setOnline(false);
+    await outbox.patchTemplate(base.id, [
+      { op: 'replace', path: '/name', value: 'Patched offline' }
+    ], base.version);
+
+    db.setOnline(true);
+    const restarted = new TemplateOutbox(new TemplateService(createMockSupabase(db)), storage);
+    expect(restarted.getStatus(base.id)).toBe('pending');
+
+    await restarted.replay();
+    expect(db.get(base.id).name).toBe('Patched offline');
+  });
+
+  test('should rebase queued edits onto newer versions', async () => {
+    db.setOnline(false);
+    await outbox.updateTemplate(base.id, {
+      field_definitions: {
+        ...base.field_definitions,
+        'field-2': { ...base.field_definitions['field-2'], required: true }
+      }
+    }, base);
+
+    db.setOnline(true);
+    db.update(base.id, { name: 'Renamed online', version: '1.0.1' });
+
+    await outbox.replay();
+
+    const final = db.get(base.id);
+    expect(final.name).toBe('Renamed online');
+    expect(final.field_definitions['field-2'].required).toBe(true);
+  });
+
+  test('should surface edits that can no longer apply as conflicts', async () => {
+    db.setOnline(false);
+    await outbox.updateTemplate(base.id, { name: 'Offline name' }, base);
+
+    db.setOnline(true);
+    db.update(base.id, { name: 'Online name', version: '1.0.1' });
+
+    await outbox.replay();
+
+    const [entry] = outbox.getEntries();
+    expect(entry.status).toBe('conflict');
+    expect(entry.conflicts?.map(c => c.path)).toEqual(['name']);
+    expect(outbox.getStatus(base.id)).toBe('conflict');
+  });
+
+  test('should hold later edits behind one that conflicts', async () => {
+    db.setOnline(false);
+    await outbox.updateTemplate(base.id, { name: 'Offline name' }, base);
+    await outbox.patchTemplate(base.id, [{ op: 'replace', path: '/name', value: 'Offline rename' }], '1.0.1');
+
+    db.setOnline(true);
+    db.update(base.id, { name: 'Online name', version: '1.0.1' });
+    await outbox.replay();
+
+    const [conflict, held] = outbox.getEntries();
+    expect(conflict.status).toBe('conflict');
+    expect(held).toMatchObject({ status: 'pending', attempts: 0 });
+    expect(db.get(base.id).name).toBe('Online name');
+
+    // Live edits queue up behind it too
+    const live = await outbox.updateTemplate(base.id, {
+      field_definitions: {
+        ...base.field_definitions,
+        'field-2': { ...base.field_definitions['field-2'], required: true }
+      }
+    }, db.get(base.id));
+    expect(live).toMatchObject({ queued: true, error: { message: expect.stringContaining('earlier edit to this template that conflicts') } });
+
+    // Discarding the conflict lets the edits behind it through
+    await outbox.discard(conflict.id);
+
+    expect(outbox.getEntries()).toEqual([]);
+    expect(db.get(base.id).name).toBe('Offline rename');
+    expect(db.get(base.id).field_definitions['field-2'].required).toBe(true);
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * Searching, filtering, sorting and paging the template list
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { TemplateService } from '../src/services/TemplateService';
+import { searchTemplates, parseTemplateFilter, formatTemplateFilter } from '../src/services/templateSearch';
+import { TemplateList } from '../src/components/TemplateList';
+import { Template, TemplateSort, TenantIsolationError, ServiceContext, SupabaseClient } from '../src/types';
+import { MockDatabase, createMockSupabase, createTestTemplate } from '../src/test-utils';
+
+const forklift = createTestTemplate({
+  id: 'forklift',
+  name: 'Forklift Daily Check',
+  updated_at: '2024-03-01T00:00:00.000Z',
+  update_count: 4
+}) as Template;
+
+const crane = createTestTemplate({
+  id: 'crane',
+  name: 'Crane Inspection',
+  state: 'draft',
+  sections: [{ id: 'section-1', title: 'Hoist and rigging', fields: ['field-1'], order: 1 }],
+  field_definitions: { 'field-1': { id: 'field-1', type: 'text', label: 'Wire rope condition', required: true } },
+  updated_at: '2024-05-01T00:00:00.000Z',
+  update_count: 1
+}) as Template;
+
+const scaffold = createTestTemplate({
+  id: 'scaffold',
+  name: 'Échafaudage',
+  updated_at: '2024-01-01T00:00:00.000Z',
+  update_count: 9
+}) as Template;
+
+const all = [forklift, crane, scaffold];
+const ids = (templates: Template[]) => templates.map(template => template.id);
+
+describe('searchTemplates', () => {
+  test('should match names, section titles and field labels by word prefix', () => {
+    expect(ids(searchTemplates(all, { query: 'fork' }).templates)).toEqual(['forklift']);
+    expect(ids(searchTemplates(all, { query: 'hoist' }).templates)).toEqual(['crane']);
+    expect(ids(searchTemplates(all, { query: 'wire rope' }).templates)).toEqual(['crane']);
+    expect(ids(searchTemplates(all, { query: 'echafaud' }).templates)).toEqual(['scaffold']);
+    expect(ids(searchTemplates(all, { query: 'rope forklift' }).templates)).toEqual([]);
+  });
+
+  test('should filter by state and update date', () => {
+    expect(ids(searchTemplates(all, { state: 'draft' }).templates)).toEqual(['crane']);
+    expect(ids(searchTemplates(all, { updatedAfter: '2024-02-01' }).templates)).toEqual(['crane', 'forklift']);
+  });
+
+  test('should sort by name, update date or update count', () => {
+    expect(ids(searchTemplates(all).templates)).toEqual(['crane', 'scaffold', 'forklift']);
+    expect(ids(searchTemplates(all, { sort: '-updated_at' }).templates)).toEqual(['crane', 'forklift', 'scaffold']);
+    expect(ids(searchTemplates(all, { sort: '-update_count' }).templates)).toEqual(['scaffold', 'forklift', 'crane']);
+  });
+
+  test('should page the results and count them all', () => {
+    const page = searchTemplates(all, { sort: 'update_count', page: 2, pageSize: 2 });
+
+    expect(page).toMatchObject({ total: 3, page: 2, pageSize: 2 });
+    expect(ids(page.templates)).toEqual(['scaffold']);
+  });
+
+  test('should keep filters in the URL', () => {
+    const filter = parseTemplateFilter('?q=wire+rope&state=draft,archived&sort=-updated_at&page=3&page_size=12');
+
+    expect(filter).toEqual({
+      query: 'wire rope',
+      state: ['draft', 'archived'],
+      sort: '-updated_at',
+      page: 3,
+      pageSize: 12
+    });
+    expect(parseTemplateFilter(`?${formatTemplateFilter(filter)}`)).toEqual(filter);
+    expect(formatTemplateFilter({ sort: 'name', page: 1 })).toBe('');
+    expect(parseTemplateFilter('?sort=colour&page=zero&updated_after=soon')).toEqual({});
+  });
+});
+
+describe('TemplateService.getTemplates', () => {
+  let db: MockDatabase;
+
+  beforeEach(() => {
+    db = new MockDatabase();
+    all.forEach(template => db.set(template.id, template));
+    db.set('other', createTestTemplate({ id: 'other', name: 'Forklift (other org)', organization_id: 'org-b' }));
+  });
+
+  test('should return the requested page of matches with their total', async () => {
+    const service = new TemplateService(createMockSupabase(db));
+
+    const result = await service.getTemplates({ query: 'forklift', orgId: 'org-123', pageSize: 1 });
+
+    expect(result).toMatchObject({ total: 1, page: 1, pageSize: 1 });
+    expect(ids(result.templates)).toEqual(['forklift']);
+  });
+
+  test('should page in the database and only resolve that page', async () => {
+    const client = createMockSupabase(db);
+    const loaded: number[] = [];
+    const counting: SupabaseClient = {
+      ...client,
+      from: table => {
+        const builder = client.from(table);
+        const then = builder.then.bind(builder);
+        builder.then = resolve => then(result => {
+          loaded.push(Array.isArray(result.data) ? result.data.length : 1);
+          resolve(result);
+        });
+        return builder;
+      }
+    };
+    const service = new TemplateService(counting);
+    const sorts: TemplateSort[] = ['name', '-name', 'updated_at', '-update_count'];
+
+    for (const sort of sorts) {
+      const filter = { orgId: 'org-123', sort, page: 2, pageSize: 1 };
+      expect(ids((await service.getTemplates(filter)).templates)).toEqual(ids(searchTemplates(all, filter).templates));
+    }
+    const drafts = await service.getTemplates({ orgId: 'org-123', state: 'draft', updatedAfter: '2024-02-01', pageSize: 5 });
+
+    expect(drafts).toMatchObject({ total: 1, page: 1, pageSize: 5 });
+    expect(ids(drafts.templates)).toEqual(['crane']);
+    expect(loaded).toEqual([1, 1, 1, 1, 1]);
+  });
+
+  test('should ignore an update date that is not a date', async () => {
+    const service = new TemplateService(createMockSupabase(db));
+
+    const result = await service.getTemplates({ orgId: 'org-123', updatedAfter: 'soon', pageSize: 2 });
+
+    expect(result.total).toBe(3);
+    expect(ids(result.templates)).toEqual(['crane', 'scaffold']);
+    expect(searchTemplates(all, { updatedAfter: 'soon' }).total).toBe(3);
+  });
+
+  test('should still search resolved content before paging', async () => {
+    db.set('heir', createTestTemplate({
+      id: 'heir',
+      name: 'Heir',
+      sections: [],
+      field_definitions: {},
+      base_template_id: crane.id,
+      base_version: crane.version
+    }));
+    const service = new TemplateService(createMockSupabase(db));
+
+    const result = await service.getTemplates({ orgId: 'org-123', query: 'wire rope', pageSize: 1, page: 2 });
+
+    expect(result).toMatchObject({ total: 2, page: 2 });
+    expect(ids(result.templates)).toEqual(['heir']);
+  });
+
+  test('should refuse to list another organization\'s templates', async () => {
+    const context: ServiceContext = { orgId: 'org-123', userId: 'alice' };
+    db.set('member', { organization_id: 'org-123', user_id: 'alice', role: 'viewer' }, 'organization_members');
+    const service = new TemplateService(createMockSupabase(db, { auth: context }), { context });
+
+    await expect(service.getTemplates({ orgId: 'org-b' })).rejects.toBeInstanceOf(TenantIsolationError);
+    expect((await service.getTemplates({ orgId: 'org-123' })).total).toBe(3);
+  });
+});
+
+describe('TemplateList search', () => {
+  test('should render the filters and paging', () => {
+    const html = renderToStaticMarkup(createElement(TemplateList, {
+      templates: [crane],
+      total: 3,
+      filter: { query: 'in', sort: '-update_count', page: 2, pageSize: 1 },
+      onFilterChange: () => {},
+      onSelectTemplate: () => {}
+    }));
+
+    expect(html).toContain('<input type="search" placeholder="Search names, sections and fields" value="in"/>');
+    expect(html).toContain('<option value="-update_count" selected="">Most updates</option>');
+    expect(html).toContain('<span>Page 2 of 3 (3 templates)</span>');
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Template export envelopes and importing them
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { TemplateService } from '../src/services/TemplateService';
+import {
+  exportTemplate,
+  parseTemplateExport,
+  templateChecksum,
+  EXPORT_FORMAT_VERSION
+} from '../src/services/templateTransfer';
+import { insertLibraryItem } from '../src/services/fieldLibrary';
+import { Template, TemplateImportError, ServiceContext } from '../src/types';
+import { MockDatabase, createMockSupabase, createTestTemplate } from '../src/test-utils';
+
+const source = createTestTemplate({
+  organization_id: 'org-a',
+  last_user_update: 'alice',
+  state: 'published',
+  inspection_variants: [
+    {
+      id: 'offshore',
+      name: 'Offshore',
+      conditions: { attribute: 'site', operator: 'eq', value: 'offshore' },
+      fieldOverrides: { 'field-2': { required: true } }
+    }
+  ]
+}) as Template;
+
+describe('templateTransfer', () => {
+  test('should export the full template without org-specific data', () => {
+    const envelope = exportTemplate(source, new Date('2024-05-01T00:00:00Z'));
+
+    expect(envelope).toMatchObject({
+      format: 'inspection-template',
+      format_version: EXPORT_FORMAT_VERSION,
+      exported_at: '2024-05-01T00:00:00.000Z',
+      source_org: 'org-a'
+    });
+    expect(envelope.template.inspection_variants).toEqual(source.inspection_variants);
+    expect(envelope.template).not.toHaveProperty('organization_id');
+    expect(envelope.template).not.toHaveProperty('last_user_update');
+    expect(envelope.template).not.toHaveProperty('state');
+    expect(envelope.checksum).toMatch(/^fnv1a32:[0-9a-f]{8}$/);
+  });
+
+  test('should accept its own exports, including as JSON text', () => {
+    const envelope = exportTemplate(source);
+
+    expect(parseTemplateExport(JSON.stringify(envelope))).toEqual(envelope);
+  });
+
+  test('should list every problem with an envelope', () => {
+    const envelope = exportTemplate(source);
+    const problemsOf = (input: unknown) => {
+      try {
+        parseTemplateExport(input);
+        return [];
+      } catch (error) {
+        return (error as TemplateImportError).problems;
+      }
+    };
+
+    expect(problemsOf({ ...envelope, template: { ...envelope.template, name: 'Edited in transit' } })).toEqual([
+      'Checksum does not match the template; the export was modified or truncated'
+    ]);
+    expect(problemsOf({ ...envelope, format: 'csv', format_version: EXPORT_FORMAT_VERSION + 1 })).toEqual([
+      'Unknown format "csv"',
+      `format_version ${EXPORT_FORMAT_VERSION + 1} is newer than supported (${EXPORT_FORMAT_VERSION})`
+    ]);
+    expect(() => parseTemplateExport('{not json')).toThrow('Export is not valid JSON');
+  });
+});
+
+describe('TemplateService import', () => {
+  let db: MockDatabase;
+  const bob: ServiceContext = { orgId: 'org-b', userId: 'bob' };
+
+  const serviceFor = (context: ServiceContext) =>
+    new TemplateService(createMockSupabase(db, { auth: context }), { context });
+
+  beforeEach(() => {
+    db = new MockDatabase();
+    db.set(source.id, source);
+    db.set('member-a', { organization_id: 'org-a', user_id: 'alice', role: 'editor' }, 'organization_members');
+    db.set('member-b', { organization_id: 'org-b', user_id: 'bob', role: 'editor' }, 'organization_members');
+  });
+
+  test('should create the template as a draft in the importing organization', async () => {
+    const envelope = await serviceFor({ orgId: 'org-a', userId: 'alice' }).exportTemplate(source.id);
+
+    const report = await serviceFor(bob).importTemplate(envelope);
+
+    expect(report.success).toBe(true);
+    // The original id is taken, even though org-b can't see by whom
+    expect(report.renamed).toEqual([{ kind: 'template', from: source.id, to: `${source.id}-2` }]);
+    expect(report.created[0]).toEqual({ kind: 'template', id: `${source.id}-2` });
+    const row = db.get(`${source.id}-2`) as Template;
+    expect(row).toMatchObject({ organization_id: 'org-b', state: 'draft', last_user_update: 'bob' });
+    expect(row.inspection_variants).toEqual(source.inspection_variants);
+  });
+
+  test('should export library content as plain copies', async () => {
+    const alice = serviceFor({ orgId: 'org-a', userId: 'alice' });
+    const item = await alice.saveLibraryItem({
+      kind: 'section',
+      name: 'Sign-off',
+      section: { title: 'Sign-off', fields: [{ id: 'inspector', type: 'text', label: 'Inspector', required: true }] }
+    });
+    await alice.updateTemplate(source.id, insertLibraryItem(source, item), source);
+
+    const envelope = await alice.exportTemplate(source.id);
+
+    expect(JSON.stringify(envelope)).not.toContain('"library"');
+    expect(envelope.template.sections[1]).toMatchObject({ title: 'Sign-off', fields: ['section-sign-off.inspector'] });
+    expect(envelope.template.field_definitions['section-sign-off.inspector']).toMatchObject({ label: 'Inspector', required: true });
+
+    const report = await serviceFor(bob).importTemplate(envelope);
+    expect(report.success).toBe(true);
+    expect((await serviceFor(bob).getTemplate(report.created[0].id))!.sections[1].title).toBe('Sign-off');
+  });
+
+  test('should rename on a name clash and skip identical re-imports', async () => {
+    const alice = serviceFor({ orgId: 'org-a', userId: 'alice' });
+    const changed = exportTemplate({ ...source, field_definitions: { 'field-1': source.field_definitions['field-1'] } });
+    changed.template.sections = [{ ...source.sections[0], fields: ['field-1'] }];
+    changed.checksum = templateChecksum(changed.template);
+
+    const identical = await alice.importTemplate(exportTemplate(source));
+    const clash = await alice.importTemplate(changed);
+
+    expect(identical.skipped).toEqual([
+      { kind: 'template', id: source.id, reason: 'An identical template already exists' }
+    ]);
+    expect(clash.renamed).toEqual([
+      { kind: 'name', from: 'Test Template', to: 'Test Template (imported)' },
+      { kind: 'template', from: source.id, to: `${source.id}-2` }
+    ]);
+  });
+
+  test('should skip section entries for undefined fields', async () => {
+    const envelope = exportTemplate({ ...source, id: 'fresh' });
+    envelope.template.sections = [{ ...source.sections[0], fields: ['field-1', 'field-2', 'ghost'] }];
+    envelope.checksum = templateChecksum(envelope.template);
+
+    const report = await serviceFor(bob).importTemplate(envelope);
+
+    expect(report.skipped).toEqual([
+      { kind: 'field', id: 'ghost', reason: 'Section "General Information" lists an undefined field' }
+    ]);
+    expect(db.get('fresh').sections[0].fields).toEqual(['field-1', 'field-2']);
+  });
+
+  test('should report invalid envelopes without creating anything', async () => {
+    const report = await serviceFor(bob).importTemplate({ format: 'something-else' });
+
+    expect(report.success).toBe(false);
+    expect(report.error).toBeInstanceOf(TemplateImportError);
+    expect(db.all()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Organization scoping and row-level security
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { TemplateService } from '../src/services/TemplateService';
+import { Template, TenantIsolationError, ServiceContext } from '../src/types';
+import { MockDatabase, createMockSupabase, createTestTemplate } from '../src/test-utils';
+
+const alice: ServiceContext = { orgId: 'org-a', userId: 'alice' };
+const bob: ServiceContext = { orgId: 'org-b', userId: 'bob' };
+
+describe('Tenant isolation', () => {
+  let db: MockDatabase;
+  let ours: Template;
+  let theirs: Template;
+
+  const serviceFor = (context: ServiceContext, rls = true) =>
+    new TemplateService(
+      createMockSupabase(db, rls ? { auth: context } : {}),
+      { context, lease: { waitMs: 0 } }
+    );
+
+  beforeEach(() => {
+    db = new MockDatabase();
+    ours = createTestTemplate({ id: 'template-a', name: 'Ours', organization_id: 'org-a' }) as Template;
+    theirs = createTestTemplate({ id: 'template-b', name: 'Theirs', organization_id: 'org-b' }) as Template;
+    db.set(ours.id, ours);
+    db.set(theirs.id, theirs);
+    db.set('member-a', { organization_id: 'org-a', user_id: 'alice', role: 'editor' }, 'organization_members');
+    db.set('member-b', { organization_id: 'org-b', user_id: 'bob', role: 'editor' }, 'organization_members');
+  });
+
+  test('should only list templates of the bound organization', async () => {
+    const { templates } = await serviceFor(alice).getTemplates();
+
+    expect(templates.map(t => t.id)).toEqual(['template-a']);
+  });
+
+  test('should not read another organization\'s template', async () => {
+    expect(await serviceFor(alice).getTemplate(theirs.id)).toBeNull();
+  });
+
+  test('should refuse to overwrite another organization\'s template', async () => {
+    const update = await serviceFor(alice).updateTemplate(theirs.id, { name: 'Hijacked' }, theirs);
+    const patch = await serviceFor(alice).patchTemplate(theirs.id, [
+      { op: 'replace', path: '/name', value: 'Hijacked' }
+    ], theirs.version);
+
+    expect(update.error).toBeInstanceOf(TenantIsolationError);
+    expect(patch.error).toBeInstanceOf(TenantIsolationError);
+    expect(db.get(theirs.id).name).toBe('Theirs');
+  });
+
+  test('should scope queries even when the client bypasses row-level security', async () => {
+    const service = serviceFor(alice, false);
+
+    expect((await service.getTemplates()).templates.map(t => t.id)).toEqual(['template-a']);
+    const result = await service.updateTemplate(theirs.id, { name: 'Hijacked' }, theirs);
+
+    expect(result.error).toBeInstanceOf(TenantIsolationError);
+    expect(db.get(theirs.id).name).toBe('Theirs');
+  });
+
+  test('should attribute writes to the bound user and keep history private', async () => {
+    await serviceFor(alice).updateTemplate(ours.id, { name: 'Ours v2' }, ours);
+    await serviceFor(bob).updateTemplate(theirs.id, { name: 'Theirs v2' }, theirs);
+
+    expect(db.get(ours.id).last_user_update).toBe('alice');
+    const history = await serviceFor(alice).getTemplateHistory(theirs.id);
+    expect(history).toEqual([]);
+    expect((await serviceFor(bob).getTemplateHistory(theirs.id))[0].author).toBe('bob');
+  });
+
+  describe('row-level security in the mock client', () => {
+    test('should reject reads and writes of rows in another organization', async () => {
+      const client = createMockSupabase(db, { auth: alice });
+
+      const read = await client.from('template_library').select('*').eq('id', theirs.id).single();
+      const write = await client.from('template_library').update({ name: 'Hijacked' }).eq('id', theirs.id).single();
+      const insert = await client.from('template_library').insert({ ...theirs, id: 'planted' }).single();
+
+      expect([read.error?.code, write.error?.code, insert.error?.code]).toEqual(['42501', '42501', '42501']);
+      expect(db.get('planted')).toBeNull();
+    });
+
+    test('should not let a row be moved into another organization', async () => {
+      const client = createMockSupabase(db, { auth: alice });
+
+      const { error } = await client
+        .from('template_library')
+        .update({ organization_id: 'org-b' })
+        .eq('id', ours.id)
+        .single();
+
+      expect(error?.code).toBe('42501');
+      expect(db.get(ours.id).organization_id).toBe('org-a');
+    });
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Declarative field validation rules
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { validateResponse, validateTemplateDefinition } from '../src/services/validation';
+import { TemplateService } from '../src/services/TemplateService';
+import { FieldDefinition, Template, TemplateValidationError } from '../src/types';
+import { MockDatabase, createMockSupabase, createTestTemplate } from '../src/test-utils';
+
+const now = new Date('2026-03-10T12:00:00Z');
+
+function inspectionTemplate(): Template {
+  return createTestTemplate({
+    field_definitions: {
+      serial: {
+        id: 'serial', type: 'text', label: 'Serial', required: true,
+        validation: [{ kind: 'pattern', pattern: '^SN-\\d{4}$' }, { kind: 'maxLength', value: 7 }]
+      },
+      pressure: {
+        id: 'pressure', type: 'number', label: 'Pressure', required: false,
+        validation: [{ kind: 'min', value: 0 }, { kind: 'max', value: 150, message: 'Pressure is out of range' }]
+      },
+      condition: {
+        id: 'condition', type: 'select', label: 'Condition', required: true,
+        options: ['Good', 'Fair', 'Poor']
+      },
+      inspected: {
+        id: 'inspected', type: 'date', label: 'Inspected on', required: true,
+        validation: [{ kind: 'dateRange', minDaysFromToday: -30, maxDaysFromToday: 0 }]
+      },
+      next_due: {
+        id: 'next_due', type: 'date', label: 'Next due', required: false,
+        validation: [{ kind: 'compareField', field: 'inspected', operator: 'gt' }]
+      }
+    }
+  }) as Template;
+}
+
+describe('Validation rules', () => {
+  describe('validateResponse', () => {
+    test('should accept a valid response', () => {
+      const result = validateResponse(inspectionTemplate(), {
+        serial: 'SN-1234',
+        pressure: 80,
+        condition: 'Good',
+        inspected: '2026-03-09',
+        next_due: '2026-09-09'
+      }, { now });
+
+      expect(result).toEqual({ valid: true, errors: {} });
+    });
+
+    test('should report per-field errors', () => {
+      const result = validateResponse(inspectionTemplate(), {
+        serial: 'SN-12',
+        pressure: 200,
+        condition: 'Broken',
+        inspected: '2026-03-11',
+        next_due: '2026-03-01'
+      }, { now });
+
+      expect(result.valid).toBe(false);
+      expect(result.errors.serial.map(e => e.rule)).toEqual(['pattern']);
+      expect(result.errors.pressure[0].message).toBe('Pressure is out of range');
+      expect(result.errors.condition[0].rule).toBe('options');
+      expect(result.errors.inspected[0].message).toBe('Inspected on is too far in the future');
+      expect(result.errors.next_due[0].message).toBe('Next due must be after Inspected on');
+    });
+
+    test('should require answers for required fields only', () => {
+      const result = validateResponse(inspectionTemplate(), { serial: '' }, { now });
+
+      expect(Object.keys(result.errors).sort()).toEqual(['condition', 'inspected', 'serial']);
+      expect(result.errors.serial[0].rule).toBe('required');
+    });
+
+    test('should reject answers of the wrong type', () => {
+      const result = validateResponse(inspectionTemplate(), {
+        serial: 'SN-1234', condition: 'Good', inspected: '2026-03-09', pressure: '80' as any
+      }, { now });
+
+      expect(result.errors.pressure[0].rule).toBe('type');
+    });
+
+    test('should compare dates by calendar day', () => {
+      const template = inspectionTemplate();
+      template.field_definitions.next_due.validation = [{ kind: 'compareField', field: 'inspected', operator: 'eq' }];
+
+      const sameDay = validateResponse(template, {
+        serial: 'SN-1234', condition: 'Good', inspected: '2026-03-09', next_due: '2026-03-09T15:30:00Z'
+      }, { now });
+      const nextDay = validateResponse(template, {
+        serial: 'SN-1234', condition: 'Good', inspected: '2026-03-09', next_due: '2026-03-10'
+      }, { now });
+
+      expect(sameDay.valid).toBe(true);
+      expect(nextDay.errors.next_due[0].message).toBe('Next due must be the same day as Inspected on');
+    });
+  });
+
+  describe('validateTemplateDefinition', () => {
+    test('should accept well-formed rules', () => {
+      expect(validateTemplateDefinition(inspectionTemplate().field_definitions)).toEqual([]);
+    });
+
+    test('should flag inconsistent rules', () => {
+      const fields: Record<string, FieldDefinition> = {
+        a: { id: 'a', type: 'number', label: 'A', required: false, validation: [{ kind: 'min', value: 10 }, { kind: 'max', value: 1 }] },
+        b: { id: 'b', type: 'text', label: 'B', required: false, validation: [{ kind: 'pattern', pattern: '([' }] },
+        c: { id: 'c', type: 'text', label: 'C', required: false, validation: [{ kind: 'min', value: 1 }] },
+        d: { id: 'd', type: 'select', label: 'D', required: false, options: [] },
+        e: { id: 'e', type: 'date', label: 'E', required: false, validation: [{ kind: 'compareField', field: 'a', operator: 'gt' }] }
+      };
+
+      expect(validateTemplateDefinition(fields).map(i => i.fieldId)).toEqual(['a', 'b', 'c', 'd', 'e']);
+    });
+
+    test('should flag malformed rules instead of throwing', () => {
+      const fields = {
+        a: { id: 'a', type: 'number', label: 'A', required: false, validation: [null, { kind: 'min', value: '5' }] },
+        b: { id: 'b', type: 'number', label: 'B', required: false, validation: [{ kind: 'max' }] }
+      } as unknown as Record<string, FieldDefinition>;
+
+      expect(validateTemplateDefinition(fields)).toEqual([
+        { fieldId: 'a', message: '"A" has a malformed validation rule' },
+        { fieldId: 'a', message: '"min" must be a number' },
+        { fieldId: 'b', message: '"max" must be a number' }
+      ]);
+    });
+  });
+
+  describe('save-time checks', () => {
+    let db: MockDatabase;
+    let service: TemplateService;
+    let base: Template;
+
+    beforeEach(() => {
+      db = new MockDatabase();
+      service = new TemplateService(createMockSupabase(db));
+      base = createTestTemplate() as Template;
+      db.set(base.id, base);
+    });
+
+    test('should refuse to save invalid definitions', async () => {
+      const result = await service.updateTemplate(base.id, {
+        field_definitions: {
+          ...base.field_definitions,
+          'field-2': { ...base.field_definitions['field-2'], validation: [{ kind: 'min', value: 5 }, { kind: 'max', value: 1 }] }
+        }
+      }, base);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBeInstanceOf(TemplateValidationError);
+      expect(db.get(base.id).version).toBe('1.0.0');
+    });
+
+    test('should refuse patches that produce invalid definitions', async () => {
+      const result = await service.patchTemplate(base.id, [
+        { op: 'add', path: '/field_definitions/field-1/validation', value: [{ kind: 'pattern', pattern: '(' }] }
+      ], base.version);
+
+      expect(result.error).toBeInstanceOf(TemplateValidationError);
+      expect((result.error as TemplateValidationError).issues[0].fieldId).toBe('field-1');
+    });
+  });
+});
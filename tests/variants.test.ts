@@ -0,0 +1,98 @@
+/**
+ * Inspection variant conditions and effective-template resolution
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { evaluateCondition, resolveEffectiveTemplate } from '../src/services/variants';
+import { InspectionVariant, Template } from '../src/types';
+import { createTestTemplate } from '../src/test-utils';
+
+function templateWith(variants: InspectionVariant[]): Template {
+  return createTestTemplate({ inspection_variants: variants }) as Template;
+}
+
+describe('Inspection variants', () => {
+  describe('evaluateCondition', () => {
+    test('should combine and/or/not with comparisons', () => {
+      const condition = {
+        all: [
+          { attribute: 'assetType', operator: 'eq' as const, value: 'boiler' },
+          { any: [
+            { attribute: 'region', operator: 'in' as const, value: ['north', 'east'] },
+            { not: { attribute: 'site', operator: 'exists' as const } }
+          ] }
+        ]
+      };
+
+      expect(evaluateCondition(condition, { assetType: 'boiler', region: 'east' }).matched).toBe(true);
+      expect(evaluateCondition(condition, { assetType: 'boiler', region: 'west' }).matched).toBe(true);
+      expect(evaluateCondition(condition, { assetType: 'boiler', region: 'west', site: 'A' }).matched).toBe(false);
+      expect(evaluateCondition(condition, { assetType: 'chiller' }).reasons)
+        .toEqual(['assetType eq "boiler" (was "chiller")']);
+    });
+
+    test('should treat missing conditions as always matching', () => {
+      expect(evaluateCondition(undefined, {})).toEqual({ matched: true, reasons: ['no conditions'] });
+    });
+  });
+
+  describe('resolveEffectiveTemplate', () => {
+    const boilers: InspectionVariant = {
+      id: 'boilers',
+      name: 'Boilers',
+      conditions: { attribute: 'assetType', operator: 'eq', value: 'boiler' },
+      fieldOverrides: { 'field-2': { required: true, label: 'Boiler Serial' } }
+    };
+    const northBoilers: InspectionVariant = {
+      id: 'north-boilers',
+      name: 'Northern boilers',
+      conditions: { all: [
+        { attribute: 'assetType', operator: 'eq', value: 'boiler' },
+        { attribute: 'region', operator: 'eq', value: 'north' }
+      ] },
+      fieldOverrides: { 'field-2': { label: 'Serial (North)' } }
+    };
+    const hideName: InspectionVariant = {
+      id: 'hide-name',
+      name: 'Hide name',
+      conditions: { attribute: 'site', operator: 'eq', value: 'depot' },
+      fieldOverrides: { 'field-1': { hidden: true } },
+      priority: 10
+    };
+
+    test('should apply matching variants and explain the result', () => {
+      const result = resolveEffectiveTemplate(templateWith([boilers, hideName]), { assetType: 'boiler' });
+
+      expect(result.applied).toEqual(['boilers']);
+      expect(result.matches.map(m => [m.variantId, m.matched])).toEqual([['boilers', true], ['hide-name', false]]);
+      expect(result.template.field_definitions['field-2']).toMatchObject({ required: true, label: 'Boiler Serial' });
+      expect(result.template.inspection_variants).toBeUndefined();
+    });
+
+    test('should let more specific and higher priority variants win', () => {
+      const result = resolveEffectiveTemplate(
+        templateWith([northBoilers, boilers, hideName]),
+        { assetType: 'boiler', region: 'north', site: 'depot' }
+      );
+
+      expect(result.applied).toEqual(['boilers', 'north-boilers', 'hide-name']);
+      expect(result.template.field_definitions['field-2'].label).toBe('Serial (North)');
+      expect(result.template.field_definitions['field-1']).toBeUndefined();
+      expect(result.template.sections[0].fields).toEqual(['field-2']);
+    });
+
+    test('should report variants that override the same field differently', () => {
+      const result = resolveEffectiveTemplate(
+        templateWith([boilers, northBoilers]),
+        { assetType: 'boiler', region: 'north' }
+      );
+
+      expect(result.overlaps).toEqual([{
+        fieldId: 'field-2',
+        property: 'label',
+        variantIds: ['boilers', 'north-boilers'],
+        values: ['Boiler Serial', 'Serial (North)']
+      }]);
+    });
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Semantic version bumps from template changes
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { classifyTemplateChange, bumpVersion } from '../src/services/versionBump';
+import { TemplateService } from '../src/services/TemplateService';
+import { Template } from '../src/types';
+import { MockDatabase, createMockSupabase, createTestTemplate } from '../src/test-utils';
+
+describe('Template change classifier', () => {
+  let base: Template;
+
+  const withField = (fieldId: string, changes: object): Template => ({
+    ...base,
+    field_definitions: {
+      ...base.field_definitions,
+      [fieldId]: { ...base.field_definitions[fieldId], ...changes }
+    }
+  });
+
+  beforeEach(() => {
+    base = createTestTemplate() as Template;
+    base.field_definitions['field-3'] = {
+      id: 'field-3',
+      type: 'select',
+      label: 'Condition',
+      required: false,
+      options: ['Good', 'Fair', 'Poor']
+    };
+  });
+
+  test('should treat removed fields as breaking', () => {
+    const { 'field-2': removed, ...remaining } = base.field_definitions;
+    const change = classifyTemplateChange(base, { ...base, field_definitions: remaining });
+
+    expect(change.bump).toBe('major');
+    expect(change.reasons).toContainEqual({
+      bump: 'major',
+      target: 'field-2',
+      message: 'Field "Serial Number" was removed'
+    });
+  });
+
+  test('should treat type changes, new requirements and removed options as breaking', () => {
+    expect(classifyTemplateChange(base, withField('field-1', { type: 'number' })).bump).toBe('major');
+    expect(classifyTemplateChange(base, withField('field-3', { required: true })).bump).toBe('major');
+    expect(classifyTemplateChange(base, withField('field-3', { options: ['Good', 'Poor'] })).bump).toBe('major');
+  });
+
+  test('should treat additions and relaxed requirements as minor', () => {
+    const added: Template = {
+      ...base,
+      field_definitions: {
+        ...base.field_definitions,
+        'field-4': { id: 'field-4', type: 'text', label: 'Notes', required: false }
+      }
+    };
+
+    expect(classifyTemplateChange(base, added).bump).toBe('minor');
+    expect(classifyTemplateChange(base, withField('field-1', { required: false })).bump).toBe('minor');
+    expect(classifyTemplateChange(base, withField('field-3', { options: ['Good', 'Fair', 'Poor', 'Failed'] })).bump)
+      .toBe('minor');
+  });
+
+  test('should treat relabeling and renaming as a patch', () => {
+    const change = classifyTemplateChange(base, { ...withField('field-1', { label: 'Asset Name' }), name: 'Renamed' });
+
+    expect(change.bump).toBe('patch');
+    expect(change.reasons.map(r => r.message)).toEqual([
+      'Field "Equipment Name" was relabeled to "Asset Name"',
+      'Template renamed to "Renamed"'
+    ]);
+  });
+
+  test('should report every reason, not just the highest', () => {
+    const change = classifyTemplateChange(base, {
+      ...withField('field-1', { type: 'number', label: 'Count' }),
+      name: 'Renamed'
+    });
+
+    expect(change.bump).toBe('major');
+    expect(change.reasons.map(r => r.bump)).toEqual(['major', 'patch', 'patch']);
+  });
+
+  test('should bump version strings', () => {
+    expect(bumpVersion('1.4.2', 'major')).toBe('2.0.0');
+    expect(bumpVersion('1.4.2', 'minor')).toBe('1.5.0');
+    expect(bumpVersion('1.4.2', 'patch')).toBe('1.4.3');
+  });
+});
+
+describe('TemplateService version bumps', () => {
+  let db: MockDatabase;
+  let service: TemplateService;
+  let base: Template;
+
+  beforeEach(() => {
+    db = new MockDatabase();
+    service = new TemplateService(createMockSupabase(db));
+    base = createTestTemplate() as Template;
+    db.set(base.id, base);
+  });
+
+  test('should return the bump and its reasons from updateTemplate', async () => {
+    const { 'field-2': removed, ...remaining } = base.field_definitions;
+    const result = await service.updateTemplate(base.id, {
+      sections: [{ ...base.sections[0], fields: ['field-1'] }],
+      field_definitions: remaining
+    }, base);
+
+    expect(result.success).toBe(true);
+    expect(result.newVersion).toBe('2.0.0');
+    expect(result.versionChange?.bump).toBe('major');
+  });
+
+  test('should classify patches against the version they apply to', async () => {
+    const result = await service.patchTemplate(base.id, [
+      { op: 'replace', path: '/field_definitions/field-1/label', value: 'Asset Name' }
+    ], base.version);
+
+    expect(result.newVersion).toBe('1.0.1');
+    expect(result.versionChange?.reasons).toHaveLength(1);
+  });
+
+  test('should build on the stored version when the caller has none', async () => {
+    db.set(base.id, { ...base, version: '2.3.0' });
+
+    const result = await new TemplateService(createMockSupabase(db)).updateTemplate(base.id, { name: 'Renamed' });
+
+    expect(result.newVersion).toBe('2.3.1');
+    expect(db.get(base.id).version).toBe('2.3.1');
+  });
+});